@@ -0,0 +1,128 @@
+// Generates the brightness tables of some common monospace fonts
+// (src/modules/brightnesstables.ts), used by sort() without a DOM:
+// bun run build:brightness [font family or font file ...]
+//
+// Needs a canvas implementation, @napi-rs/canvas: it is a dependency of
+// script/package.json, installed by build:brightness (and not by the
+// package itself), with the open fonts of FONT_FILES. The other fonts
+// have to be installed on the system, missing fonts are skipped.
+// The default font of the playground, Simple Console, is not installed:
+// its table is generated only if its font file is passed.
+import * as fs from "fs";
+import * as path from "path";
+import { measure } from "../src/modules/sort";
+import type { BrightnessTable } from "../src/modules/types";
+
+const OUT_FILE = "./src/modules/brightnesstables.ts";
+
+const FONTS = [
+  "Simple Console",
+  "IBM Plex Mono",
+  "JetBrains Mono",
+  "Fira Code",
+  "Source Code Pro",
+  "Menlo",
+  "Monaco",
+  "Consolas",
+  "DejaVu Sans Mono",
+  "Courier New",
+];
+
+// Files of the fonts installed by script/package.json
+const FONT_FILES: Record<string, string> = {
+  "IBM Plex Mono":
+    "@ibm/plex-mono/fonts/complete/woff2/IBMPlexMono-Regular.woff2",
+  "JetBrains Mono": "jetbrains-mono/fonts/webfonts/JetBrainsMono-Regular.woff2",
+  "Fira Code": "firacode/distr/ttf/FiraCode-Regular.ttf",
+  "Source Code Pro": "source-code-pro/TTF/SourceCodePro-Regular.ttf",
+};
+const MODULES = path.join(import.meta.dir, "node_modules");
+
+// Printable ASCII, blocks, shades, box drawing and a few more chars
+// used by the programs
+let CHARS = "";
+for (let i = 32; i < 127; i++) CHARS += String.fromCharCode(i);
+CHARS += "░▒▓█▀▄▌▐▁▂▃▅▆▇▖▗▘▙▚▛▜▝▞▟■□▪▫●○◆◇";
+CHARS += "─│┌┐└┘├┤┬┴┼═║╔╗╚╝╭╮╯╰╱╲╳";
+CHARS += "·•∙°¯×÷±¿¡ÑÇ";
+
+let canvasLib: typeof import("@napi-rs/canvas");
+try {
+  canvasLib = await import("@napi-rs/canvas");
+} catch (e) {
+  console.log("A canvas implementation is needed: bun install --cwd script");
+  process.exit(1);
+}
+const { createCanvas, GlobalFonts } = canvasLib;
+
+for (const [family, file] of Object.entries(FONT_FILES)) {
+  const fontPath = path.join(MODULES, file);
+  if (!GlobalFonts.has(family) && fs.existsSync(fontPath)) {
+    GlobalFonts.registerFromPath(fontPath, family);
+  }
+}
+
+// Registers a font file, returns its family
+// (the new one in the list of the families)
+function registerFile(file: string) {
+  const names = () => GlobalFonts.families.map((f) => f.family);
+  const before = new Set(names());
+  GlobalFonts.registerFromPath(path.resolve(file));
+  return names().find((name) => !before.has(name));
+}
+
+// Font files are registered, their family is measured
+const families: string[] = [];
+for (const arg of process.argv.slice(2)) {
+  if (fs.existsSync(arg)) {
+    families.push(registerFile(arg) || path.parse(arg).name);
+  } else {
+    families.push(arg);
+  }
+}
+
+const tables: BrightnessTable[] = [];
+for (const family of families.length ? families : FONTS) {
+  if (!GlobalFonts.has(family)) {
+    console.log("Skipped (not installed): " + family);
+    continue;
+  }
+  // Same API as the 2d context of the DOM, for the calls of measure()
+  const ctx = createCanvas(1, 1).getContext("2d");
+  const table = measure(
+    CHARS,
+    family,
+    ctx as unknown as OffscreenCanvasRenderingContext2D
+  );
+  if (table) {
+    tables.push(table);
+    console.log("Measured: " + family);
+  }
+}
+
+const header = `/**
+@module   brightnesstables
+@desc     Precomputed brightness tables of some monospace fonts
+@category internal
+
+Generated by script/build-brightness-tables.ts, don’t edit by hand:
+bun run build:brightness
+Not imported by sort, so not bundled with it: the tables of the fonts
+used by a program are added with addTable(), the other fonts are measured
+with a canvas (the default font, Simple Console, has no table).
+
+import tables from 'glyph-engine/brightnesstables'
+tables.forEach(sort.addTable)
+*/
+
+import type { BrightnessTable } from "./types";
+`;
+
+// One line per table
+const body =
+  "\nconst tables: BrightnessTable[] = [\n" +
+  tables.map((table) => "  " + JSON.stringify(table) + ",\n").join("") +
+  "];\n\nexport default tables;\n";
+
+fs.writeFileSync(OUT_FILE, header + body);
+console.log("Written " + tables.length + " tables to " + OUT_FILE);
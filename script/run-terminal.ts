@@ -0,0 +1,18 @@
+// Runs a program in the terminal:
+// bun run terminal src/programs/demos/doom_flame.ts
+import * as path from "path";
+import { runTerminal } from "../src/terminal";
+
+const file = process.argv[2];
+
+if (!file) {
+  console.log("Usage: bun run terminal <path to program>");
+  process.exit(1);
+}
+
+const program = await import(path.resolve(file));
+
+runTerminal(program).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
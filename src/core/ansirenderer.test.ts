@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import type { Context } from "../modules/types";
+import { createANSIRenderer } from "./ansirenderer";
+import { getRenderer } from "./renderers";
+
+// Context writing to out, one string per write
+function writingTo(context: Context, out: string[]): Context {
+  const stream = { write: (s: string) => out.push(s) };
+  return { ...context, settings: { ...context.settings, stream } };
+}
+
+// Rows moved to by each write (1-based)
+const rowsOf = (out: string[]) =>
+  out
+    .map((s) => [...s.matchAll(/\x1b\[(\d+);1H/g)].map((m) => Number(m[1])))
+    .filter((rows) => rows.length > 0);
+
+describe("ansirenderer", () => {
+  test("keeps the state of each instance apart", () => {
+    const outA: string[] = [];
+    const outB: string[] = [];
+    const a = createANSIRenderer();
+    const b = getRenderer("ansi");
+    runHeadless(
+      {
+        // Only the second row changes after the first frame
+        main: (coord, context) =>
+          coord.y == 1 ? String(context.frame) : ".",
+        post: (context, cursor, buffer) => {
+          a.render(writingTo(context, outA), buffer);
+          // The second instance starts one frame later
+          if (context.frame > 0) b.render(writingTo(context, outB), buffer);
+        },
+      },
+      { cols: 2, rows: 3, frames: 3 }
+    );
+    expect(rowsOf(outA)).toEqual([[1, 2, 3], [2], [2]]);
+    expect(rowsOf(outB)).toEqual([[1, 2, 3], [2]]);
+  });
+});
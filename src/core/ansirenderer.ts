@@ -0,0 +1,188 @@
+/**
+@module   ansirenderer
+@desc     renders to a terminal (ANSI escape sequences)
+@category renderer
+
+Writes the buffer to a stdout-like stream (any object with a write() method),
+passed as settings.stream.
+Colors are written as truecolor sequences, bold is used for font weights
+heavier than normal. Italic, underline, line-through and inverse are
+supported as well; an opacity lower than 1 is rendered as faint.
+Only the rows which changed since the previous frame are written.
+Wide chars (see string) take two columns in the terminal as well:
+continuation cells are not written.
+*/
+
+import { css2rgb } from "../modules/color";
+import { asArray } from "../modules/cellbuffer";
+import DirtyRegion from "../modules/dirty";
+import { CONTINUATION, charWidth } from "../modules/string";
+import type { AnyBuffer, Buffer, Cell, Context } from "../modules/types";
+import { isSameCellStyle } from "./textrenderer";
+import type { Render } from "./types";
+
+export type Stream = {
+  write: (str: string) => any;
+};
+
+// State of a renderer instance
+type ANSIState = {
+  cols: number;
+  rows: number;
+  // Rows changed since the previous frame
+  region: DirtyRegion;
+};
+
+// Returns a new renderer with its own state (see textrenderer)
+export function createANSIRenderer(): Render {
+  const state: ANSIState = { cols: 0, rows: 0, region: new DirtyRegion() };
+  return {
+    preferredElementNodeName: "PRE",
+    init,
+    resize: (context) => resize(context, state),
+    render: (context, buffer) => render(context, buffer, state),
+    dispose: (context) => dispose(context, state),
+  };
+}
+
+export default createANSIRenderer;
+
+const ESC = "\x1b[";
+
+function init(context: Context) {
+  // Alternate screen, hidden cursor, clear
+  getStream(context).write(ESC + "?1049h" + ESC + "?25l" + ESC + "2J");
+}
+
+function resize(context: Context, state: ANSIState) {
+  state.cols = context.cols;
+  state.rows = context.rows;
+  state.region.reset();
+  getStream(context).write(ESC + "0m" + ESC + "2J");
+}
+
+function dispose(context: Context, state: ANSIState) {
+  // Reset style, show the cursor and restore the main screen
+  getStream(context).write(ESC + "0m" + ESC + "?25h" + ESC + "?1049l");
+  state.region.reset();
+}
+
+function render(context: Context, target: AnyBuffer, state: ANSIState) {
+  // Detect resize
+  if (context.rows != state.rows || context.cols != state.cols) {
+    resize(context, state);
+  }
+
+  // Same as in the text renderer:
+  // only the rows which changed are written.
+  const dirtyRows = state.region.update(target, state.cols, state.rows);
+  if (dirtyRows.length == 0) return;
+
+  // Typed buffers are converted (the terminal is the bottleneck anyway)
+  const buffer = asArray(target);
+
+  // The whole frame is accumulated and written at once
+  let out = "";
+  for (const j of dirtyRows) {
+    // Move to the beginning of the row (1-based coordinates)
+    out += ESC + (j + 1) + ";1H";
+    out += rowToANSI(context, buffer, j);
+  }
+
+  getStream(context).write(out + ESC + "0m");
+}
+
+// Converts the whole buffer to a string with escape sequences,
+// one line per row (for example to be saved as .ans file)
+export function toANSI(context: Context, target: AnyBuffer) {
+  const buffer = asArray(target);
+  let out = "";
+  for (let j = 0; j < context.rows; j++) {
+    out += rowToANSI(context, buffer, j) + ESC + "0m\n";
+  }
+  return out;
+}
+
+// Converts a row of the buffer to a string with escape sequences
+export function rowToANSI(context: Context, buffer: Buffer, row: number) {
+  const offs = row * context.cols;
+  let out = "";
+  let prevCell = {} as Cell;
+  for (let i = 0; i < context.cols; i++) {
+    const currCell = buffer[i + offs]!;
+    // If there is a change in style a new sequence has to be inserted
+    if (i == 0 || !isSameCellStyle(currCell, prevCell)) {
+      out += sgr(context, currCell);
+    }
+    out += cellText(currCell.char, prevCell.char, i, context.cols);
+    prevCell = currCell;
+  }
+  return out;
+}
+
+// The text written for a cell at column i, so that the columns stay
+// aligned: a continuation cell without its wide char and a wide char
+// in the last column (which would wrap) are replaced by a space
+function cellText(char: string, prevChar: string, i: number, cols: number) {
+  if (char === CONTINUATION) {
+    return i > 0 && charWidth(prevChar) == 2 ? "" : " ";
+  }
+  if (i == cols - 1 && charWidth(char) == 2) return " ";
+  return char;
+}
+
+// Builds the "Select Graphic Rendition" sequence for a cell:
+// the style is always reset first.
+function sgr(context: Context, cell: Cell) {
+  let codes = "0";
+  if (isBold(cell.fontWeight || context.settings.fontWeight)) codes += ";1";
+  if (cell.opacity !== undefined && cell.opacity < 1) codes += ";2";
+  if (cell.fontStyle == "italic" || cell.fontStyle == "oblique") {
+    codes += ";3";
+  }
+  const decoration = cell.textDecoration || "";
+  if (decoration.includes("underline")) codes += ";4";
+  if (decoration.includes("line-through")) codes += ";9";
+  if (cell.inverse) codes += ";7";
+  const fg = toTrueColor(cell.color || context.settings.color);
+  if (fg) codes += ";38;2;" + fg;
+  const bg = toTrueColor(
+    cell.backgroundColor || context.settings.backgroundColor
+  );
+  if (bg) codes += ";48;2;" + bg;
+  return ESC + codes + "m";
+}
+
+// CSS colors are parsed only once
+const colorCache: Map<string, string> = new Map();
+
+// Returns a 'r;g;b' string or an empty string for the default color
+function toTrueColor(css?: string) {
+  if (!css) return "";
+  let out = colorCache.get(css);
+  if (out === undefined) {
+    const rgb = css2rgb(css);
+    out =
+      rgb && rgb.a !== 0
+        ? Math.round(rgb.r) + ";" + Math.round(rgb.g) + ";" + Math.round(rgb.b)
+        : "";
+    colorCache.set(css, out);
+  }
+  return out;
+}
+
+function isBold(weight?: string) {
+  if (!weight) return false;
+  if (weight == "bold" || weight == "bolder") return true;
+  return parseInt(weight) >= 600;
+}
+
+function getStream(context: Context): Stream {
+  const stream = context.settings.stream;
+  if (!stream || typeof stream.write != "function") {
+    throw new Error(
+      "ansirenderer: a settings.stream with a write() function is required."
+    );
+  }
+  return stream;
+}
@@ -2,17 +2,54 @@
 @module   canvasrenderer
 @desc     renders to canvas
 @category renderer
+
+Only the rows which changed since the previous frame are repainted
+(see dirty): the canvas is cleared only when resized.
+Each row is clipped to its line height, so the glyphs overhanging a row
+never have to be cleared from the rows around it.
+With settings.glyphAtlas = true each glyph is rasterized only once
+and copied to the canvas (see glyphatlas): much faster for programs
+which update a lot of cells (block mode only, not with textAlign 'center').
+In block mode wide chars (see string) are drawn over two cells:
+the background of the continuation cell is painted with the wide char.
 */
 
-import type { Buffer, Context } from "../modules/types";
+import CellBuffer, {
+  INVERSE,
+  ITALIC,
+  LINE_THROUGH,
+  UNDERLINE,
+  asArray,
+  packColor,
+  unpackColor,
+  unpackDecoration,
+} from "../modules/cellbuffer";
+import DirtyRegion from "../modules/dirty";
+import { CONTINUATION } from "../modules/string";
+import type { AnyBuffer, Cell, Context } from "../modules/types";
+import GlyphAtlas from "./glyphatlas";
 import type { Render } from "./types";
 
-export default {
-  preferredElementNodeName: "CANVAS",
-  render,
-} as Render;
+// State of a renderer instance
+type CanvasState = {
+  // Rows changed since the previous frame, for each target canvas
+  regions: WeakMap<HTMLCanvasElement, DirtyRegion>;
+  // Created on first use
+  atlas: GlyphAtlas | null;
+};
+
+// Returns a new renderer with its own state (see textrenderer)
+export function createCanvasRenderer(): Render {
+  const state: CanvasState = { regions: new WeakMap(), atlas: null };
+  return {
+    preferredElementNodeName: "CANVAS",
+    render: (context, buffer) => render(context, buffer, state),
+  };
+}
+
+export default createCanvasRenderer;
 
-function render(context: Context, buffer: Buffer) {
+function render(context: Context, buffer: AnyBuffer, state: CanvasState) {
   const canvas = context.settings.element as HTMLCanvasElement;
 
   const scale = devicePixelRatio;
@@ -27,24 +64,45 @@ function render(context: Context, buffer: Buffer) {
   // Shortcut
   const settings = context.settings;
 
+  let region = state.regions.get(canvas);
+  if (!region) {
+    region = new DirtyRegion();
+    state.regions.set(canvas, region);
+  }
+
   // Fixed size, to allow precise export
+  let width, height;
   if (settings.canvasSize) {
-    canvas.width = settings.canvasSize.width * scale;
-    canvas.height = settings.canvasSize.height * scale;
+    width = settings.canvasSize.width * scale;
+    height = settings.canvasSize.height * scale;
     canvas.style.width = settings.canvasSize.width + "px";
     canvas.style.height = settings.canvasSize.height + "px";
   }
   // Stretch the canvas to the container width
   else {
-    canvas.width = context.width * scale;
-    canvas.height = context.height * scale;
+    width = context.width * scale;
+    height = context.height * scale;
+  }
+
+  // Resizing clears the canvas: everything needs to be repainted
+  if (
+    canvas.width != Math.floor(width) ||
+    canvas.height != Math.floor(height)
+  ) {
+    canvas.width = width;
+    canvas.height = height;
+    region.reset();
   }
 
+  const dirtyRows = region.update(buffer, c, r);
+  if (dirtyRows.length == 0) return;
+
   const ff = " " + m.fontSize + "px " + m.fontFamily;
   const bg =
     settings && settings.backgroundColor ? settings.backgroundColor : "white";
   const fg = settings && settings.color ? settings.color : "black";
-  const fontWeight = settings && settings.fontWeight ? settings.color : "400";
+  const fontWeight =
+    settings && settings.fontWeight ? settings.fontWeight : "400";
 
   // Set the backgroundColor of the box-element
   // canvas.style.backgroundColor = settings.backgroundColor || 'white'
@@ -55,8 +113,10 @@ function render(context: Context, buffer: Buffer) {
   const ctx = canvas.getContext("2d");
   //ctx.clearRect(0, 0, canvas.width, canvas.height)
   if (!ctx) throw new Error("Canvas not supported");
-  ctx.fillStyle = bg;
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (region.full) {
+    ctx.fillStyle = bg;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
 
   ctx.save();
   ctx.scale(scale, scale);
@@ -64,69 +124,284 @@ function render(context: Context, buffer: Buffer) {
   ctx.textBaseline = "top";
 
   // Custom settings: it’s possible to center the canvas
+  let ox = 0;
+  let oy = 0;
   if (settings.canvasOffset) {
     const offs = settings.canvasOffset;
-    const ox = Math.round(
+    ox = Math.round(
       offs.x == "auto" ? (canvas.width / scale - c * cw) / 2 : offs.x
     );
-    const oy = Math.round(
+    oy = Math.round(
       offs.y == "auto" ? (canvas.height / scale - r * ch) / 2 : offs.y
     );
     ctx.translate(ox, oy);
   }
 
+  // Clear the dirty rows (on the whole width of the canvas)
+  const rowWidth = canvas.width / scale;
+  if (!region.full) {
+    ctx.fillStyle = bg;
+    for (const j of dirtyRows) {
+      ctx.fillRect(-ox, j * ch, rowWidth, ch);
+    }
+  }
+
   // Center patch with cell bg color...
   // a bit painful and needs some opt.
   if (settings.textAlign == "center") {
-    for (let j = 0; j < r; j++) {
+    const cells = asArray(buffer);
+    for (const j of dirtyRows) {
+      clipRow(ctx, -ox, j * ch, rowWidth, ch);
       const offs = j * c;
       const widths = [];
-      const offsets = [];
-      const colors = [];
       let totalWidth = 0;
 
       // Find width
       for (let i = 0; i < c; i++) {
-        const cell = buffer[offs + i]!;
-        ctx.font = (cell.fontWeight || fontWeight) + ff;
+        const cell = cells[offs + i]!;
+        ctx.font = cellFont(cell, fontWeight, ff);
         const w = ctx.measureText(cell.char).width;
         totalWidth += w;
         widths[i] = w;
       }
       // Draw
-      let ox = (canvas.width / scale - totalWidth) * 0.5;
+      let x = (canvas.width / scale - totalWidth) * 0.5;
       const y = j * ch;
       for (let i = 0; i < c; i++) {
-        const cell = buffer[offs + i]!;
-        const x = ox;
-        if (cell.backgroundColor && cell.backgroundColor != bg) {
-          ctx.fillStyle = cell.backgroundColor || bg;
+        const cell = cells[offs + i]!;
+        const [color, background] = cellColors(cell, fg, bg);
+        ctx.globalAlpha = cell.opacity ?? 1;
+        if (background && background != bg) {
+          ctx.fillStyle = background;
           ctx.fillRect(Math.round(x), y, Math.ceil(widths[i]!), ch);
         }
-        ctx.font = (cell.fontWeight || fontWeight) + ff;
-        ctx.fillStyle = cell.color || fg;
-        ctx.fillText(cell.char, ox, y);
+        ctx.font = cellFont(cell, fontWeight, ff);
+        ctx.fillStyle = color;
+        ctx.fillText(cell.char, x, y);
+        decorate(ctx, cell.textDecoration, x, y, widths[i]!, m.fontSize);
+
+        x += widths[i]!;
+      }
+      ctx.restore();
+    }
+
+    // Block mode, glyph atlas, typed buffer:
+    // the typed arrays are read without building the cell objects
+  } else if (settings.glyphAtlas && buffer instanceof CellBuffer) {
+    const atlas = (state.atlas = state.atlas || new GlyphAtlas());
+    atlas.setup(ff, cw, ch, scale);
+    for (const j of dirtyRows) {
+      clipRow(ctx, -ox, j * ch, rowWidth, ch);
+      for (let i = 0; i < c; i++) {
+        const idx = j * c + i;
+        // Continuation cell (empty char): drawn with the wide char
+        if (buffer.chars[idx] == 0) continue;
+        const x = i * cw;
+        const y = j * ch;
+        const boxWidth = cw * cellSpan(buffer, idx, i, c);
+        const flags = buffer.flags[idx]!;
+        let color = buffer.getColor(idx) || fg;
+        let background = buffer.getBackground(idx);
+        if (flags & INVERSE) {
+          background = color;
+          color = buffer.getBackground(idx) || bg;
+        }
+        ctx.globalAlpha = 1 - buffer.transparency[idx]! / 255;
+        if (background && background != bg) {
+          ctx.fillStyle = background;
+          ctx.fillRect(Math.round(x), y, Math.ceil(boxWidth), ch);
+        }
+        if (flags & (UNDERLINE | LINE_THROUGH)) {
+          ctx.fillStyle = color;
+          const decoration = unpackDecoration(flags);
+          decorate(ctx, decoration, x, y, boxWidth, m.fontSize);
+        }
+        // Spaces are not drawn
+        if (buffer.chars[idx] == 32) continue;
+        const variant =
+          (flags & ITALIC ? "italic " : "") +
+          (buffer.getWeight(idx) || fontWeight);
+        atlas.draw(ctx, buffer.getChar(idx), variant, color, x, y);
+      }
+      ctx.restore();
+    }
+
+    // Block mode, glyph atlas:
+    // each glyph is rasterized once and copied with drawImage()
+  } else if (settings.glyphAtlas) {
+    const atlas = (state.atlas = state.atlas || new GlyphAtlas());
+    atlas.setup(ff, cw, ch, scale);
+    const cells = asArray(buffer);
+    for (const j of dirtyRows) {
+      clipRow(ctx, -ox, j * ch, rowWidth, ch);
+      for (let i = 0; i < c; i++) {
+        const idx = j * c + i;
+        const cell = cells[idx]!;
+        const char = String(cell.char);
+        // Drawn with the wide char
+        if (char === CONTINUATION) continue;
+        const x = i * cw;
+        const y = j * ch;
+        const boxWidth = cw * cellSpan(buffer, idx, i, c);
+        const [color, background] = cellColors(cell, fg, bg);
+        ctx.globalAlpha = cell.opacity ?? 1;
+        if (background && background != bg) {
+          ctx.fillStyle = background;
+          ctx.fillRect(Math.round(x), y, Math.ceil(boxWidth), ch);
+        }
+        if (cell.textDecoration) {
+          ctx.fillStyle = color;
+          decorate(ctx, cell.textDecoration, x, y, boxWidth, m.fontSize);
+        }
+        // Spaces are not drawn
+        if (char == " ") continue;
+        const variant = cellFont(cell, fontWeight, "");
+        atlas.draw(ctx, char, variant, color, x, y);
+      }
+      ctx.restore();
+    }
 
-        ox += widths[i]!;
+    // Block mode, typed buffer:
+    // colors and fonts are set only when they change
+  } else if (buffer instanceof CellBuffer) {
+    const fgPacked = packColor(fg);
+    const bgPacked = packColor(bg);
+    let style = "";
+    let font = -1;
+    let alpha = 1;
+    for (const j of dirtyRows) {
+      clipRow(ctx, -ox, j * ch, rowWidth, ch);
+      for (let i = 0; i < c; i++) {
+        const idx = j * c + i;
+        // Continuation cell (empty char): drawn with the wide char
+        if (buffer.chars[idx] == 0) continue;
+        const x = i * cw;
+        const y = j * ch;
+        const boxWidth = cw * cellSpan(buffer, idx, i, c);
+        const flags = buffer.flags[idx]!;
+        let f = buffer.fg[idx]!;
+        let b = buffer.bg[idx]!;
+        if (flags & INVERSE) {
+          b = f || fgPacked;
+          f = buffer.bg[idx]! || bgPacked;
+        }
+        const a = 1 - buffer.transparency[idx]! / 255;
+        if (a != alpha) ctx.globalAlpha = alpha = a;
+        if (b && b != bgPacked) {
+          ctx.fillStyle = style = unpackColor(b)!;
+          ctx.fillRect(Math.round(x), y, Math.ceil(boxWidth), ch);
+        }
+        const color = unpackColor(f) || fg;
+        if (color != style) ctx.fillStyle = style = color;
+        if (flags & (UNDERLINE | LINE_THROUGH)) {
+          const decoration = unpackDecoration(flags);
+          decorate(ctx, decoration, x, y, boxWidth, m.fontSize);
+        }
+        // Spaces are not drawn
+        if (buffer.chars[idx] == 32) continue;
+        // Weight and italic bit
+        const w = buffer.weight[idx]! | ((flags & ITALIC) << 16);
+        if (w != font) {
+          font = w;
+          ctx.font =
+            (flags & ITALIC ? "italic " : "") +
+            (buffer.getWeight(idx) || fontWeight) +
+            ff;
+        }
+        ctx.fillText(buffer.getChar(idx), x, y);
       }
+      // The clip is removed with the styles
+      ctx.restore();
+      style = "";
+      font = -1;
+      alpha = 1;
     }
 
     // (Default) block mode
   } else {
-    for (let j = 0; j < r; j++) {
+    for (const j of dirtyRows) {
+      clipRow(ctx, -ox, j * ch, rowWidth, ch);
       for (let i = 0; i < c; i++) {
-        const cell = buffer[j * c + i]!;
+        const idx = j * c + i;
+        const cell = buffer[idx]!;
+        // Drawn with the wide char
+        if (cell.char === CONTINUATION) continue;
         const x = i * cw;
         const y = j * ch;
-        if (cell.backgroundColor && cell.backgroundColor != bg) {
-          ctx.fillStyle = cell.backgroundColor || bg;
-          ctx.fillRect(Math.round(x), y, Math.ceil(cw), ch);
+        const boxWidth = cw * cellSpan(buffer, idx, i, c);
+        const [color, background] = cellColors(cell, fg, bg);
+        ctx.globalAlpha = cell.opacity ?? 1;
+        if (background && background != bg) {
+          ctx.fillStyle = background;
+          ctx.fillRect(Math.round(x), y, Math.ceil(boxWidth), ch);
         }
-        ctx.font = (cell.fontWeight || fontWeight) + ff;
-        ctx.fillStyle = cell.color || fg;
+        ctx.font = cellFont(cell, fontWeight, ff);
+        ctx.fillStyle = color;
         ctx.fillText(cell.char, x, y);
+        decorate(ctx, cell.textDecoration, x, y, boxWidth, m.fontSize);
       }
+      ctx.restore();
     }
   }
   ctx.restore();
 }
+
+// Clips the drawing to a row (until ctx.restore()): glyphs overhanging
+// the row (italics, descenders, wide emoji) would not be cleared,
+// the rows around are repainted only when they change
+function clipRow(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+}
+
+// Number of cells covered by the cell at idx (column i):
+// 2 for a wide char followed by its continuation cell
+function cellSpan(buffer: AnyBuffer, idx: number, i: number, cols: number) {
+  if (i + 1 >= cols) return 1;
+  if (buffer instanceof CellBuffer) return buffer.chars[idx + 1] == 0 ? 2 : 1;
+  return buffer[idx + 1]!.char === CONTINUATION ? 2 : 1;
+}
+
+// Text color and background color of a cell (swapped if inverse)
+function cellColors(
+  cell: Cell,
+  fg: string,
+  bg: string
+): [string, string | undefined] {
+  if (cell.inverse) return [cell.backgroundColor || bg, cell.color || fg];
+  return [cell.color || fg, cell.backgroundColor];
+}
+
+// CSS font of a cell: style, weight and the size and family (ff)
+function cellFont(cell: Cell, fontWeight: string, ff: string) {
+  const italic = cell.fontStyle == "italic" || cell.fontStyle == "oblique";
+  return (italic ? "italic " : "") + (cell.fontWeight || fontWeight) + ff;
+}
+
+// Underline and line-through are drawn as lines with the current fill,
+// relative to the font size (the text baseline is 'top')
+function decorate(
+  ctx: CanvasRenderingContext2D,
+  decoration: string | undefined,
+  x: number,
+  y: number,
+  width: number,
+  fontSize: number
+) {
+  if (!decoration) return;
+  const thickness = Math.max(1, Math.round(fontSize / 14));
+  if (decoration.includes("underline")) {
+    ctx.fillRect(x, Math.round(y + fontSize * 0.9), width, thickness);
+  }
+  if (decoration.includes("line-through")) {
+    ctx.fillRect(x, Math.round(y + fontSize * 0.55), width, thickness);
+  }
+}
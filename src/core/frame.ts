@@ -0,0 +1,286 @@
+/**
+@module   frame
+@desc     Frame helpers shared by the runners
+@category core
+
+Builds the context object and runs the pre(), main() and post()
+functions of a program on a buffer.
+Used by the DOM runner, the headless and the terminal runner.
+*/
+
+import type FPS from "./fps";
+import { EMPTY_KEYBOARD } from "./keyboard";
+import { hash, seeded } from "../modules/random";
+import CellBuffer from "../modules/cellbuffer";
+import {
+  isExact,
+  isSameCell,
+  markDirty,
+  setSize,
+  track,
+} from "../modules/dirty";
+import { resize as resizeLayers } from "../modules/layers";
+import Viewport from "../modules/viewport";
+import type {
+  AnyBuffer,
+  Buffer,
+  Cell,
+  Context,
+  Coord,
+  InputEvent,
+  Keyboard,
+  Metrics,
+  Program,
+  Settings,
+  State,
+} from "../modules/types";
+
+// A cell with no value at all is just a space
+export const EMPTY_CELL = " ";
+
+// Default metrics used when there is no element to measure
+// (headless and terminal runners).
+export const DEFAULT_METRICS: Metrics = {
+  aspect: 0.5,
+  cellWidth: 9.6,
+  lineHeight: 19.2,
+  fontFamily: "monospace",
+  fontSize: 16,
+  _update: function () {},
+};
+
+// Default cell style inserted in case of undefined / null
+export function getDefaultCellStyle(settings: Settings) {
+  return Object.freeze({
+    color: settings.color,
+    backgroundColor: settings.backgroundColor,
+    fontWeight: settings.fontWeight,
+  });
+}
+
+// Creates the buffer requested by the settings,
+// registered for dirty tracking
+export function createBuffer(settings: Settings): AnyBuffer {
+  const buffer = settings.typedBuffer ? new CellBuffer() : [];
+  track(buffer, settings.dirtyTracking);
+  return buffer;
+}
+
+// Creates the viewport requested by the settings, if any
+export function createViewport(settings: Settings) {
+  return settings.viewport ? new Viewport(settings.viewport) : undefined;
+}
+
+// Resizes the buffer and fills it with empty cells
+export function resetBuffer(
+  buffer: AnyBuffer,
+  cols: number,
+  rows: number,
+  style: Partial<Cell>
+) {
+  setSize(buffer, cols, rows);
+  resizeLayers(buffer, cols, rows);
+  if (buffer instanceof CellBuffer) {
+    buffer.resize(cols, rows, style);
+    return;
+  }
+  buffer.length = cols * rows;
+  for (let i = 0; i < buffer.length; i++) {
+    buffer[i] = { ...style, char: EMPTY_CELL };
+  }
+}
+
+// Origin of the 'fixed' time mode: time and frame at the start
+// or at the last change of fps
+export type FixedTimeOrigin = {
+  time: number;
+  frame: number;
+  interval: number;
+};
+
+// Takes the current time and frame as origin of the fixed time
+export function fixedTimeOrigin(state: State): FixedTimeOrigin {
+  return { time: state.time, frame: state.frame, interval: 1000 / state.fps };
+}
+
+// Reproducible timing ('fixed' time mode): the time depends only on the
+// frame count, one interval per frame since the origin. With a new origin
+// at each change of fps the time carries on at the new rate.
+export function getFixedTime(state: State, origin: FixedTimeOrigin) {
+  return origin.time + (state.frame - origin.frame) * origin.interval;
+}
+
+// Calls pre(), main() and post() of a program, in this order.
+// The buffer is updated in place with the output of main().
+export function processFrame(
+  program: Program,
+  context: Context,
+  cursor: any,
+  buffer: AnyBuffer,
+  userData: any
+) {
+  // Call pre(), if defined
+  if (typeof program.pre == "function") {
+    program.pre(context, cursor, buffer, userData);
+  }
+
+  // Call main(), if defined
+  if (typeof program.main == "function") {
+    if (buffer instanceof CellBuffer) {
+      mainTyped(program, context, cursor, buffer, userData);
+    } else {
+      mainArray(program, context, cursor, buffer, userData);
+    }
+  }
+
+  // Call post(), if defined
+  if (typeof program.post == "function") {
+    program.post(context, cursor, buffer, userData);
+  }
+}
+
+// Calls main() for each cell of the buffer.
+// The buffer is updated in place with the output of main();
+// with exact dirty tracking the changed cells are marked.
+function mainArray(
+  program: Program,
+  context: Context,
+  cursor: any,
+  buffer: Buffer,
+  userData: any
+) {
+  const main = program.main!;
+  const exact = isExact(buffer);
+  for (let j = 0; j < context.rows; j++) {
+    const offs = j * context.cols;
+    for (let i = 0; i < context.cols; i++) {
+      const idx = i + offs;
+      // Override content:
+      // buffer[idx] = program.main({x:i, y:j, index:idx}, context, cursor, buffer, userData)
+      const pos = coord(context, i, j, idx);
+      const out = main(pos, context, cursor, buffer, userData);
+      const prev = buffer[idx]!;
+      if (typeof out == "object" && out !== null) {
+        buffer[idx] = { ...prev, ...out };
+      } else {
+        buffer[idx] = { ...prev, char: out };
+      }
+      // Fix undefined / null / etc.
+      if (buffer[idx]!.char === undefined || buffer[idx]!.char === null) {
+        buffer[idx]!.char = EMPTY_CELL;
+      }
+      if (exact && !isSameCell(prev, buffer[idx]!)) markDirty(buffer, idx);
+    }
+  }
+}
+
+// Same as mainArray(), for typed buffers:
+// the output is written in place, no cell objects are created.
+function mainTyped(
+  program: Program,
+  context: Context,
+  cursor: any,
+  buffer: CellBuffer,
+  userData: any
+) {
+  const main = program.main!;
+  const exact = isExact(buffer);
+  const { chars, fg, bg, weight } = buffer;
+  for (let j = 0; j < context.rows; j++) {
+    const offs = j * context.cols;
+    for (let i = 0; i < context.cols; i++) {
+      const idx = i + offs;
+      const pos = coord(context, i, j, idx);
+      const out = main(pos, context, cursor, buffer, userData);
+      const c = chars[idx];
+      const f = fg[idx];
+      const b = bg[idx];
+      const w = weight[idx];
+      if (typeof out == "object" && out !== null) {
+        buffer.merge(idx, out);
+      } else {
+        buffer.setChar(idx, out);
+      }
+      // Chars made of several code points are always marked
+      if (
+        exact &&
+        (c !== chars[idx] ||
+          f !== fg[idx] ||
+          b !== bg[idx] ||
+          w !== weight[idx] ||
+          buffer.multi.has(idx))
+      ) {
+        markDirty(buffer, idx);
+      }
+    }
+  }
+}
+
+// The coord passed to main(), with the world cell
+// if there is a viewport
+function coord(context: Context, x: number, y: number, index: number) {
+  const out: Coord = { x, y, index };
+  if (context.viewport) out.world = context.viewport.cellAt(x, y);
+  return out;
+}
+
+// Calls the program hooks for the queued events (and empties the queue).
+// Key events pass the key as last argument.
+export function dispatchEvents(
+  program: Program,
+  events: InputEvent[],
+  context: Context,
+  cursor: any,
+  buffer: AnyBuffer
+) {
+  while (events.length > 0) {
+    const event = events.shift()!;
+    if (event.type == "keyDown" || event.type == "keyUp") {
+      const hook = program[event.type];
+      if (typeof hook == "function") hook(context, cursor, buffer, event.key!);
+    } else {
+      const hook = program[event.type];
+      if (typeof hook == "function") hook(context, cursor, buffer);
+    }
+  }
+}
+
+// Builds the context for a given output size (in pixels).
+// Cols and rows are derived from the size, unless fixed by the settings.
+// context.random() is seeded with settings.seed and the frame number:
+// the numbers drawn in a frame are the same at each run.
+export function buildContext(
+  state: State,
+  settings: Settings,
+  metrics: Metrics,
+  fps: FPS,
+  width: number,
+  height: number,
+  keyboard: Keyboard = EMPTY_KEYBOARD,
+  viewport?: Viewport
+): Context {
+  const cols = settings.cols || Math.floor(width / metrics.cellWidth);
+  const rows = settings.rows || Math.floor(height / metrics.lineHeight);
+  // The viewport follows the size of the screen
+  if (viewport) viewport.resize(cols, rows, metrics.aspect);
+  return Object.freeze({
+    frame: state.frame,
+    time: state.time,
+    cols,
+    rows,
+    metrics,
+    width,
+    height,
+    settings,
+    random: seeded(hash(settings.seed || 0, state.frame)),
+    keyboard,
+    viewport,
+    // Runtime & debug data
+    runtime: Object.freeze({
+      cycle: state.cycle,
+      fps: fps.fps,
+      // Rows repainted in the previous frame
+      updatedRowNum: state.updatedRowNum || 0,
+    }),
+  }) as Context;
+}
@@ -0,0 +1,182 @@
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { runHeadless } from "../run";
+import CellBuffer from "../modules/cellbuffer";
+import { createCanvasRenderer } from "./canvasrenderer";
+import GlyphAtlas from "./glyphatlas";
+
+// Records the drawing calls: [name, ...args]
+class FakeContext {
+  calls: any[][] = [];
+  font = "";
+  fillStyle = "";
+  globalAlpha = 1;
+  globalCompositeOperation = "";
+  textBaseline = "";
+
+  // Chars are 10 pixels wide
+  measureText(text: string) {
+    return { width: [...text].length * 10 };
+  }
+  fillText(text: string, x: number, y: number) {
+    this.calls.push(["fillText", text, this.font, this.fillStyle]);
+  }
+  fillRect(x: number, y: number, w: number, h: number) {
+    const op = this.globalCompositeOperation;
+    this.calls.push(["fillRect", this.fillStyle, op, x, y, w, h]);
+  }
+  drawImage(image: FakeCanvas, ...args: number[]) {
+    this.calls.push(["drawImage", image, ...args]);
+  }
+  named(name: string) {
+    return this.calls.filter((call) => call[0] == name);
+  }
+  save() {}
+  restore() {}
+  beginPath() {}
+  rect() {}
+  clip() {}
+  clearRect() {}
+  scale() {}
+  translate() {}
+  setTransform() {}
+}
+
+class FakeCanvas {
+  width = 0;
+  height = 0;
+  style = {};
+  ctx = new FakeContext();
+  getContext() {
+    return this.ctx;
+  }
+}
+
+const DOM = {
+  document: { createElement: () => new FakeCanvas() },
+  devicePixelRatio: 1,
+};
+
+beforeAll(() => {
+  Object.assign(globalThis, DOM);
+});
+
+afterAll(() => {
+  for (const name in DOM) delete (globalThis as any)[name];
+});
+
+const ctx = (canvas: HTMLCanvasElement) =>
+  (canvas as unknown as FakeCanvas).ctx;
+
+// The target of draw()
+const target = () => new FakeContext() as unknown as CanvasRenderingContext2D;
+
+describe("GlyphAtlas", () => {
+  test("rasterizes each glyph once", () => {
+    const atlas = new GlyphAtlas();
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    const out = target();
+    atlas.draw(out, "a", "400", "red", 0, 0);
+    atlas.draw(out, "a", "400", "red", 10, 0);
+    atlas.draw(out, "a", "700", "red", 20, 0);
+    const masks = ctx(atlas.masks.canvas).named("fillText");
+    expect(masks).toEqual([
+      ["fillText", "a", "400 16px monospace", "white"],
+      ["fillText", "a", "700 16px monospace", "white"],
+    ]);
+    const copies = (out as unknown as FakeContext).named("drawImage");
+    expect(copies.map((call) => call.slice(6))).toEqual([
+      [0, 0, 10, 20],
+      [10, 0, 10, 20],
+      [20, 0, 10, 20],
+    ]);
+  });
+
+  test("tints each glyph once per color", () => {
+    const atlas = new GlyphAtlas();
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    const out = target();
+    for (const color of ["red", "blue", "red"]) {
+      atlas.draw(out, "a", "400", color, 0, 0);
+    }
+    const tints = ctx(atlas.tints.canvas).named("fillRect");
+    expect(tints.map((call) => call.slice(1, 3))).toEqual([
+      ["red", "source-in"],
+      ["blue", "source-in"],
+    ]);
+  });
+
+  test("is cleared when the font or the cells change", () => {
+    const atlas = new GlyphAtlas();
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    atlas.draw(target(), "a", "400", "red", 0, 0);
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    expect(atlas.masks.glyphs.size).toBe(1);
+    atlas.setup(" 16px monospace", 10, 20, 2);
+    expect(atlas.masks.glyphs.size).toBe(0);
+    expect(atlas.tints.glyphs.size).toBe(0);
+  });
+
+  test("draws the glyphs which don’t fit with fillText()", () => {
+    const atlas = new GlyphAtlas();
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    const out = target();
+    atlas.draw(out, "a", "400", "red", 0, 0);
+    // Wider than the mask atlas
+    atlas.draw(out, "x".repeat(200), "400", "blue", 0, 0);
+    expect((out as unknown as FakeContext).named("fillText")).toEqual([
+      ["fillText", "x".repeat(200), "400 16px monospace", "blue"],
+    ]);
+    expect(atlas.masks.full).toBe(true);
+    // Cleared at the next frame
+    atlas.setup(" 16px monospace", 10, 20, 1);
+    expect(atlas.masks.full).toBe(false);
+    expect(atlas.masks.glyphs.size).toBe(0);
+  });
+});
+
+describe("canvasrenderer with glyphAtlas", () => {
+  test("reads the typed buffers without building the cells", () => {
+    const get = spyOn(CellBuffer.prototype, "get");
+    const canvas = new FakeCanvas();
+    const renderer = createCanvasRenderer();
+    // The runner copies the frames with get(): counted during render only
+    let calls = -1;
+    runHeadless(
+      {
+        main: (coord) =>
+          [
+            "a",
+            { char: "b", color: "blue", backgroundColor: "red" },
+            { char: " ", inverse: true },
+          ][coord.x],
+        post: (context, cursor, buffer) => {
+          const element = canvas as unknown as HTMLCanvasElement;
+          const settings = { ...context.settings, element };
+          get.mockClear();
+          renderer.render({ ...context, settings }, buffer);
+          calls = get.mock.calls.length;
+        },
+      },
+      {
+        cols: 3,
+        rows: 1,
+        metrics: { cellWidth: 10, lineHeight: 20 },
+        settings: { typedBuffer: true, glyphAtlas: true },
+      }
+    );
+    get.mockRestore();
+    expect(calls).toBe(0);
+    // The background of the canvas, then the cells
+    const fills = canvas.ctx.named("fillRect").map((call) => call[1]);
+    expect(fills).toEqual(["white", "red", "black"]);
+    expect(canvas.ctx.named("drawImage").length).toBe(2);
+    expect(canvas.ctx.named("fillText").length).toBe(0);
+  });
+});
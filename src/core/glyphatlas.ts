@@ -0,0 +1,250 @@
+/**
+@module   glyphatlas
+@desc     Cache of rasterized glyphs for the canvas renderer
+@category core
+
+Each glyph (a char with a font weight) is drawn only once, in white,
+into an offscreen canvas, the mask atlas, and then copied to the target
+canvas with drawImage(): much faster than setting the font and calling
+fillText() for each cell.
+The masks are tinted with the color of the cell (a ‘source-in’ fill):
+the tinted copies are kept in a second atlas, so that a glyph in a
+given color is tinted only once as well. Programs which use a lot of
+different colors fill that atlas: the remaining glyphs of the frame are
+tinted on a scratch canvas, the atlas is cleared before the next frame.
+Glyphs are packed in rows (‘shelves’) of the height of a cell.
+The atlases are never cleared during a frame: they are cleared when the
+font, the size of the cells or the pixel ratio change, or at the start
+of the frame which follows the one which filled them (if the mask atlas
+is full, the remaining glyphs are drawn with fillText()).
+Used by the canvas renderer with settings.glyphAtlas = true.
+*/
+
+// Size of the atlases, in pixels
+const MASK_SIZE = 1024;
+const TINT_SIZE = 2048;
+
+// Space between glyphs, avoids bleeding when scaled
+const PADDING = 1;
+
+type Glyph = {
+  x: number;
+  y: number;
+  w: number;
+};
+
+export default class GlyphAtlas {
+  // White glyphs, by char and weight
+  masks: Shelves;
+  // Tinted glyphs, by char, weight and color
+  tints: Shelves;
+  // Tinting of the glyphs which don’t fit in the tint atlas
+  scratch: HTMLCanvasElement;
+  scratchCtx: CanvasRenderingContext2D;
+  // Font (size and family), cell size and pixel ratio of the glyphs
+  font: string;
+  cellWidth: number;
+  cellHeight: number;
+  scale: number;
+
+  constructor() {
+    this.masks = new Shelves(MASK_SIZE);
+    this.tints = new Shelves(TINT_SIZE);
+    this.scratch = document.createElement("canvas");
+    this.scratchCtx = context2D(this.scratch);
+    this.font = "";
+    this.cellWidth = 0;
+    this.cellHeight = 0;
+    this.scale = 1;
+  }
+
+  // Height of a shelf, in pixels
+  get height() {
+    return Math.ceil(this.cellHeight * this.scale);
+  }
+
+  // Called at the start of each frame.
+  // Clears the atlases if the font or the size of the cells changed,
+  // or if they have been filled by the previous frame.
+  // The font is a CSS font without weight (" 16px monospace").
+  setup(font: string, cellWidth: number, cellHeight: number, scale: number) {
+    if (
+      font != this.font ||
+      cellWidth != this.cellWidth ||
+      cellHeight != this.cellHeight ||
+      scale != this.scale
+    ) {
+      this.font = font;
+      this.cellWidth = cellWidth;
+      this.cellHeight = cellHeight;
+      this.scale = scale;
+      this.clear();
+      return;
+    }
+    if (this.masks.full) this.masks.clear();
+    if (this.tints.full) this.tints.clear();
+  }
+
+  clear() {
+    this.masks.clear();
+    this.tints.clear();
+  }
+
+  // Draws a glyph into the target context at x, y (in CSS pixels)
+  draw(
+    target: CanvasRenderingContext2D,
+    char: string,
+    weight: string,
+    color: string,
+    x: number,
+    y: number
+  ) {
+    const key = char + "\n" + weight;
+    const mask = this.masks.glyphs.get(key) || this.addMask(key, char, weight);
+    // Mask atlas full: drawn as without atlas
+    if (!mask) {
+      target.font = weight + this.font;
+      target.fillStyle = color;
+      target.fillText(char, x, y);
+      return;
+    }
+    const h = this.height;
+    const tinted = this.tint(key + "\n" + color, mask, color);
+    // Snap to device pixels: the glyphs stay sharp
+    const s = this.scale;
+    target.drawImage(
+      tinted.canvas,
+      tinted.x,
+      tinted.y,
+      mask.w,
+      h,
+      Math.round(x * s) / s,
+      Math.round(y * s) / s,
+      mask.w / s,
+      h / s
+    );
+  }
+
+  // Rasterizes a white glyph in the next free slot of the mask atlas
+  private addMask(key: string, char: string, weight: string) {
+    const ctx = this.masks.ctx;
+    const s = this.scale;
+    const h = this.height;
+    ctx.font = weight + this.font;
+    // Wide glyphs overflow the cell, as with fillText()
+    const width = Math.max(ctx.measureText(char).width, this.cellWidth);
+    const w = Math.ceil(width * s);
+    const glyph = this.masks.add(key, w, h);
+    if (!glyph) return undefined;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(glyph.x, glyph.y, w, h);
+    ctx.clip();
+    ctx.setTransform(s, 0, 0, s, glyph.x, glyph.y);
+    ctx.textBaseline = "top";
+    ctx.fillStyle = "white";
+    ctx.fillText(char, 0, 0);
+    ctx.restore();
+    return glyph;
+  }
+
+  // Returns a copy of a mask in a color: from the tint atlas
+  // or, if it’s full, from the scratch canvas
+  private tint(key: string, mask: Glyph, color: string) {
+    const h = this.height;
+    const cached = this.tints.glyphs.get(key);
+    if (cached) return { canvas: this.tints.canvas, x: cached.x, y: cached.y };
+
+    const glyph = this.tints.add(key, mask.w, h);
+    if (glyph) {
+      fill(this.tints.ctx, this.masks.canvas, mask, glyph.x, glyph.y, h, color);
+      return { canvas: this.tints.canvas, x: glyph.x, y: glyph.y };
+    }
+
+    const scratch = this.scratch;
+    if (scratch.width < mask.w || scratch.height < h) {
+      scratch.width = Math.max(scratch.width, mask.w);
+      scratch.height = Math.max(scratch.height, h);
+    }
+    fill(this.scratchCtx, this.masks.canvas, mask, 0, 0, h, color);
+    return { canvas: scratch, x: 0, y: 0 };
+  }
+}
+
+// An offscreen canvas filled with glyphs of the same height, row by row
+class Shelves {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  glyphs: Map<string, Glyph>;
+  // Set when a glyph didn’t fit (see GlyphAtlas.setup)
+  full: boolean;
+  // Position of the next glyph
+  private x: number;
+  private y: number;
+
+  constructor(size: number) {
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = size;
+    this.canvas.height = size;
+    this.ctx = context2D(this.canvas);
+    this.glyphs = new Map();
+    this.full = false;
+    this.x = 0;
+    this.y = 0;
+  }
+
+  // Reserves a slot, returns undefined if the canvas is full
+  add(key: string, w: number, h: number): Glyph | undefined {
+    const size = this.canvas.width;
+    if (this.x + w > size) {
+      this.x = 0;
+      this.y += h + PADDING;
+    }
+    if (this.y + h > size || w > size) {
+      this.full = true;
+      return undefined;
+    }
+    const glyph = { x: this.x, y: this.y, w };
+    this.glyphs.set(key, glyph);
+    this.x += w + PADDING;
+    return glyph;
+  }
+
+  clear() {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.glyphs.clear();
+    this.full = false;
+    this.x = 0;
+    this.y = 0;
+  }
+}
+
+function context2D(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  return ctx;
+}
+
+// Copies a mask to x, y and fills it with a color: the clip keeps
+// the ‘source-in’ composition inside of the slot
+function fill(
+  ctx: CanvasRenderingContext2D,
+  masks: HTMLCanvasElement,
+  mask: Glyph,
+  x: number,
+  y: number,
+  h: number,
+  color: string
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, mask.w, h);
+  ctx.clip();
+  ctx.clearRect(x, y, mask.w, h);
+  ctx.drawImage(masks, mask.x, mask.y, mask.w, h, x, y, mask.w, h);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = color;
+  ctx.fillRect(x, y, mask.w, h);
+  ctx.restore();
+}
@@ -1,6 +1,12 @@
+export * from './ansirenderer';
 export * from './canvasrenderer';
 export * from './fps';
+export * from './glyphatlas';
+export * from './keyboard';
+export * from './pointers';
+export * from './renderers';
 export * from './storage';
+export * from './svgrenderer';
 export * from './textrenderer';
 export * from './types';
 export * from './version';
\ No newline at end of file
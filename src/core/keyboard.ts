@@ -0,0 +1,88 @@
+/**
+@module   keyboard
+@desc     Keyboard state tracking
+@category core
+
+Collects key events between two frames and provides a snapshot
+of the keyboard state for each frame (context.keyboard):
+- down     : keys currently held down
+- pressed  : keys pressed since the previous frame
+- released : keys released since the previous frame
+- text     : characters typed since the previous frame
+Keys are identified by KeyboardEvent.key names ('a', 'Enter', 'ArrowUp', …).
+A program which consumes some keys calls context.keyboard.preventDefault()
+in each frame: the browser doesn’t act on those keys (Tab doesn’t move the
+focus, the arrows don’t scroll, etc.) until the next frame.
+*/
+
+import type { Keyboard } from "../modules/types";
+
+// Keyboard state of a runner without keyboard input
+export const EMPTY_KEYBOARD: Keyboard = Object.freeze({
+  down: new Set<string>(),
+  pressed: new Set<string>(),
+  released: new Set<string>(),
+  text: "",
+  preventDefault: () => {},
+});
+
+export default class KeyboardInput {
+  down: Set<string>;
+  pressed: Set<string>;
+  released: Set<string>;
+  text: string;
+  // Keys whose default action is prevented, requested by the last frame
+  prevented: Set<string>;
+  constructor() {
+    this.down = new Set();
+    this.pressed = new Set();
+    this.released = new Set();
+    this.text = "";
+    this.prevented = new Set();
+  }
+
+  // Key repeats are not reported as 'pressed'
+  keyDown(key: string) {
+    if (!this.down.has(key)) this.pressed.add(key);
+    this.down.add(key);
+    // Printable keys have a single character name (' ' included)
+    if ([...key].length == 1) this.text += key;
+  }
+
+  keyUp(key: string) {
+    this.down.delete(key);
+    this.released.add(key);
+  }
+
+  // A key pressed and released at once (terminals don’t report key ups)
+  tap(key: string) {
+    this.keyDown(key);
+    this.keyUp(key);
+  }
+
+  // Releases all the keys (for example when the window loses focus)
+  reset() {
+    for (const key of this.down) this.released.add(key);
+    this.down.clear();
+  }
+
+  // Returns the state for the current frame and starts a new one.
+  // Keys pressed and released between two frames are also listed as down.
+  update(): Keyboard {
+    const prevented: Set<string> = new Set();
+    this.prevented = prevented;
+    const state = Object.freeze({
+      down: new Set([...this.down, ...this.pressed]),
+      pressed: this.pressed,
+      released: this.released,
+      text: this.text,
+      preventDefault: (...keys: string[]) => {
+        for (const key of keys) prevented.add(key);
+      },
+    });
+    this.pressed = new Set();
+    this.released = new Set();
+    this.text = "";
+    return state;
+  }
+}
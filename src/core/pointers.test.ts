@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import PointerTracker, { NO_GESTURE } from "./pointers";
+
+// Cells of 10 × 20 pixels on a grid of 40 × 20 cells
+const update = (tracker: PointerTracker, time = 0) =>
+  tracker.update(40, 20, 10, 20, time);
+
+describe("PointerTracker", () => {
+  test("lists the pointers down, in cells", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "touch", 50, 100, 0.8, 0, 0);
+    tracker.down(2, "pen", 1000, 1000, 0.3, 2, 0);
+    tracker.move(2, 120, 60);
+    // Not down: ignored
+    tracker.move(3, 0, 0);
+    const { pointers } = update(tracker);
+    expect(pointers).toEqual([
+      { id: 1, type: "touch", x: 5, y: 5, pressure: 0.8, button: 0 },
+      { id: 2, type: "pen", x: 12, y: 3, pressure: 0.3, button: 2 },
+    ]);
+    tracker.up(1);
+    expect(update(tracker).pointers.map((p) => p.id)).toEqual([2]);
+  });
+
+  test("keeps the pointers inside of the grid", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "mouse", 1000, 1000, 0.5, 0, 0);
+    const [p] = update(tracker).pointers;
+    expect([p!.x, p!.y]).toEqual([39, 19]);
+  });
+
+  test("detects a long press of a pointer held still", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "touch", 100, 100, 0.5, 0, 0);
+    expect(update(tracker, 499).gesture).toEqual(NO_GESTURE);
+    // A movement within a cell is allowed
+    tracker.move(1, 109, 119);
+    expect(update(tracker, 500).gesture.longPress).toBe(true);
+    // It lasts until the pointer is released, even if moved
+    tracker.move(1, 300, 300);
+    expect(update(tracker, 600).gesture.longPress).toBe(true);
+    tracker.up(1);
+    expect(update(tracker, 700).gesture.longPress).toBe(false);
+  });
+
+  test("doesn’t detect a long press after a movement", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "touch", 100, 100, 0.5, 0, 0);
+    tracker.move(1, 125, 100);
+    tracker.move(1, 100, 100);
+    expect(update(tracker, 1000).gesture.longPress).toBe(false);
+  });
+
+  test("derives pinch and pan from two pointers", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "touch", 100, 100, 0.5, 0, 0);
+    tracker.down(2, "touch", 200, 100, 0.5, 0, 0);
+    expect(update(tracker).gesture).toEqual(NO_GESTURE);
+    // Twice the distance, the center moves by 50 × 40 pixels
+    tracker.move(1, 100, 140);
+    tracker.move(2, 300, 140);
+    const { gesture } = update(tracker);
+    expect(gesture.pinch).toBe(2);
+    expect(gesture.pan).toEqual({ x: 5, y: 2 });
+    expect(gesture.longPress).toBe(false);
+  });
+
+  test("starts a new gesture with a new pair of pointers", () => {
+    const tracker = new PointerTracker();
+    tracker.down(1, "touch", 100, 100, 0.5, 0, 0);
+    tracker.down(2, "touch", 200, 100, 0.5, 0, 0);
+    update(tracker);
+    tracker.move(2, 300, 100);
+    expect(update(tracker).gesture.pinch).toBe(2);
+    tracker.up(1);
+    tracker.down(3, "touch", 100, 100, 0.5, 0, 0);
+    expect(update(tracker).gesture.pinch).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+@module   pointers
+@desc     Multi-pointer tracking and gestures
+@category core
+
+Tracks all the pointers in contact (mouse buttons, pens and touches)
+and derives some common gestures from them:
+- pinch     : distance between two pointers relative to the distance
+              at the start of the gesture (1 = unchanged)
+- pan       : movement of the center of two pointers since the start
+              of the gesture (in cells)
+- longPress : a single pointer held still for a while,
+              it lasts until the pointer is released (even if moved)
+The runners expose them as cursor.pointers and cursor.gesture.
+Positions are passed in any unit (pixels, cells) and converted to cells
+with the cell size passed to update().
+*/
+
+import type { Gesture, PointerInfo } from "../modules/types";
+
+const LONG_PRESS_TIME = 500; // ms
+const LONG_PRESS_SLOP = 1; // max movement in cells
+
+// No gesture in progress
+export const NO_GESTURE: Gesture = Object.freeze({
+  pinch: 1,
+  pan: Object.freeze({ x: 0, y: 0 }),
+  longPress: false,
+});
+
+const LONG_PRESS: Gesture = Object.freeze({ ...NO_GESTURE, longPress: true });
+
+type TrackedPointer = {
+  id: number;
+  type: string;
+  x: number;
+  y: number;
+  pressure: number;
+  button: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  maxDX: number; // largest distance from the start position
+  maxDY: number;
+  longPress: boolean;
+};
+
+export default class PointerTracker {
+  pointers: Map<number, TrackedPointer>;
+  // Two pointer gesture: ids, distance and center at the start
+  pair: [number, number] | null;
+  pairDist: number;
+  pairCenter: { x: number; y: number };
+  constructor() {
+    this.pointers = new Map();
+    this.pair = null;
+    this.pairDist = 0;
+    this.pairCenter = { x: 0, y: 0 };
+  }
+
+  down(
+    id: number,
+    type: string,
+    x: number,
+    y: number,
+    pressure = 0.5,
+    button = 0,
+    time = performance.now()
+  ) {
+    this.pointers.set(id, {
+      id,
+      type,
+      x,
+      y,
+      pressure,
+      button,
+      startX: x,
+      startY: y,
+      startTime: time,
+      maxDX: 0,
+      maxDY: 0,
+      longPress: false,
+    });
+  }
+
+  // Moves of pointers which are not down are ignored
+  move(id: number, x: number, y: number, pressure?: number) {
+    const p = this.pointers.get(id);
+    if (!p) return;
+    p.x = x;
+    p.y = y;
+    if (pressure !== undefined) p.pressure = pressure;
+    p.maxDX = Math.max(p.maxDX, Math.abs(x - p.startX));
+    p.maxDY = Math.max(p.maxDY, Math.abs(y - p.startY));
+  }
+
+  up(id: number) {
+    this.pointers.delete(id);
+  }
+
+  // Returns the pointers (in cells) and the gestures of the current frame
+  update(
+    cols: number,
+    rows: number,
+    cellWidth = 1,
+    cellHeight = 1,
+    time = performance.now()
+  ): { pointers: PointerInfo[]; gesture: Gesture } {
+    const list = [...this.pointers.values()];
+    const pointers = list.map((p) =>
+      Object.freeze({
+        id: p.id,
+        type: p.type,
+        // The element might be slightly larger than the number
+        // of cols/rows, min is required!
+        x: Math.min(cols - 1, p.x / cellWidth),
+        y: Math.min(rows - 1, p.y / cellHeight),
+        pressure: p.pressure,
+        button: p.button,
+      })
+    );
+
+    // Long press: a single pointer which didn’t move
+    if (list.length == 1) {
+      this.pair = null;
+      const p = list[0]!;
+      if (
+        !p.longPress &&
+        time - p.startTime >= LONG_PRESS_TIME &&
+        p.maxDX / cellWidth <= LONG_PRESS_SLOP &&
+        p.maxDY / cellHeight <= LONG_PRESS_SLOP
+      ) {
+        p.longPress = true;
+      }
+      return { pointers, gesture: p.longPress ? LONG_PRESS : NO_GESTURE };
+    }
+
+    if (list.length < 2) {
+      this.pair = null;
+      return { pointers, gesture: NO_GESTURE };
+    }
+
+    // Pinch and pan: the first two pointers are used.
+    // A new pair of pointers starts a new gesture.
+    const a = list[0]!;
+    const b = list[1]!;
+    const dist = Math.hypot(b.x - a.x, b.y - a.y);
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    if (!this.pair || this.pair[0] != a.id || this.pair[1] != b.id) {
+      this.pair = [a.id, b.id];
+      this.pairDist = dist;
+      this.pairCenter = center;
+    }
+
+    return {
+      pointers,
+      gesture: Object.freeze({
+        pinch: this.pairDist > 0 ? dist / this.pairDist : 1,
+        pan: Object.freeze({
+          x: (center.x - this.pairCenter.x) / cellWidth,
+          y: (center.y - this.pairCenter.y) / cellHeight,
+        }),
+        longPress: false,
+      }),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { PassThrough } from "node:stream";
+import { runTerminal } from "../terminal";
+import {
+  getRenderer,
+  hasRenderer,
+  listRenderers,
+  registerRenderer,
+  unregisterRenderer,
+} from "./renderers";
+import type { Render } from "./types";
+
+const render = () => {};
+
+afterEach(() => {
+  unregisterRenderer("test");
+});
+
+describe("renderers", () => {
+  test("has the built-in renderers", () => {
+    for (const name of ["text", "canvas", "ansi", "svg"]) {
+      expect(listRenderers()).toContain(name);
+    }
+  });
+
+  test("registers and removes renderers", () => {
+    const renderer = { preferredElementNodeName: "PRE", render };
+    registerRenderer("test", renderer);
+    expect(hasRenderer("test")).toBe(true);
+    expect(getRenderer("test")).toBe(renderer);
+    expect(unregisterRenderer("test")).toBe(true);
+    expect(hasRenderer("test")).toBe(false);
+    expect(unregisterRenderer("test")).toBe(false);
+  });
+
+  test("calls a factory for each instance", () => {
+    const factory = () => ({ preferredElementNodeName: "PRE", render });
+    registerRenderer("test", factory);
+    expect(getRenderer("test")).not.toBe(getRenderer("test"));
+    expect(getRenderer("text")).not.toBe(getRenderer("text"));
+  });
+
+  test("rejects renderers without render()", () => {
+    const bad = { preferredElementNodeName: "PRE" } as unknown as Render;
+    expect(() => registerRenderer("test", bad)).toThrow("render()");
+    registerRenderer("test", () => bad);
+    expect(() => getRenderer("test")).toThrow("render()");
+    expect(() => getRenderer("nope")).toThrow('Unknown renderer "nope"');
+  });
+
+  test("calls the lifecycle hooks in order", async () => {
+    const calls: string[] = [];
+    registerRenderer("test", {
+      preferredElementNodeName: "PRE",
+      init: () => calls.push("init"),
+      resize: (context) => calls.push(`resize ${context.cols}`),
+      render: (context, buffer) => calls.push(`render ${buffer.length}`),
+      dispose: () => calls.push("dispose"),
+    });
+    const stream = { write: () => true };
+    const input = new PassThrough();
+    const settings = { cols: 3, rows: 2, once: true, renderer: "test" };
+    await runTerminal({}, { ...settings, stream, input });
+    expect(calls).toEqual(["init", "resize 3", "render 6", "dispose"]);
+  });
+});
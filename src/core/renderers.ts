@@ -0,0 +1,88 @@
+/**
+@module   renderers
+@desc     Registry of the available renderers
+@category core
+
+Renderers are registered by name and selected trough settings.renderer.
+The 'text', 'canvas', 'ansi' and 'svg' renderers are always available.
+Custom renderers can be added with:
+
+registerRenderer('svg', {
+	preferredElementNodeName : 'DIV',
+	init    : (context) => {},           // optional
+	resize  : (context) => {},           // optional
+	render  : (context, buffer) => {},
+	dispose : (context) => {},           // optional
+})
+
+A renderer which keeps some state between frames (a back buffer, caches,
+etc.) should be registered as a factory instead: each run gets its own
+instance, so that several programs can share a page.
+
+registerRenderer('svg', () => {
+	const cache = {}
+	return { preferredElementNodeName : 'DIV', render : (context, buffer) => {} }
+})
+*/
+
+import { createTextRenderer } from "./textrenderer";
+import { createCanvasRenderer } from "./canvasrenderer";
+import { createANSIRenderer } from "./ansirenderer";
+import { createSVGRenderer } from "./svgrenderer";
+import type { Render, RenderFactory, RenderModes } from "./types";
+
+const registry: Map<RenderModes, Render | RenderFactory> = new Map();
+
+// Adds (or replaces) a renderer or a renderer factory
+export function registerRenderer(
+  name: RenderModes,
+  renderer: Render | RenderFactory
+) {
+  if (!name) {
+    throw new Error("A renderer needs a name.");
+  }
+  if (
+    !renderer ||
+    (typeof renderer != "function" && typeof renderer.render != "function")
+  ) {
+    throw new Error(`Renderer "${name}" must implement a render() function.`);
+  }
+  registry.set(name, renderer);
+}
+
+// Removes a renderer, returns true if it was registered
+export function unregisterRenderer(name: RenderModes) {
+  return registry.delete(name);
+}
+
+// Returns true if a renderer is registered with that name
+export function hasRenderer(name: RenderModes) {
+  return registry.has(name);
+}
+
+// Returns the names of all the registered renderers
+export function listRenderers(): RenderModes[] {
+  return [...registry.keys()];
+}
+
+// Returns a registered renderer or throws.
+// Factories are called: each call returns a new instance.
+export function getRenderer(name: RenderModes): Render {
+  const entry = registry.get(name);
+  if (!entry) {
+    throw new Error(
+      `Unknown renderer "${name}". Registered renderers: ${listRenderers().join(", ")}.`
+    );
+  }
+  if (typeof entry != "function") return entry;
+  const renderer = entry();
+  if (!renderer || typeof renderer.render != "function") {
+    throw new Error(`Renderer "${name}" must implement a render() function.`);
+  }
+  return renderer;
+}
+
+registerRenderer("text", createTextRenderer);
+registerRenderer("canvas", createCanvasRenderer);
+registerRenderer("ansi", createANSIRenderer);
+registerRenderer("svg", createSVGRenderer);
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import { toSVG } from "./svgrenderer";
+import type { Cell, Settings } from "../modules/types";
+
+// Renders a single row of cells, returns the SVG document
+function svg(cells: Partial<Cell>[], settings: Partial<Settings> = {}) {
+  let out = "";
+  runHeadless(
+    {
+      main: (coord) => cells[coord.index],
+      post: (context, cursor, buffer) => {
+        out = toSVG(context, buffer);
+      },
+    },
+    {
+      cols: cells.length,
+      rows: 1,
+      metrics: { cellWidth: 10, lineHeight: 20 },
+      settings,
+    }
+  );
+  return out;
+}
+
+describe("svgrenderer.toSVG", () => {
+  test("has the size of the grid", () => {
+    const out = svg([{ char: "a" }, { char: "b" }]);
+    expect(out).toStartWith(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20"'
+    );
+    expect(out).toContain('<rect width="100%" height="100%" fill="white"/>');
+    expect(out).toEndWith("</g></svg>");
+  });
+
+  test("draws a rect for each run of backgrounds", () => {
+    const out = svg([
+      { char: "a" },
+      { char: "b", backgroundColor: "red" },
+      { char: "c", backgroundColor: "red" },
+      { char: "d", backgroundColor: "blue", opacity: 0.5 },
+    ]);
+    const rects = out.match(/<rect x[^>]*>/g);
+    expect(rects).toEqual([
+      '<rect x="10" y="0" width="20" height="20" fill="red"/>',
+      '<rect x="30" y="0" width="10" height="20" fill="blue"' +
+        ' fill-opacity="0.5"/>',
+    ]);
+  });
+
+  test("writes a tspan for each run of styles", () => {
+    const out = svg([
+      { char: "a" },
+      { char: "b" },
+      { char: "c", color: "red", fontWeight: "bold" },
+      { char: "d", fontStyle: "italic", textDecoration: "underline" },
+    ]);
+    expect(out).toContain(
+      '<text y="0"><tspan x="0">ab</tspan>' +
+        '<tspan x="20" fill="red" font-weight="bold">c</tspan>' +
+        '<tspan x="30" font-style="italic" text-decoration="underline">' +
+        "d</tspan></text>"
+    );
+  });
+
+  test("escapes the chars and the attributes", () => {
+    const out = svg([{ char: "<" }, { char: "&", color: '"x"' }]);
+    expect(out).toContain(">&lt;</tspan>");
+    expect(out).toContain('fill="&quot;x&quot;">&amp;</tspan>');
+  });
+
+  test("places the text after a wide char on its column", () => {
+    const out = svg([{ char: "🌮" }, { char: "" }, { char: "x" }]);
+    expect(out).toContain('<tspan x="0">🌮</tspan><tspan x="20">x</tspan>');
+  });
+
+  test("swaps the colors of inverse cells", () => {
+    const out = svg([{ char: "a", color: "red", inverse: true }], {
+      color: "white",
+      backgroundColor: "black",
+    });
+    expect(out).toContain(
+      '<rect x="0" y="0" width="10" height="20" fill="red"/>'
+    );
+    expect(out).toContain('<tspan x="0" fill="black">a</tspan>');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+@module   svgrenderer
+@desc     renders to an inline SVG element
+@category renderer
+
+The buffer is converted to an SVG document: one <rect> for each run of
+cells with the same background color and one <tspan> for each run of
+cells with the same text style.
+Cells are positioned with the same metrics as the canvas renderer
+(cellWidth and lineHeight); settings.canvasSize, settings.canvasOffset
+and textAlign 'center' are honoured as well.
+The SVG markup can also be obtained with toSVG(), for example to export
+a frame as a vector image.
+*/
+
+import { asArray } from "../modules/cellbuffer";
+import DirtyRegion from "../modules/dirty";
+import { CONTINUATION } from "../modules/string";
+import type { AnyBuffer, Cell, Context } from "../modules/types";
+import { isSameCellStyle } from "./textrenderer";
+import type { Render } from "./types";
+
+// Returns a new renderer with its own state (see textrenderer)
+export function createSVGRenderer(): Render {
+  // Rows changed since the previous frame
+  const region = new DirtyRegion();
+  return {
+    preferredElementNodeName: "DIV",
+    render: (context, buffer) => render(context, buffer, region),
+  };
+}
+
+export default createSVGRenderer;
+
+function render(context: Context, buffer: AnyBuffer, region: DirtyRegion) {
+  const element = context.settings.element as HTMLElement;
+  // The document is rebuilt only if something changed
+  if (region.update(buffer, context.cols, context.rows).length == 0) return;
+  element.innerHTML = toSVG(context, buffer);
+}
+
+// Converts the buffer to an SVG document (string)
+export function toSVG(context: Context, target: AnyBuffer) {
+  const buffer = asArray(target);
+  const c = context.cols;
+  const r = context.rows;
+  const m = context.metrics;
+
+  const cw = m.cellWidth;
+  const ch = Math.round(m.lineHeight);
+
+  // Shortcut
+  const settings = context.settings;
+
+  const width = settings.canvasSize ? settings.canvasSize.width : context.width;
+  const height = settings.canvasSize
+    ? settings.canvasSize.height
+    : context.height;
+
+  const bg = settings.backgroundColor || "white";
+  const fg = settings.color || "black";
+  const fontWeight = settings.fontWeight || "400";
+
+  let svg = "";
+  svg += '<svg xmlns="http://www.w3.org/2000/svg"';
+  svg += ' width="' + width + '" height="' + height + '"';
+  svg += ' viewBox="0 0 ' + width + " " + height + '">';
+  svg += '<rect width="100%" height="100%" fill="' + escape(bg) + '"/>';
+
+  // Custom settings: it’s possible to center the grid
+  let ox = 0;
+  let oy = 0;
+  if (settings.canvasOffset) {
+    const offs = settings.canvasOffset;
+    ox = Math.round(offs.x == "auto" ? (width - c * cw) / 2 : offs.x);
+    oy = Math.round(offs.y == "auto" ? (height - r * ch) / 2 : offs.y);
+  }
+  svg += '<g transform="translate(' + ox + "," + oy + ')"';
+  svg += ' font-family="' + escape(m.fontFamily) + '"';
+  svg += ' font-size="' + m.fontSize + '"';
+  svg += ' font-weight="' + escape(fontWeight) + '"';
+  svg += ' fill="' + escape(fg) + '"';
+  svg += ' dominant-baseline="text-before-edge" xml:space="preserve">';
+
+  // Centered rows: the text is anchored in the middle of the row,
+  // the backgrounds assume a monospaced font.
+  const center = settings.textAlign == "center";
+  const rowOffset = center ? (width - c * cw) / 2 : 0;
+
+  for (let j = 0; j < r; j++) {
+    const offs = j * c;
+    const y = j * ch;
+
+    // Backgrounds: one rect for each run of cells with the same color
+    let x = 0;
+    while (x < c) {
+      const cell = buffer[offs + x]!;
+      const color = cellBackground(cell, fg);
+      let len = 1;
+      while (
+        x + len < c &&
+        cellBackground(buffer[offs + x + len]!, fg) == color &&
+        buffer[offs + x + len]!.opacity === cell.opacity
+      ) {
+        len++;
+      }
+      if (color && color != bg) {
+        svg += '<rect x="' + round(rowOffset + x * cw) + '" y="' + y + '"';
+        svg += ' width="' + round(len * cw) + '" height="' + ch + '"';
+        svg += ' fill="' + escape(color) + '"';
+        if (cell.opacity !== undefined && cell.opacity < 1) {
+          svg += ' fill-opacity="' + cell.opacity + '"';
+        }
+        svg += "/>";
+      }
+      x += len;
+    }
+
+    // Text: one tspan for each run of cells with the same style
+    if (center) {
+      svg += '<text x="' + round(width / 2) + '" y="' + y + '"';
+      svg += ' text-anchor="middle">';
+    } else {
+      svg += '<text y="' + y + '">';
+    }
+    let prevCell = {} as Cell;
+    let tagIsOpen = false;
+    for (let i = 0; i < c; i++) {
+      const currCell = buffer[offs + i]!;
+      // After a wide char (which is not exactly two columns wide)
+      // the text is positioned again on its column
+      const wide = !center && prevCell.char === CONTINUATION;
+      if (i == 0 || wide || !isSameCellStyle(currCell, prevCell)) {
+        if (tagIsOpen) svg += "</tspan>";
+        svg += "<tspan";
+        // In block mode each run is positioned on its column
+        if (!center) svg += ' x="' + round(i * cw) + '"';
+        const color = currCell.inverse
+          ? currCell.backgroundColor || bg
+          : currCell.color;
+        if (color && color != fg) {
+          svg += ' fill="' + escape(color) + '"';
+        }
+        if (currCell.fontWeight && currCell.fontWeight != fontWeight) {
+          svg += ' font-weight="' + escape(currCell.fontWeight) + '"';
+        }
+        if (currCell.fontStyle && currCell.fontStyle != "normal") {
+          svg += ' font-style="' + escape(currCell.fontStyle) + '"';
+        }
+        if (currCell.textDecoration && currCell.textDecoration != "none") {
+          svg += ' text-decoration="' + escape(currCell.textDecoration) + '"';
+        }
+        if (currCell.opacity !== undefined && currCell.opacity < 1) {
+          svg += ' fill-opacity="' + currCell.opacity + '"';
+        }
+        svg += ">";
+        tagIsOpen = true;
+      }
+      svg += escape(currCell.char);
+      prevCell = currCell;
+    }
+    if (tagIsOpen) svg += "</tspan>";
+    svg += "</text>";
+  }
+
+  svg += "</g></svg>";
+  return svg;
+}
+
+// Background color of a cell (the text color if inverse)
+function cellBackground(cell: Cell, fg: string) {
+  return cell.inverse ? cell.color || fg : cell.backgroundColor;
+}
+
+// Escapes a value to be used as text or attribute value
+function escape(val: any) {
+  return String(val)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Rounds to two decimals, enough for screen and print
+function round(v: number) {
+  return Math.round(v * 100) / 100;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import type { Cell, Settings } from "../modules/types";
+import { isSameCellStyle, rowToHTML } from "./textrenderer";
+
+// Markup of a single row of cells: the same with a typed buffer
+function html(cells: Partial<Cell>[], settings: Partial<Settings> = {}) {
+  const out: string[] = [];
+  for (const typedBuffer of [false, true]) {
+    runHeadless(
+      {
+        main: (coord) => cells[coord.index],
+        post: (context, cursor, buffer) => {
+          out.push(rowToHTML(context, buffer, 0));
+        },
+      },
+      { cols: cells.length, rows: 1, settings: { ...settings, typedBuffer } }
+    );
+  }
+  expect(out[1]).toBe(out[0]!);
+  return out[0];
+}
+
+describe("textrenderer", () => {
+  test("writes the styles of the cells as inline CSS", () => {
+    const out = html([
+      { char: "a", fontStyle: "italic" },
+      { char: "b", textDecoration: "underline line-through" },
+      { char: "c", opacity: 0.5 },
+      { char: "d", fontWeight: "700", color: "red" },
+    ]);
+    expect(out).toBe(
+      '<span style="font-style:italic;">a</span>' +
+        '<span style="text-decoration:underline line-through;">b</span>' +
+        '<span style="opacity:0.5;">c</span>' +
+        '<span style="color:red;font-weight:700;">d</span>'
+    );
+  });
+
+  test("writes a span for each run of cells with the same style", () => {
+    const italic = { fontStyle: "italic" };
+    const out = html([
+      { char: "a", ...italic },
+      { char: "b", ...italic },
+      { char: "c" },
+    ]);
+    expect(out).toBe(
+      '<span style="font-style:italic;">ab</span><span>c</span>'
+    );
+  });
+
+  test("omits the styles of the container", () => {
+    const settings = { color: "red", fontWeight: "normal" };
+    for (const cell of [
+      { char: "a", color: "red", fontWeight: "400" },
+      { char: "a", fontStyle: "normal", textDecoration: "none" },
+      { char: "a", opacity: 1 },
+    ]) {
+      expect(html([cell], settings)).toBe("<span>a</span>");
+    }
+  });
+
+  test("swaps the colors of inverse cells", () => {
+    const settings = { color: "white", backgroundColor: "black" };
+    expect(html([{ char: "a", color: "red", inverse: true }], settings)).toBe(
+      '<span style="color:black;background:red;">a</span>'
+    );
+    // With the colors of the container
+    expect(html([{ char: "a", inverse: true }], settings)).toBe(
+      '<span style="color:black;background:white;">a</span>'
+    );
+  });
+
+  test("compares the styles of the cells", () => {
+    const cell: Cell = { char: "a", fontStyle: "italic", inverse: true };
+    expect(isSameCellStyle(cell, { ...cell, char: "b" })).toBe(true);
+    expect(isSameCellStyle(cell, { ...cell, inverse: false })).toBe(false);
+    expect(isSameCellStyle(cell, { ...cell, opacity: 0.5 })).toBe(false);
+    expect(
+      isSameCellStyle(cell, { ...cell, textDecoration: "underline" })
+    ).toBe(false);
+  });
+});
@@ -4,33 +4,33 @@
 @category renderer
 */
 
-import type { Buffer, Cell, Context } from "../modules/types";
+import CellBuffer, { packWeight } from "../modules/cellbuffer";
+import DirtyRegion from "../modules/dirty";
+import type { AnyBuffer, Cell, Context, Settings } from "../modules/types";
 import type { Render } from "./types";
 
-export default {
-  preferredElementNodeName: "PRE",
-  render,
-} as Render;
-
-const backBuffer: Buffer = [];
+// Returns a new renderer: each instance keeps its own state,
+// so that several programs can run on the same page.
+export function createTextRenderer(): Render {
+  // Rows changed since the previous frame
+  const region = new DirtyRegion();
+  return {
+    preferredElementNodeName: "PRE",
+    render: (context, buffer) => render(context, buffer, region),
+  };
+}
 
-let cols: number, rows: number;
+export default createTextRenderer;
 
-function render(context: Context, buffer: Buffer) {
+function render(context: Context, buffer: AnyBuffer, region: DirtyRegion) {
   const element = context.settings.element as HTMLElement;
+  const { cols, rows } = context;
 
   // Set the most used styles to the container
   // element.style.backgroundColor = context.settings.background
   // element.style.color = context.settings.color
   // element.style.fontWeight = context.settings.weight
 
-  // Detect resize
-  if (context.rows != rows || context.cols != cols) {
-    cols = context.cols;
-    rows = context.rows;
-    backBuffer.length = 0;
-  }
-
   // DOM rows update: expand lines if necessary
   // TODO: also benchmark a complete 'innerHTML' rewrite, could be faster?
   while (element.childElementCount < rows) {
@@ -46,116 +46,172 @@ function render(context: Context, buffer: Buffer) {
     element.removeChild(element.lastChild as Node);
   }
 
-  // Counts the number of updated rows, seful for debug
-  let updatedRowNum = 0;
-
   // A bit of a cumbersome render-loop…
   // A few notes: the fastest way I found to render the image
   // is by manually write the markup into the parent node via .innerHTML;
   // creating a node via .createElement and then popluate it resulted
   // remarkably slower (even if more elegant for the CSS handling below).
-  for (let j = 0; j < rows; j++) {
-    const offs = j * cols;
-
-    // This check is faster than to force update the DOM.
-    // Buffer can be manually modified in pre, main and after
-    // with semi-arbitrary values…
-    // It is necessary to keep track of the previous state
-    // and specifically check if a change in style
-    // or char happened on the whole row.
-    let rowNeedsUpdate = false;
-    for (let i = 0; i < cols; i++) {
-      const idx = i + offs;
-      const newCell = buffer[idx]!;
-      const oldCell = backBuffer[idx]!;
-      if (!isSameCell(newCell, oldCell)) {
-        if (rowNeedsUpdate == false) updatedRowNum++;
-        rowNeedsUpdate = true;
-        backBuffer[idx] = { ...newCell };
+  // Only the changed rows are written: the buffer can be manually modified
+  // in pre, main and after with semi-arbitrary values,
+  // the dirty region keeps track of the previous state (see dirty).
+  for (const j of region.update(buffer, cols, rows)) {
+    (element.childNodes[j] as HTMLElement).innerHTML = rowToHTML(
+      context,
+      buffer,
+      j
+    );
+  }
+}
+
+// Converts a row of the buffer to HTML markup:
+// one inline-styled <span> for each run of cells with the same style.
+export function rowToHTML(context: Context, buffer: AnyBuffer, row: number) {
+  if (buffer instanceof CellBuffer) return rowToHTMLTyped(context, buffer, row);
+  const cols = context.cols;
+  const offs = row * cols;
+  let html = ""; // Accumulates the markup
+  let prevCell = {} as Cell; //defaultCell
+  let tagIsOpen = false;
+  for (let i = 0; i < cols; i++) {
+    const currCell = buffer[i + offs]!; //|| {...defaultCell, char : EMPTY_CELL}
+    // Undocumented feature:
+    // possible to inject some custom HTML (for example <a>) into the renderer.
+    // It can be inserted before the char or after the char (beginHTML, endHTML)
+    // and this is a very hack…
+    if (currCell.beginHTML) {
+      if (tagIsOpen) {
+        html += "</span>";
+        prevCell = {} as Cell; //defaultCell
+        tagIsOpen = false;
       }
+      html += currCell.beginHTML;
     }
 
-    // Skip row if update is not necessary
-    if (rowNeedsUpdate == false) continue;
-
-    let html = ""; // Accumulates the markup
-    let prevCell = {} as Cell; //defaultCell
-    let tagIsOpen = false;
-    for (let i = 0; i < cols; i++) {
-      const currCell = buffer[i + offs]!; //|| {...defaultCell, char : EMPTY_CELL}
-      // Undocumented feature:
-      // possible to inject some custom HTML (for example <a>) into the renderer.
-      // It can be inserted before the char or after the char (beginHTML, endHTML)
-      // and this is a very hack…
-      if (currCell.beginHTML) {
-        if (tagIsOpen) {
-          html += "</span>";
-          prevCell = {} as Cell; //defaultCell
-          tagIsOpen = false;
-        }
-        html += currCell.beginHTML;
-      }
+    // If there is a change in style a new span has to be inserted
+    if (!isSameCellStyle(currCell, prevCell)) {
+      // Close the previous tag
+      if (tagIsOpen) html += "</span>";
 
-      // If there is a change in style a new span has to be inserted
-      if (!isSameCellStyle(currCell, prevCell)) {
-        // Close the previous tag
-        if (tagIsOpen) html += "</span>";
-
-        const c =
-          currCell.color === context.settings.color ? null : currCell.color;
-        const b =
-          currCell.backgroundColor === context.settings.backgroundColor
-            ? null
-            : currCell.backgroundColor;
-        const w =
-          currCell.fontWeight === context.settings.fontWeight
-            ? null
-            : currCell.fontWeight;
-
-        // Accumulate the CSS inline attribute.
-        let css = "";
-        if (c) css += "color:" + c + ";";
-        if (b) css += "background:" + b + ";";
-        if (w) css += "font-weight:" + w + ";";
-        if (css) css = ' style="' + css + '"';
-        html += "<span" + css + ">";
-        tagIsOpen = true;
-      }
-      html += currCell.char;
-      prevCell = currCell;
-
-      // Add closing tag, in case
-      if (currCell.endHTML) {
-        if (tagIsOpen) {
-          html += "</span>";
-          prevCell = {} as Cell; //defaultCell
-          tagIsOpen = false;
-        }
-        html += currCell.endHTML;
+      const css = cellCSS(currCell, context.settings);
+      html += "<span" + (css ? ' style="' + css + '"' : "") + ">";
+      tagIsOpen = true;
+    }
+    html += escape(currCell.char);
+    prevCell = currCell;
+
+    // Add closing tag, in case
+    if (currCell.endHTML) {
+      if (tagIsOpen) {
+        html += "</span>";
+        prevCell = {} as Cell; //defaultCell
+        tagIsOpen = false;
       }
+      html += currCell.endHTML;
     }
-    if (tagIsOpen) html += "</span>";
+  }
+  if (tagIsOpen) html += "</span>";
+  return html;
+}
 
-    // Write the row
-    (element.childNodes[j] as HTMLElement).innerHTML = html;
+// Same as rowToHTML() for typed buffers, reading the typed arrays directly
+// (the beginHTML / endHTML hack is not supported).
+function rowToHTMLTyped(context: Context, buffer: CellBuffer, row: number) {
+  const cols = context.cols;
+  const offs = row * cols;
+  let html = "";
+  for (let i = 0; i < cols; i++) {
+    const idx = i + offs;
+    if (i == 0 || !buffer.isSameCellStyle(idx, idx - 1)) {
+      if (i > 0) html += "</span>";
+      // A cell object is built only for each change of style
+      const css = cellCSS(buffer.get(idx), context.settings);
+      html += "<span" + (css ? ' style="' + css + '"' : "") + ">";
+    }
+    html += escape(buffer.getChar(idx));
   }
+  if (cols > 0) html += "</span>";
+  return html;
 }
 
-// Compares two cells
-function isSameCell(cellA: Cell, cellB: Cell) {
-  if (typeof cellA != "object") return false;
-  if (typeof cellB != "object") return false;
-  if (cellA.char !== cellB.char) return false;
-  if (cellA.fontWeight !== cellB.fontWeight) return false;
-  if (cellA.color !== cellB.color) return false;
-  if (cellA.backgroundColor !== cellB.backgroundColor) return false;
-  return true;
+// Returns the inline CSS of a cell: only the properties which differ
+// from the settings (the style of the container element)
+function cellCSS(cell: Cell, settings: Settings) {
+  let color = cell.color;
+  let background = cell.backgroundColor;
+  if (cell.inverse) {
+    color = background || settings.backgroundColor || "white";
+    background = cell.color || settings.color || "black";
+  }
+  let css = "";
+  if (color && color !== settings.color) css += "color:" + color + ";";
+  if (background && background !== settings.backgroundColor) {
+    css += "background:" + background + ";";
+  }
+  const w = cell.fontWeight;
+  if (w && packWeight(w) != packWeight(settings.fontWeight)) {
+    css += "font-weight:" + w + ";";
+  }
+  if (cell.fontStyle && cell.fontStyle != "normal") {
+    css += "font-style:" + cell.fontStyle + ";";
+  }
+  if (cell.textDecoration && cell.textDecoration != "none") {
+    css += "text-decoration:" + cell.textDecoration + ";";
+  }
+  if (cell.opacity !== undefined && cell.opacity < 1) {
+    css += "opacity:" + cell.opacity + ";";
+  }
+  return css;
+}
+
+// Escapes a char to be used as text (as in the SVG renderer):
+// the cells can’t inject markup (see beginHTML for that)
+function escape(char: any) {
+  return String(char)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Converts the whole buffer to a standalone HTML document,
+// with the same markup used by the renderer.
+export function toHTML(context: Context, buffer: AnyBuffer) {
+  const settings = context.settings;
+  const m = context.metrics;
+
+  // Styles of the container element
+  let css = "margin:0;";
+  if (settings.backgroundColor) {
+    css += "background:" + settings.backgroundColor + ";";
+  }
+  if (settings.color) css += "color:" + settings.color + ";";
+  if (settings.fontWeight) css += "font-weight:" + settings.fontWeight + ";";
+  css += "font-family:" + m.fontFamily.replace(/"/g, "'") + ";";
+  css += "font-size:" + m.fontSize + "px;";
+  css += "line-height:" + m.lineHeight + "px;";
+
+  // Rows are block spans, as in the renderer
+  let html = "";
+  for (let j = 0; j < context.rows; j++) {
+    html += '<span style="display:block">';
+    html += rowToHTML(context, buffer, j);
+    html += "</span>";
+  }
+
+  return (
+    '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n</head>\n' +
+    '<body style="margin:0">\n<pre style="' + css + '">' + html + "</pre>\n" +
+    "</body>\n</html>\n"
+  );
 }
 
 // Compares two cells for style only
-function isSameCellStyle(cellA: Cell, cellB: Cell) {
+export function isSameCellStyle(cellA: Cell, cellB: Cell) {
   if (cellA.fontWeight !== cellB.fontWeight) return false;
   if (cellA.color !== cellB.color) return false;
   if (cellA.backgroundColor !== cellB.backgroundColor) return false;
+  if (cellA.fontStyle !== cellB.fontStyle) return false;
+  if (cellA.textDecoration !== cellB.textDecoration) return false;
+  if (cellA.opacity !== cellB.opacity) return false;
+  if (cellA.inverse !== cellB.inverse) return false;
   return true;
 }
@@ -1,8 +1,20 @@
-import type { Context, Buffer } from "../modules/types";
+import type { AnyBuffer, Context } from "../modules/types";
 
-export type RenderModes = string;
+// Names of the built-in renderers; any other registered name is valid too.
+export type RenderModes = "text" | "canvas" | "ansi" | "svg" | (string & {});
 
 export type Render = {
-  preferredElementNodeName: RenderModes;
-  render: (context: Context, buffer: Buffer) => void;
+  // Node name of the element created when no target element is provided
+  preferredElementNodeName: string;
+  // Lifecycle hooks, all optional except render():
+  // init() is called once before the first frame,
+  // resize() each time the number of cols or rows changes,
+  // render() at each frame and dispose() when the runner is torn down.
+  init?: (context: Context) => void;
+  resize?: (context: Context) => void;
+  render: (context: Context, buffer: AnyBuffer) => void;
+  dispose?: (context: Context) => void;
 };
+
+// Creates a new renderer instance (with its own state)
+export type RenderFactory = () => Render;
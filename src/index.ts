@@ -1,6 +1,6 @@
-import textRenderer from "./core/textrenderer";
-import canvasRenderer from "./core/canvasrenderer";
+import { getRenderer } from "./core/renderers";
 import FPS from "./core/fps";
+import { buildContext } from "./core/frame";
 import storage from "./core/storage";
 import RUNNER_VERSION from "./core/version";
 import type {
@@ -12,21 +12,12 @@ import type {
   Settings,
   State,
 } from "./modules/types";
-import type { RenderModes } from "./core/types";
 
 export * from './core';
 export * from './run';
 export * from './modules'
 export { RUNNER_VERSION };
 
-const renderers: Record<
-  RenderModes,
-  typeof textRenderer | typeof canvasRenderer
-> = {
-  canvas: canvasRenderer,
-  text: textRenderer,
-};
-
 // Default settings for the program runner.
 // They can be overwritten by the parameters of the runner
 // or as a settings object exported by the program (in this order).
@@ -36,7 +27,7 @@ const defaultSettings = {
   rows: 0, // number of columns, 0 is equivalent to 'auto'
   once: false, // if set to true the renderer will run only once
   fps: 30, // fps capping
-  renderer: "text", // can be 'canvas', anything else falls back to 'text'
+  renderer: "text", // name of a registered renderer: 'text', 'canvas', etc.
   allowSelect: false, // allows selection of the rendered element
   restoreState: false, // will store the "state" object in local storage
   // this is handy for live-coding situations
@@ -66,8 +57,8 @@ export default async function runner(
     throw new Error("No renderer specified");
   }
 
-  // If the renderer is not supported, fall back to text renderer
-  const renderer = renderers[mergedSettings.renderer] || textRenderer;
+  // Throws if the renderer is not registered
+  const renderer = getRenderer(mergedSettings.renderer);
 
   // State is stored in local storage and will loaded on program launch
   // if settings.restoreState == true.
@@ -164,9 +155,20 @@ export default async function runner(
   // Metrics object, calc once (below)
   let metrics: Metrics;
 
+  // This runner has no controls: the renderer is disposed
+  // when the page is left
+  window.addEventListener("pagehide", () => {
+    if (metrics && typeof renderer.dispose == "function") {
+      renderer.dispose(getContext(state, settings, metrics, fps));
+    }
+  }, { once: true });
+
   function boot() {
     metrics = calcMetrics(settings.element as HTMLElement);
     const context = getContext(state, settings, metrics, fps);
+    if (typeof renderer.init == "function") {
+      renderer.init(context);
+    }
     if (typeof program.boot == "function") {
       program.boot(context, buffer, userData);
     }
@@ -234,6 +236,9 @@ export default async function runner(
       for (let i = 0; i < buffer.length; i++) {
         buffer[i] = { ...DEFAULT_CELL_STYLE, char: EMPTY_CELL };
       }
+      if (typeof renderer.resize == "function") {
+        renderer.resize(context);
+      }
     }
 
     // 2. --------------------------------------------------------------
@@ -307,24 +312,7 @@ function getContext(
   fps: FPS
 ): Context {
   const rect = settings.element?.getBoundingClientRect() as DOMRect;
-  const cols = settings.cols || Math.floor(rect.width / metrics.cellWidth);
-  const rows = settings.rows || Math.floor(rect.height / metrics.lineHeight);
-  return Object.freeze({
-    frame: state.frame,
-    time: state.time,
-    cols,
-    rows,
-    metrics,
-    width: rect.width,
-    height: rect.height,
-    settings,
-    // Runtime & debug data
-    runtime: Object.freeze({
-      cycle: state.cycle,
-      fps: fps.fps,
-      // updatedRowNum
-    }),
-  }) as Context;
+  return buildContext(state, settings, metrics, fps, rect.width, rect.height);
 }
 
 // Disables selection for an HTML element
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { asciify } from "./asciify";
+import Canvas from "./canvas";
+import type { RGB } from "./color";
+import GlyphShapes from "./glyphshape";
+import type { AsciifyOptions, Buffer } from "./types";
+
+// A canvas element with a 2d context which only stores image data
+class FakeCanvas {
+  width = 0;
+  height = 0;
+  getContext() {
+    let stored: ImageData;
+    return {
+      createImageData: (w: number, h: number) => ({
+        width: w,
+        height: h,
+        data: new Uint8ClampedArray(w * h * 4),
+      }),
+      putImageData: (data: ImageData) => (stored = data),
+      getImageData: () => stored,
+    };
+  }
+}
+
+beforeAll(() => {
+  Object.assign(globalThis, {
+    document: { createElement: () => new FakeCanvas() },
+  });
+});
+
+afterAll(() => {
+  delete (globalThis as any).document;
+});
+
+// A Canvas wrapper with the pixels of an image:
+// one string per row, one gray value (0-9) per pixel
+function image(rows: string[]) {
+  const canvas = new Canvas().resize(rows[0]!.length, rows.length);
+  canvas.pixels = rows.flatMap((row) =>
+    [...row].map((digit) => gray(Number(digit) / 9))
+  );
+  return canvas;
+}
+
+function gray(v: number): RGB {
+  const c = Math.round(v * 255);
+  return { r: c, g: c, b: c, a: 1, v };
+}
+
+// Runs asciify() on an image, returns the chars of each row
+function chars(source: Canvas, options: Partial<AsciifyOptions> = {}) {
+  const cols = source.width;
+  const rows = source.height;
+  const buffer: Buffer = [];
+  asciify(source, options, buffer, cols, rows);
+  const out: string[] = [];
+  for (let j = 0; j < rows; j++) {
+    out.push(
+      buffer
+        .slice(j * cols, (j + 1) * cols)
+        .map((cell) => cell.char)
+        .join("")
+    );
+  }
+  return out;
+}
+
+const DITHERS = ["ordered", "floyd-steinberg", "atkinson"] as const;
+
+const count = (rows: string[], char: string) =>
+  rows.join("").split(char).length - 1;
+
+describe("asciify", () => {
+  test("maps the gray values to the chars of the ramp", () => {
+    expect(chars(image(["0123456789"]))).toEqual([" .:-=+*#%@"]);
+    expect(chars(image(["09"]), { invert: true })).toEqual(["@ "]);
+    expect(chars(image(["0369"]), { ramp: "ab" })).toEqual(["aabb"]);
+  });
+
+  test("samples a source of another size", () => {
+    const source = image(["00", "99"]);
+    const buffer: Buffer = [];
+    asciify(source, { ramp: " #" }, buffer, 1, 4);
+    expect(buffer.map((cell) => cell.char)).toEqual([" ", " ", "#", "#"]);
+  });
+
+  test("dithers the gray values", () => {
+    const flat = new Canvas().resize(4, 4);
+    flat.pixels = new Array(16).fill(gray(0.5));
+    // Without dithering the values are rounded
+    expect(count(chars(flat, { ramp: " #" }), "#")).toBe(16);
+    // Half of the cells of a mid gray are drawn
+    for (const dither of DITHERS) {
+      expect(count(chars(flat, { ramp: " #", dither }), "#")).toBe(8);
+    }
+  });
+
+  test("keeps black and white when dithering", () => {
+    const source = image(["0909", "9090"]);
+    for (const dither of DITHERS) {
+      const out = chars(source, { ramp: " #", dither });
+      expect(out).toEqual([" # #", "# # "]);
+    }
+  });
+
+  test("draws the edges with line chars", () => {
+    const out = chars(image(["00099", "00099", "00099"]), {
+      ramp: " #",
+      edges: true,
+    });
+    expect(out).toEqual(["  ||#", "  ||#", "  ||#"]);
+    const flat = image(["00000", "99999"]);
+    expect(chars(flat, { ramp: " #", edges: true })).toEqual([
+      "-----",
+      "-----",
+    ]);
+  });
+
+  test("colors the cells", () => {
+    const source = new Canvas().resize(2, 1);
+    source.pixels = [
+      { r: 250, g: 10, b: 10 },
+      { r: 20, g: 20.4, b: 30 },
+    ];
+    const buffer: Buffer = [];
+    asciify(source, { colorMode: "truecolor" }, buffer, 2, 1);
+    expect(buffer.map((cell) => cell.color)).toEqual([
+      "rgb(250,10,10)",
+      "rgb(20,20,30)",
+    ]);
+    const palette = [
+      { r: 0, g: 0, b: 0 },
+      { r: 255, g: 0, b: 0 },
+    ];
+    const options: Partial<AsciifyOptions> = {
+      colorMode: "palette",
+      colorProperty: "backgroundColor",
+      palette,
+    };
+    asciify(source, options, buffer, 2, 1);
+    expect(buffer.map((cell) => cell.backgroundColor)).toEqual([
+      "rgb(255,0,0)",
+      "rgb(0,0,0)",
+    ]);
+    expect(buffer.map((cell) => cell.color)).toEqual([undefined, undefined]);
+  });
+
+  test("matches the blocks of pixels to the shapes of the glyphs", () => {
+    const shapes = new GlyphShapes([" ", "/", "_"], 2, 2, [
+      [0, 0, 0, 0],
+      [0, 1, 1, 0],
+      [0, 0, 1, 1],
+    ]);
+    // A block of 2×2 pixels for each cell
+    const source = image(["0900", "9099"]);
+    const buffer: Buffer = [];
+    asciify(source, { shapes, colorMode: "truecolor" }, buffer, 2, 1);
+    expect(buffer.map((cell) => cell.char)).toEqual(["/", "_"]);
+    // The average color of the block
+    expect(buffer[0]!.color).toBe("rgb(128,128,128)");
+  });
+});
@@ -0,0 +1,297 @@
+/**
+@module   asciify
+@desc     Converts images to chars
+@category public
+
+Maps an image to the cells of a buffer, one pixel per cell:
+
+asciify(cam, { aspect: context.metrics.aspect }, buffer, cols, rows)
+
+The source can be a Canvas wrapper (see canvas), used as is (and sampled
+if its size differs from the size of the buffer), or an image, a video
+or a canvas element, which covers the buffer.
+
+The gray value of each pixel selects a char of a ramp (from the darkest
+to the brightest). If a fontFamily is passed the ramp is sorted by
+brightness first (see sort, needs a DOM; the result is cached).
+Options (all optional):
+- dither: 'none', 'floyd-steinberg', 'ordered' or 'atkinson'
+- edges: the edges are drawn with line chars instead of the ramp
+- colorMode: 'mono' (no color), 'palette' (the nearest color of a palette,
+  see color) or 'truecolor'
+- colorProperty: the colored property of the cells, 'color' or
+  'backgroundColor'
+- shapes: the chars are matched by shape (see glyphshape) instead of
+  brightness: each cell is a block of pixels (of the size of the
+  descriptors), the ramp, dither and edges options are ignored
+The cells of the target are overwritten.
+*/
+
+import { set } from "./buffer";
+import Canvas, { type Source } from "./canvas";
+import { CGA, rgb2css, rgb2gray, type RGB } from "./color";
+import { sort } from "./sort";
+import type { AnyBuffer, AsciifyOptions, Cell } from "./types";
+
+const defaultOptions: AsciifyOptions = {
+  ramp: " .:-=+*#%@",
+  fontFamily: "",
+  dither: "none",
+  edges: false,
+  edgeThreshold: 0.3,
+  colorMode: "mono",
+  palette: CGA,
+  colorProperty: "color",
+  aspect: 1,
+  invert: false,
+  shapes: null,
+};
+
+// Edge chars, by direction of the edge
+const EDGES = ["-", "\\", "|", "/"];
+
+// 4×4 Bayer matrix for ordered dithering
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Created on first use, to draw image sources
+let canvas: Canvas | null = null;
+
+// Sorted ramps, by font
+const ramps: Map<string, string[]> = new Map();
+
+export function asciify(
+  source: Canvas | Source,
+  options: Partial<AsciifyOptions>,
+  target: AnyBuffer,
+  targetCols: number,
+  targetRows: number
+) {
+  const o = { ...defaultOptions, ...options };
+  if (o.shapes) {
+    matchShapes(source, o, target, targetCols, targetRows);
+    return;
+  }
+  const cols = targetCols;
+  const rows = targetRows;
+  const pixels = readPixels(source, cols, rows, o.aspect);
+  const ramp = getRamp(o.ramp, o.fontFamily);
+  if (ramp.length == 0) return;
+
+  const gray = new Float32Array(cols * rows);
+  for (let i = 0; i < gray.length; i++) {
+    const p = pixels[i]!;
+    const v = p.v ?? rgb2gray(p);
+    gray[i] = o.invert ? 1 - v : v;
+  }
+
+  const levels = dither(gray, cols, rows, ramp.length, o.dither);
+  const edges = o.edges
+    ? detectEdges(gray, cols, rows, o.edgeThreshold)
+    : null;
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const idx = i + j * cols;
+      const edge = edges ? edges[idx]! : -1;
+      const char = edge >= 0 ? EDGES[edge]! : ramp[levels[idx]!]!;
+      const cell = toCell(char, pixels[idx]!, o);
+      set(cell, i, j, target, targetCols, targetRows);
+    }
+  }
+}
+
+// Each cell is matched to the glyph with the closest shape
+function matchShapes(
+  source: Canvas | Source,
+  o: AsciifyOptions,
+  target: AnyBuffer,
+  targetCols: number,
+  targetRows: number
+) {
+  const shapes = o.shapes!;
+  const sc = shapes.cols;
+  const sr = shapes.rows;
+  const w = targetCols * sc;
+  // The pixels are not square anymore
+  const aspect = (o.aspect * sr) / sc;
+  const pixels = readPixels(source, w, targetRows * sr, aspect);
+  const block = new Float32Array(sc * sr);
+  for (let j = 0; j < targetRows; j++) {
+    for (let i = 0; i < targetCols; i++) {
+      // Gray values and average color of the block
+      const avg = { r: 0, g: 0, b: 0 };
+      for (let by = 0; by < sr; by++) {
+        for (let bx = 0; bx < sc; bx++) {
+          const p = pixels[i * sc + bx + (j * sr + by) * w]!;
+          const v = p.v ?? rgb2gray(p);
+          block[bx + by * sc] = o.invert ? 1 - v : v;
+          avg.r += p.r / block.length;
+          avg.g += p.g / block.length;
+          avg.b += p.b / block.length;
+        }
+      }
+      const cell = toCell(shapes.match(block), avg, o);
+      set(cell, i, j, target, targetCols, targetRows);
+    }
+  }
+}
+
+// A cell with the color of the pixel (depending on the color mode)
+function toCell(char: string, pixel: RGB, o: AsciifyOptions) {
+  const cell: Cell = { char };
+  if (o.colorMode == "truecolor") {
+    cell[o.colorProperty] = rgb2css(opaque(pixel));
+  } else if (o.colorMode == "palette") {
+    cell[o.colorProperty] = rgb2css(opaque(nearest(pixel, o.palette)));
+  }
+  return cell;
+}
+
+// Returns the pixels of the source, one for each cell
+function readPixels(
+  source: Canvas | Source,
+  cols: number,
+  rows: number,
+  aspect: number
+): RGB[] {
+  if (source instanceof Canvas) {
+    if (source.width == cols && source.height == rows) return source.pixels;
+    const out: RGB[] = [];
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        out.push(source.sample((i + 0.5) / cols, (j + 0.5) / rows) as RGB);
+      }
+    }
+    return out;
+  }
+  canvas = canvas || new Canvas();
+  return canvas.resize(cols, rows).cover(source, aspect).pixels;
+}
+
+function getRamp(ramp: string, fontFamily: string) {
+  const key = fontFamily + "\n" + ramp;
+  let out = ramps.get(key);
+  if (!out) {
+    const sorted = fontFamily ? sort(ramp, fontFamily, true) : ramp;
+    out = Array.from(sorted);
+    ramps.set(key, out);
+  }
+  return out;
+}
+
+// Quantizes the gray values (0-1) to n levels
+function dither(
+  gray: Float32Array,
+  cols: number,
+  rows: number,
+  n: number,
+  mode: AsciifyOptions["dither"]
+) {
+  const max = n - 1;
+  const levels = new Uint16Array(gray.length);
+  const quantize = (v: number) => Math.max(0, Math.min(max, Math.round(v)));
+
+  if (mode == "ordered") {
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        const t = BAYER[(j % 4) * 4 + (i % 4)]! / 16 - 0.5 + 1 / 32;
+        levels[i + j * cols] = quantize(gray[i + j * cols]! * max + t);
+      }
+    }
+    return levels;
+  }
+
+  // Error diffusion: [dx, dy, weight]
+  let kernel: number[][] = [];
+  if (mode == "floyd-steinberg") {
+    kernel = [
+      [1, 0, 7 / 16],
+      [-1, 1, 3 / 16],
+      [0, 1, 5 / 16],
+      [1, 1, 1 / 16],
+    ];
+  } else if (mode == "atkinson") {
+    // Only 3/4 of the error is diffused
+    kernel = [
+      [1, 0, 1 / 8],
+      [2, 0, 1 / 8],
+      [-1, 1, 1 / 8],
+      [0, 1, 1 / 8],
+      [1, 1, 1 / 8],
+      [0, 2, 1 / 8],
+    ];
+  }
+  const values = gray.map((v) => v * max);
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const idx = i + j * cols;
+      const level = quantize(values[idx]!);
+      levels[idx] = level;
+      const err = values[idx]! - level;
+      for (const [dx, dy, w] of kernel) {
+        const x = i + dx!;
+        const y = j + dy!;
+        if (x < 0 || x >= cols || y >= rows) continue;
+        const k = x + y * cols;
+        values[k] = values[k]! + err * w!;
+      }
+    }
+  }
+  return levels;
+}
+
+// Sobel filter: returns the direction of the edge of each pixel
+// (an index of EDGES) or -1
+function detectEdges(
+  gray: Float32Array,
+  cols: number,
+  rows: number,
+  threshold: number
+) {
+  const out = new Int8Array(gray.length).fill(-1);
+  const v = (x: number, y: number) =>
+    gray[
+      Math.max(0, Math.min(cols - 1, x)) +
+        Math.max(0, Math.min(rows - 1, y)) * cols
+    ]!;
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const gx =
+        v(i + 1, j - 1) + 2 * v(i + 1, j) + v(i + 1, j + 1) -
+        v(i - 1, j - 1) - 2 * v(i - 1, j) - v(i - 1, j + 1);
+      const gy =
+        v(i - 1, j + 1) + 2 * v(i, j + 1) + v(i + 1, j + 1) -
+        v(i - 1, j - 1) - 2 * v(i, j - 1) - v(i + 1, j - 1);
+      // The maximum magnitude is 4 (per axis)
+      if (Math.hypot(gx, gy) / 4 < threshold) continue;
+      // The edge is perpendicular to the gradient
+      const angle = Math.atan2(gy, gx) + Math.PI / 2;
+      const dir = Math.round(angle / (Math.PI / 4));
+      out[i + j * cols] = ((dir % 4) + 4) % 4;
+    }
+  }
+  return out;
+}
+
+// Nearest color of a palette (‘redmean’ distance, as in canvas)
+function nearest(c: RGB, palette: RGB[]) {
+  let out = c;
+  let min = Infinity;
+  for (const p of palette) {
+    const r = (c.r + p.r) * 0.5;
+    const d =
+      (2 + r / 256) * (c.r - p.r) ** 2 +
+      4 * (c.g - p.g) ** 2 +
+      (2 + (255 - r) / 256) * (c.b - p.b) ** 2;
+    if (d < min) {
+      min = d;
+      out = p;
+    }
+  }
+  return out;
+}
+
+// Rounded and opaque, for CSS
+function opaque(c: RGB): RGB {
+  return { r: Math.round(c.r), g: Math.round(c.g), b: Math.round(c.b) };
+}
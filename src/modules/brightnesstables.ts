@@ -0,0 +1,26 @@
+/**
+@module   brightnesstables
+@desc     Precomputed brightness tables of some monospace fonts
+@category internal
+
+Generated by script/build-brightness-tables.ts, don’t edit by hand:
+bun run build:brightness
+Not imported by sort, so not bundled with it: the tables of the fonts
+used by a program are added with addTable(), the other fonts are measured
+with a canvas (the default font, Simple Console, has no table).
+
+import tables from 'glyph-engine/brightnesstables'
+tables.forEach(sort.addTable)
+*/
+
+import type { BrightnessTable } from "./types";
+
+const tables: BrightnessTable[] = [
+  {"fontFamily":"IBM Plex Mono","size":30,"values":{"0":0.043049,"1":0.0309847,"2":0.0342233,"3":0.0342004,"4":0.035207,"5":0.0359314,"6":0.0350425,"7":0.0284292,"8":0.0446242,"9":0.0351231," ":0,"!":0.0152854,"\"":0.0126525,"#":0.0392821,"$":0.051146,"%":0.0446492,"&":0.0413932,"'":0.0067843,"(":0.0198693,")":0.0198943,"*":0.0253159,"+":0.0191852,",":0.0081514,"-":0.0071068,".":0.0050229,"/":0.0193987,":":0.0100806,";":0.0132092,"<":0.020658,"=":0.018732,">":0.0206688,"?":0.0250599,"@":0.0484739,"A":0.037219,"B":0.0478333,"C":0.0304444,"D":0.042402,"E":0.0391176,"F":0.0317451,"G":0.0392135,"H":0.0377865,"I":0.0306275,"J":0.0292331,"K":0.0397179,"L":0.0246634,"M":0.0451819,"N":0.0458388,"O":0.0396993,"P":0.036695,"Q":0.0460566,"R":0.0444641,"S":0.0369651,"T":0.0277211,"U":0.0355076,"V":0.0330272,"W":0.0491939,"X":0.0354412,"Y":0.0284085,"Z":0.0353747,"[":0.0254499,"\\":0.0193976,"]":0.0254499,"^":0.01872,"_":0.0105512,"`":0.0041993,"a":0.033012,"b":0.038622,"c":0.0240599,"d":0.0386318,"e":0.0314281,"f":0.0351471,"g":0.0466362,"h":0.0342386,"i":0.0267854,"j":0.0290817,"k":0.0336285,"l":0.0281972,"m":0.0388322,"n":0.029402,"o":0.0293584,"p":0.038622,"q":0.0386318,"r":0.0269183,"s":0.0290545,"t":0.0272702,"u":0.02939,"v":0.02328,"w":0.0383671,"x":0.0267571,"y":0.0298072,"z":0.0271841,"{":0.0278464,"|":0.0185882,"}":0.0278224,"~":0.0145566,"░":0.0427124,"▒":0.0895948,"▓":0.1746383,"█":0.1971765,"▀":0.0986863,"▄":0.0986863,"▌":0.0985882,"▐":0.0985882,"▁":0.026451,"▂":0.0504902,"▃":0.0751765,"▅":0.1233725,"▆":0.1478039,"▇":0.1725294,"▖":0.0493431,"▗":0.0493431,"▘":0.0493431,"▙":0.1480294,"▚":0.0986863,"▛":0.1480294,"▜":0.1480294,"▝":0.0493431,"▞":0.0986863,"▟":0.1480294,"■":0.0423747,"□":0.0423747,"▪":0.0423747,"▫":0.0423747,"●":0.0423747,"○":0.0423747,"◆":0.0423747,"◇":0.0423747,"─":0.0127407,"│":0.0247996,"┌":0.0187669,"┐":0.0187669,"└":0.0187669,"┘":0.0187669,"├":0.0308279,"┤":0.0308279,"┬":0.0244096,"┴":0.0244096,"┼":0.0368562,"═":0.0255425,"║":0.0498061,"╔":0.037671,"╗":0.037671,"╚":0.037671,"╝":0.037671,"╭":0.0170545,"╮":0.0170664,"╯":0.0170545,"╰":0.0170447,"╱":0.024817,"╲":0.0248192,"╳":0.0476198,"·":0.0050163,"•":0.0133802,"∙":0.0050381,"°":0.0168007,"¯":0.0056688,"×":0.0211187,"÷":0.016719,"±":0.0279978,"¿":0.026085,"¡":0.0154597,"Ñ":0.0524717,"Ç":0.0369717}},
+  {"fontFamily":"JetBrains Mono","size":30,"values":{"0":0.045585,"1":0.0337277,"2":0.0369139,"3":0.0377908,"4":0.0313497,"5":0.0404336,"6":0.0372636,"7":0.0316765,"8":0.0460534,"9":0.0375163," ":0,"!":0.0182135,"\"":0.0165305,"#":0.0415109,"$":0.0530882,"%":0.0491307,"&":0.0464521,"'":0.0083126,"(":0.0288617,")":0.028866,"*":0.028549,"+":0.0212593,",":0.0096122,"-":0.0073094,".":0.0062516,"/":0.0261318,":":0.0117342,";":0.0159935,"<":0.0218943,"=":0.0200174,">":0.0218889,"?":0.0252702,"@":0.056976,"A":0.0397647,"B":0.0507636,"C":0.0360229,"D":0.0460839,"E":0.0390795,"F":0.0341166,"G":0.0437658,"H":0.0442309,"I":0.0330566,"J":0.0311264,"K":0.0427309,"L":0.0266612,"M":0.0487081,"N":0.0527397,"O":0.043939,"P":0.0400697,"Q":0.0487211,"R":0.0478889,"S":0.0392887,"T":0.0289281,"U":0.0417451,"V":0.0364325,"W":0.0569401,"X":0.0387625,"Y":0.0304368,"Z":0.0353736,"[":0.0299728,"\\":0.0261394,"]":0.0299728,"^":0.0175686,"_":0.0106122,"`":0.0044956,"a":0.0379346,"b":0.0424553,"c":0.0304641,"d":0.0424346,"e":0.0357157,"f":0.0326808,"g":0.0458627,"h":0.0386776,"i":0.0316471,"j":0.0337941,"k":0.038293,"l":0.0285719,"m":0.0440556,"n":0.0342538,"o":0.0350425,"p":0.0424303,"q":0.0423126,"r":0.02411,"s":0.0339118,"t":0.0303224,"u":0.0324815,"v":0.0288105,"w":0.0412113,"x":0.0313519,"y":0.0318769,"z":0.0309597,"{":0.033329,"|":0.025915,"}":0.0334129,"~":0.0161819,"░":0.0668682,"▒":0.1259542,"▓":0.1646198,"█":0.1989804,"▀":0.1006078,"▄":0.0995294,"▌":0.0994902,"▐":0.0994902,"▁":0.0249216,"▂":0.0498039,"▃":0.0746471,"▅":0.1244118,"▆":0.1492941,"▇":0.1741569,"▖":0.0497647,"▗":0.0497647,"▘":0.0503039,"▙":0.1492549,"▚":0.1004804,"▛":0.1498333,"▜":0.1530686,"▝":0.0503039,"▞":0.1004804,"▟":0.1492549,"■":0.091098,"□":0.0324357,"▪":0.0242963,"▫":0.0152941,"●":0.0793083,"○":0.042085,"◆":0.0511155,"◇":0.0263344,"─":0.0183845,"│":0.0436972,"┌":0.0312375,"┐":0.0312266,"└":0.0308475,"┘":0.0308224,"├":0.0514368,"┤":0.0514292,"┬":0.038793,"┴":0.0384107,"┼":0.0591688,"═":0.0367691,"║":0.0853486,"╔":0.0613715,"╗":0.0611275,"╚":0.0606144,"╝":0.0603279,"╭":0.0283268,"╮":0.0281122,"╯":0.0275109,"╰":0.0276863,"╱":0.0307353,"╲":0.0307211,"╳":0.0585904,"·":0.0062832,"•":0.0129063,"∙":0.0063627,"°":0.0135545,"¯":0.0069978,"×":0.0196296,"÷":0.0202495,"±":0.0311917,"¿":0.0252124,"¡":0.0182397,"Ñ":0.0605272,"Ç":0.042915}},
+  {"fontFamily":"Fira Code","size":30,"values":{"0":0.0476558,"1":0.0302974,"2":0.0328453,"3":0.033098,"4":0.0306503,"5":0.034902,"6":0.0399935,"7":0.0255414,"8":0.0454553,"9":0.0401122," ":0,"!":0.0172516,"\"":0.0143497,"#":0.0433028,"$":0.0532026,"%":0.0503682,"&":0.0416906,"'":0.0077756,"(":0.0267473,")":0.0266089,"*":0.0279096,"+":0.0207233,",":0.0117974,"-":0.0092963,".":0.0074651,"/":0.0234739,":":0.0126318,";":0.0182092,"<":0.0219913,"=":0.0171852,">":0.0219869,"?":0.0239782,"@":0.0586013,"A":0.0407723,"B":0.0503486,"C":0.0320719,"D":0.0445893,"E":0.0381405,"F":0.0297658,"G":0.0431242,"H":0.0409771,"I":0.032573,"J":0.028537,"K":0.0406198,"L":0.0261329,"M":0.0578998,"N":0.0496253,"O":0.0430076,"P":0.0375643,"Q":0.0488922,"R":0.0467582,"S":0.0379891,"T":0.0289488,"U":0.0384041,"V":0.0353954,"W":0.058915,"X":0.0379989,"Y":0.0305283,"Z":0.0352429,"[":0.0301885,"\\":0.0234684,"]":0.03011,"^":0.0160044,"_":0.0113747,"`":0.0051841,"a":0.035061,"b":0.0425044,"c":0.0255458,"d":0.0422603,"e":0.0329891,"f":0.0302222,"g":0.0505675,"h":0.0389281,"i":0.0272146,"j":0.0304804,"k":0.0368562,"l":0.0271667,"m":0.0435523,"n":0.0329978,"o":0.0328257,"p":0.041902,"q":0.0417582,"r":0.0279771,"s":0.0298486,"t":0.0269488,"u":0.0328257,"v":0.0266645,"w":0.0441972,"x":0.0295893,"y":0.0335207,"z":0.0285011,"{":0.0307549,"|":0.0230294,"}":0.0308224,"~":0.0131765,"░":0.0690392,"▒":0.1282473,"▓":0.1628845,"█":0.1966797,"▀":0.0990065,"▄":0.1007211,"▌":0.0984608,"▐":0.1004684,"▁":0.0265545,"▂":0.0509564,"▃":0.0748072,"▅":0.1236057,"▆":0.1484684,"▇":0.1736525,"▖":0.0504227,"▗":0.0514379,"▘":0.0495632,"▙":0.1492505,"▚":0.1002745,"▛":0.1485305,"▜":0.1490501,"▝":0.0505806,"▞":0.100512,"▟":0.1497157,"■":0.0801721,"□":0.0448366,"▪":0.0212364,"▫":0.0184553,"●":0.0628214,"○":0.0353845,"◆":0.0409292,"◇":0.0295795,"─":0.0145468,"│":0.0392734,"┌":0.0294804,"┐":0.0294837,"└":0.0243834,"┘":0.0243856,"├":0.0460752,"┤":0.0460817,"┬":0.0354259,"┴":0.0303889,"┼":0.0525915,"═":0.0291144,"║":0.0708072,"╔":0.0550087,"╗":0.0550131,"╚":0.0450545,"╝":0.045061,"╭":0.0271002,"╮":0.0270839,"╯":0.0270261,"╰":0.027049,"╱":0.0333312,"╲":0.0333301,"╳":0.0621046,"·":0.0074858,"•":0.0138573,"∙":0.0072952,"°":0.0169586,"¯":0.0053475,"×":0.0184717,"÷":0.0169826,"±":0.0245991,"¿":0.0241198,"¡":0.0172179,"Ñ":0.0567211,"Ç":0.039659}},
+  {"fontFamily":"Source Code Pro","size":30,"values":{"0":0.0377821,"1":0.0234935,"2":0.0290316,"3":0.0310861,"4":0.0299423,"5":0.0329139,"6":0.0356285,"7":0.0226612,"8":0.0376601,"9":0.035622," ":0,"!":0.0140403,"\"":0.0178159,"#":0.0310338,"$":0.0336841,"%":0.037158,"&":0.0411656,"'":0.0089651,"(":0.0209357,")":0.0208834,"*":0.0184357,"+":0.0138039,",":0.0112179,"-":0.007244,".":0.0062026,"/":0.0190893,":":0.0124063,";":0.0174194,"<":0.0169739,"=":0.0144575,">":0.0169662,"?":0.0205185,"@":0.0430664,"A":0.0335479,"B":0.0439989,"C":0.0286057,"D":0.0401035,"E":0.0340447,"F":0.0275261,"G":0.0363845,"H":0.0362658,"I":0.0300654,"J":0.0267985,"K":0.0374913,"L":0.021659,"M":0.0454913,"N":0.0428007,"O":0.0384161,"P":0.0323649,"Q":0.0451122,"R":0.0390098,"S":0.0329336,"T":0.0255033,"U":0.0336732,"V":0.0302168,"W":0.0491503,"X":0.0321068,"Y":0.0261917,"Z":0.031744,"[":0.0242113,"\\":0.019085,"]":0.0242113,"^":0.0150839,"_":0.010024,"`":0.0048802,"a":0.0312331,"b":0.0372919,"c":0.0234183,"d":0.037244,"e":0.0303246,"f":0.0253617,"g":0.043463,"h":0.0334129,"i":0.0193627,"j":0.0278638,"k":0.0321983,"l":0.0222919,"m":0.0387092,"n":0.0280882,"o":0.029244,"p":0.0373007,"q":0.0372723,"r":0.0181427,"s":0.0265643,"t":0.0251405,"u":0.0280599,"v":0.0221688,"w":0.038671,"x":0.0245251,"y":0.0279292,"z":0.0260098,"{":0.0240806,"|":0.0227451,"}":0.0239074,"~":0.0091068,"░":0.042,"▒":0.0901307,"▓":0.1787745,"█":0.21,"▀":0.105,"▄":0.105,"▌":0.105,"▐":0.105,"▁":0.0276863,"▂":0.0536863,"▃":0.0794118,"▅":0.1326863,"▆":0.1586863,"▇":0.1844118,"▖":0.0525,"▗":0.0525,"▘":0.0525,"▙":0.1575,"▚":0.105,"▛":0.1575,"▜":0.1575,"▝":0.0525,"▞":0.105,"▟":0.1575,"■":0.0484706,"□":0.0235174,"▪":0.0188105,"▫":0.0152505,"●":0.0424314,"○":0.0214434,"◆":0.0384935,"◇":0.0565174,"─":0.0168235,"│":0.0338562,"┌":0.025305,"┐":0.025305,"└":0.025305,"┘":0.025305,"├":0.0410414,"┤":0.0410414,"┬":0.0325251,"┴":0.0325251,"┼":0.0482266,"═":0.0306318,"║":0.0617647,"╔":0.0458791,"╗":0.0458791,"╚":0.0458791,"╝":0.0458791,"╭":0.0215512,"╮":0.0215708,"╯":0.0215512,"╰":0.0215261,"╱":0.0295011,"╲":0.0295087,"╳":0.056329,"·":0.0062015,"•":0.0188039,"∙":0.0061786,"°":0.0097571,"¯":0.0041416,"×":0.0183453,"÷":0.0129782,"±":0.0205861,"¿":0.02128,"¡":0.0141285,"Ñ":0.0505828,"Ç":0.0342505}},
+  {"fontFamily":"DejaVu Sans Mono","size":30,"values":{"0":0.0473137,"1":0.0319499,"2":0.0362767,"3":0.0379139,"4":0.039829,"5":0.0388638,"6":0.0452876,"7":0.0286732,"8":0.0491329,"9":0.0446885," ":0,"!":0.0178246,"\"":0.0142636,"#":0.0490697,"$":0.0453399,"%":0.0389161,"&":0.0452941,"'":0.0073791,"(":0.0233584,")":0.0233834,"*":0.0204847,"+":0.022988,",":0.0089401,"-":0.0058551,".":0.0050959,"/":0.0225044,":":0.0101819,";":0.0140261,"<":0.0243932,"=":0.0241166,">":0.0244041,"?":0.0250654,"@":0.0569205,"A":0.0435316,"B":0.0546329,"C":0.0324826,"D":0.0461776,"E":0.0432048,"F":0.0355218,"G":0.0430109,"H":0.0442571,"I":0.0350283,"J":0.0298028,"K":0.0441253,"L":0.028232,"M":0.0531394,"N":0.0523704,"O":0.0453758,"P":0.0411961,"Q":0.0490904,"R":0.0488965,"S":0.0388508,"T":0.031622,"U":0.0425959,"V":0.0377582,"W":0.0542473,"X":0.0403878,"Y":0.0314869,"Z":0.0391296,"[":0.028841,"\\":0.0225098,"]":0.0290054,"^":0.0152179,"_":0.0074608,"`":0.0049314,"a":0.0388399,"b":0.0439216,"c":0.0259793,"d":0.044158,"e":0.0370686,"f":0.0285675,"g":0.0485632,"h":0.0395763,"i":0.0274586,"j":0.030049,"k":0.0398519,"l":0.0265327,"m":0.0450054,"n":0.0342756,"o":0.0346656,"p":0.0440773,"q":0.0437473,"r":0.0216198,"s":0.0301416,"t":0.028183,"u":0.0341253,"v":0.0287168,"w":0.0392712,"x":0.0306601,"y":0.0351612,"z":0.0292516,"{":0.0315142,"|":0.0263802,"}":0.0312854,"~":0.0127898,"░":0.0412821,"▒":0.1012331,"▓":0.1549641,"█":0.1910959,"▀":0.0961285,"▄":0.0965305,"▌":0.0978322,"▐":0.0963203,"▁":0.0267789,"▂":0.0501166,"▃":0.0726885,"▅":0.1195044,"▆":0.1432135,"▇":0.1665545,"▖":0.0494063,"▗":0.0487179,"▘":0.0492092,"▙":0.1450545,"▚":0.097342,"▛":0.1453954,"▜":0.1447048,"▝":0.0485131,"▞":0.0973693,"▟":0.1443856,"■":0.0905414,"□":0.034012,"▪":0.0392168,"▫":0.0213224,"●":0.0731558,"○":0.0305403,"◆":0.0471786,"◇":0.0278224,"─":0.014659,"│":0.0290196,"┌":0.0219793,"┐":0.0219989,"└":0.0218573,"┘":0.0218747,"├":0.0356765,"┤":0.0356928,"┬":0.0270131,"┴":0.0269031,"┼":0.040037,"═":0.0312614,"║":0.0529826,"╔":0.0420403,"╗":0.0420403,"╚":0.0421471,"╝":0.0421471,"╭":0.0205675,"╮":0.0205686,"╯":0.0204902,"╰":0.020476,"╱":0.0300447,"╲":0.0300479,"╳":0.0575447,"·":0.0051068,"•":0.0182821,"∙":0.0180708,"°":0.0143758,"¯":0.0064292,"×":0.0252832,"÷":0.0200991,"±":0.0322582,"¿":0.0255697,"¡":0.0177505,"Ñ":0.0591427,"Ç":0.0385087}},
+];
+
+export default tables;
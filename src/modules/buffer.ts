@@ -11,15 +11,29 @@ the array.
 
 const v = get(10, 10, buffer, cols, rows)
 
+All the helpers work with typed buffers (see cellbuffer) as well.
+The cells written by set() and merge() (and by the other helpers)
+are marked as dirty (see dirty).
+
+mergeText() splits the text into graphemes: wide chars (CJK, emoji)
+take two cells, the second one is a continuation cell (see string).
+With markup: true the text can be styled inline (see markup).
+
 */
 
-import type { Buffer, Cell } from "./types";
+import CellBuffer from "./cellbuffer";
+import { markDirty } from "./dirty";
+import { parse } from "./markup";
+import { CONTINUATION, columns } from "./string";
+import type { AnyBuffer, Cell } from "./types";
 
 // Safe get function to read from a buffer
-export function get(  x: number,  y: number,  target: Buffer,  targetCols: number,  targetRows: number): Cell | {} {
+export function get(  x: number,  y: number,  target: AnyBuffer,  targetCols: number,  targetRows: number): Cell | {} {
     if (x < 0 || x >= targetCols) return {}
 	if (y < 0 || y >= targetRows) return {}
 	const i = x + y * targetCols
+	// Typed buffers return a copy of the cell
+	if (target instanceof CellBuffer) return target.get(i)
 	return target[i]!
 }
 
@@ -29,25 +43,34 @@ export function get(  x: number,  y: number,  target: Buffer,  targetCols: numbe
 // The value to be set is a single character or a 'cell' object like:
 // { char, color, backgroundColor, fontWeight }
 // which can overwrite the buffer (set) or partially merged (merge)
-export function set(  val: any,  x: number,  y: number,  target: Buffer,  targetCols: number = 0,  targetRows: number = 0) {
+export function set(  val: any,  x: number,  y: number,  target: AnyBuffer,  targetCols: number = 0,  targetRows: number = 0) {
     if (x < 0 || x >= targetCols) return 
 	if (y < 0 || y >= targetRows) return
 	const i = x + y * targetCols
-	target[i] = val
+	if (target instanceof CellBuffer) target.set(i, val)
+	else target[i] = val
+	markDirty(target, i)
 }
 
-export function merge(  val: any,  x: number,  y: number,  target: Buffer,  targetCols: number,  targetRows: number) {
+export function merge(  val: any,  x: number,  y: number,  target: AnyBuffer,  targetCols: number,  targetRows: number) {
     if (x < 0 || x >= targetCols) return
 	if (y < 0 || y >= targetRows) return
 	const i = x + y * targetCols
 
+	markDirty(target, i)
+
+	if (target instanceof CellBuffer) {
+		target.merge(i, val)
+		return
+	}
+
 	// Flatten:
 	const cell = typeof target[i] == 'object' ? target[i] : { char : target[i] }
 
 	target[i] = { ...cell, ...val }
 }
 
-export function setRect(  val: any,  x: number,  y: number,  w: number,  h: number,  target: Buffer,  targetCols?: number,  targetRows?: number) {
+export function setRect(  val: any,  x: number,  y: number,  w: number,  h: number,  target: AnyBuffer,  targetCols?: number,  targetRows?: number) {
     for (let j=y; j<y+h; j++ ) {
 		for (let i=x; i<x+w; i++ ) {
 			set(val, i, j, target, targetCols, targetRows)
@@ -55,7 +78,7 @@ export function setRect(  val: any,  x: number,  y: number,  w: number,  h: numb
 	}
 }
 
-export function mergeRect(  val: any,  x: number,  y: number,  w: number,  h: number,  target: Buffer,  targetCols: number,  targetRows: number) {
+export function mergeRect(  val: any,  x: number,  y: number,  w: number,  h: number,  target: AnyBuffer,  targetCols: number,  targetRows: number) {
     for (let j=y; j<y+h; j++ ) {
 		for (let i=x; i<x+w; i++ ) {
 			merge(val, i, j, target, targetCols, targetRows)
@@ -72,15 +95,19 @@ export function mergeRect(  val: any,  x: number,  y: number,  w: number,  h: nu
 //      etc...
 //	}
 // or just as a string into the target buffer.
-export function mergeText(  textObj: any,  x: number,  y: number,  target: Buffer,  targetCols: number = 0,  targetRows: number = 0) {
-    let text: string, mergeObj: Record<string, any>
+// With markup : true in the textObj, the inline styles of the text
+// override the fields (see markup).
+export function mergeText(  textObj: any,  x: number,  y: number,  target: AnyBuffer,  targetCols: number = 0,  targetRows: number = 0) {
+    let text: string, mergeObj: Record<string, any> = {}, markup = false
 	// An object has been passed as argument, expect a 'text' field
 	if (typeof textObj == "object") {
 		text = textObj.text
+		markup = !!textObj.markup
 		// Extract all the fields to be merged...
 		mergeObj = {...textObj}
-		// ...but emove text field
+		// ...but emove text and markup fields
 		delete mergeObj.text
+		delete mergeObj.markup
 	}
 	// A string has been passed as argument
 	else {
@@ -94,13 +121,18 @@ export function mergeText(  textObj: any,  x: number,  y: number,  target: Buffe
 	// Can be useful to wrap with markup.
 	const wrapInfo: { first: Cell; last: Cell }[] = [];
 
-	text.split('\n').forEach((line, lineNum) => {
-		line.split('').forEach((char, charNum) => {
+	const lines = markup ? markupLines(text) : text.split('\n').map(line => {
+		return columns(line).map(char => ({ char }))
+	})
+
+	lines.forEach((cells, lineNum) => {
+		clearWideChars(x, x+cells.length, row, target, targetCols, targetRows)
+		cells.forEach((cell, charNum) => {
 			col = x + charNum
-			merge({char, ...mergeObj}, col, row, target, targetCols, targetRows)
+			merge({...mergeObj, ...cell}, col, row, target, targetCols, targetRows)
 		})
 		const first = get(x, row, target, targetCols, targetRows) as Cell
-		const last = get(x+line.length-1, row, target, targetCols, targetRows) as Cell
+		const last = get(x+cells.length-1, row, target, targetCols, targetRows) as Cell
 		wrapInfo.push({first, last})
 		row++
 	})
@@ -118,3 +150,31 @@ export function mergeText(  textObj: any,  x: number,  y: number,  target: Buffe
 		wrapInfo
 	}
 }
+
+// Splits a text with markup into lines of cells: the chars of each
+// span (one for each column) with the style of the span.
+function markupLines(text: string) {
+	const lines: Partial<Cell>[][] = [[]]
+	for (const span of parse(text)) {
+		span.text.split('\n').forEach((part, i) => {
+			if (i > 0) lines.push([])
+			const cells = lines[lines.length-1]!
+			for (const char of columns(part)) cells.push({ char, ...span.style })
+		})
+	}
+	return lines
+}
+
+// Before writing the columns from x1 to x2 (excluded) of a row:
+// the wide chars which would be cut in half are replaced by spaces,
+// a continuation cell can’t be left without its wide char.
+function clearWideChars(  x1: number,  x2: number,  y: number,  target: AnyBuffer,  targetCols: number,  targetRows: number) {
+    if (x2 <= x1) return
+	const charAt = (x: number) => (get(x, y, target, targetCols, targetRows) as Cell).char
+	if (charAt(x1) === CONTINUATION) {
+		merge({ char : ' ' }, x1-1, y, target, targetCols, targetRows)
+	}
+	if (charAt(x2) === CONTINUATION) {
+		merge({ char : ' ' }, x2, y, target, targetCols, targetRows)
+	}
+}
@@ -40,7 +40,7 @@ import type { RGB } from "./color";
 import { map, mix, clamp } from "./num";
 import type { Buffer } from "./types";
 
-type Source = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+export type Source = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
 
 export const MODE_COVER = Symbol();
 export const MODE_FIT = Symbol();
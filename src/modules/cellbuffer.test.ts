@@ -0,0 +1,172 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { runHeadless } from "../run";
+import CellBuffer, {
+  TRANSPARENT,
+  packColor,
+  packWeight,
+  rgba,
+  unpackColor,
+} from "./cellbuffer";
+import type { Program } from "./types";
+
+describe("CellBuffer", () => {
+  test("stores the style of a cell", () => {
+    const buffer = new CellBuffer(2, 1);
+    const cell = {
+      char: "x",
+      color: "red",
+      backgroundColor: "#00ff00",
+      fontWeight: "bold",
+      fontStyle: "oblique",
+      textDecoration: "underline line-through",
+      inverse: true,
+      opacity: 0.5,
+    };
+    buffer.set(0, cell);
+    expect(buffer.get(0)).toEqual({
+      ...cell,
+      fontWeight: "700",
+      fontStyle: "italic",
+    });
+    // Other properties are ignored
+    buffer.set(1, { char: "y", shadowX: 2 });
+    expect(buffer.get(1)).toEqual({ char: "y" });
+  });
+
+  test("reads single properties of a cell", () => {
+    const buffer = new CellBuffer(2, 1);
+    buffer.set(0, { char: "x", color: "red", backgroundColor: "#00ff00" });
+    buffer.merge(0, { fontWeight: "bold" });
+    expect(buffer.getColor(0)).toBe("red");
+    expect(buffer.getBackground(0)).toBe("#00ff00");
+    expect(buffer.getWeight(0)).toBe("700");
+    // Unset
+    expect(buffer.getColor(1)).toBeUndefined();
+    expect(buffer.getBackground(1)).toBeUndefined();
+    expect(buffer.getWeight(1)).toBeUndefined();
+  });
+
+  test("stores chars made of several code points", () => {
+    const buffer = new CellBuffer(4, 1);
+    const chars = ["🌮", "👩‍💻", "é", ""];
+    chars.forEach((char, i) => buffer.setChar(i, char));
+    expect(chars.map((c, i) => buffer.getChar(i))).toEqual(chars);
+    expect(buffer.multi.size).toBe(2);
+    buffer.setChar(1, "a");
+    expect(buffer.multi.size).toBe(1);
+    // Undefined and null are spaces
+    buffer.set(0, undefined);
+    expect(buffer.getChar(0)).toBe(" ");
+  });
+
+  test("merges only the defined properties", () => {
+    const buffer = new CellBuffer(1, 1);
+    buffer.set(0, { char: "a", color: "red", fontStyle: "italic" });
+    buffer.merge(0, { textDecoration: "underline", backgroundColor: "blue" });
+    expect(buffer.get(0)).toEqual({
+      char: "a",
+      color: "red",
+      backgroundColor: "blue",
+      fontStyle: "italic",
+      textDecoration: "underline",
+    });
+    buffer.merge(0, { fontStyle: "normal" });
+    buffer.merge(0, "b");
+    expect(buffer.get(0)).toEqual({
+      char: "b",
+      color: "red",
+      backgroundColor: "blue",
+      textDecoration: "underline",
+    });
+  });
+
+  test("is filled with the style on resize", () => {
+    const buffer = new CellBuffer();
+    buffer.resize(2, 2, { color: "red", fontWeight: "normal" });
+    expect(buffer.length).toBe(4);
+    expect(buffer.toArray()).toEqual(
+      new Array(4).fill({ char: " ", color: "red", fontWeight: "400" })
+    );
+  });
+
+  test("compares and copies cells", () => {
+    const a = new CellBuffer(2, 1);
+    const b = new CellBuffer(3, 3);
+    a.set(0, { char: "👩‍💻", color: "red" });
+    a.set(1, { char: "👩‍💻", color: "red" });
+    expect(a.isSameCellStyle(0, 1)).toBe(true);
+    expect(a.isSameCell(0, b)).toBe(false);
+    b.copy(a);
+    expect([b.cols, b.rows, b.length]).toEqual([2, 1, 2]);
+    expect(a.isSameCell(1, b)).toBe(true);
+    b.setChar(1, "👩‍🚀");
+    expect(a.isSameCell(1, b)).toBe(false);
+  });
+});
+
+describe("color packing", () => {
+  test("packs CSS colors as RGBA numbers", () => {
+    expect(packColor("#ff8000")).toBe(0xff8000ff);
+    expect(packColor("rgb(255 128 0 / 50%)")).toBe(0xff800080);
+    expect(packColor(0x12345678)).toBe(0x12345678);
+    expect(rgba(300, -1, 127.6, 0.5)).toBe(0xff008080);
+    expect(packColor(undefined)).toBe(0);
+  });
+
+  test("unpacks to the first CSS string of a color", () => {
+    expect(unpackColor(packColor("olive"))).toBe("olive");
+    expect(unpackColor(packColor("#808000"))).toBe("olive");
+    expect(unpackColor(rgba(1, 2, 3))).toBe("rgb(1,2,3)");
+    expect(unpackColor(rgba(1, 2, 3, 0.25))).toBe("rgba(1,2,3,0.251)");
+    expect(unpackColor(0)).toBeUndefined();
+  });
+
+  test("packs the transparent colors apart from the default color", () => {
+    expect(packColor("transparent")).toBe(TRANSPARENT);
+    expect(rgba(0, 0, 0, 0)).toBe(TRANSPARENT);
+    expect(packColor("rgba(255, 0, 0, 0)")).toBe(TRANSPARENT);
+    expect(unpackColor(TRANSPARENT)).toBe("transparent");
+    const buffer = new CellBuffer(1, 1);
+    buffer.set(0, { char: "a", backgroundColor: "transparent" });
+    expect(buffer.get(0).backgroundColor).toBe("transparent");
+  });
+
+  test("warns once about unsupported colors", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    expect(packColor("nocolor")).toBe(0);
+    expect(packColor("nocolor")).toBe(0);
+    expect(packColor("stillnocolor")).toBe(0);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test("packs the font weights as numbers", () => {
+    expect(packWeight("normal")).toBe(400);
+    expect(packWeight("bold")).toBe(700);
+    expect(packWeight("lighter")).toBe(300);
+    expect(packWeight(600)).toBe(600);
+    expect(packWeight(undefined)).toBe(0);
+  });
+});
+
+describe("typed buffer runner", () => {
+  test("writes the output of main() into the typed arrays", () => {
+    let typed = false;
+    const program: Program = {
+      pre: (context, cursor, buffer) => {
+        typed = buffer instanceof CellBuffer;
+      },
+      main: (coord) =>
+        coord.x == 0
+          ? "a"
+          : { char: "🌮", color: "red", backgroundColor: "transparent" },
+    };
+    const settings = { typedBuffer: true, color: "blue" };
+    const [frame] = runHeadless(program, { cols: 2, rows: 1, settings });
+    expect(typed).toBe(true);
+    expect(frame).toEqual([
+      { char: "a", color: "blue" },
+      { char: "🌮", color: "red", backgroundColor: "transparent" },
+    ]);
+  });
+});
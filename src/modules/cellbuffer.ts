@@ -0,0 +1,349 @@
+/**
+@module   cellbuffer
+@desc     Typed array backed buffer for large grids
+@category public
+
+A 'structure of arrays' alternative to the default buffer (an array of
+cell objects): each cell property is stored in a typed array.
+- chars  : Uint32Array, code point of the char (0 = empty string)
+- fg, bg : Uint32Array, packed RGBA colors (0 = default color,
+           TRANSPARENT for all the fully transparent colors)
+- weight : Uint16Array, numeric font weight (0 = default weight)
+- flags  : Uint8Array, italic, underline, line-through and inverse bits
+- transparency : Uint8Array, 255 * (1 - opacity) (0 = opaque)
+
+Enabled with settings.typedBuffer = true: the runner passes a CellBuffer
+to the program functions instead of an array and writes the output of
+main() directly into the typed arrays, without allocating cell objects.
+The helpers of the buffer module accept both kinds of buffers;
+programs which access buffer[i] directly need the default buffer.
+Only char, color, backgroundColor, fontWeight, fontStyle, textDecoration,
+opacity and inverse are stored: other cell properties are ignored.
+Oblique is stored as italic.
+
+Colors are parsed once and cached; for best performance colors can also
+be written as packed numbers:
+
+buffer.fg[i] = rgba(255, 0, 0)
+*/
+
+import { css2rgb } from "./color";
+import type { Buffer, Cell } from "./types";
+
+// Marks a char made of more than a single code point
+const MULTI = 0xffffffff;
+
+// Bits of the flags array
+export const ITALIC = 1;
+export const UNDERLINE = 2;
+export const LINE_THROUGH = 4;
+export const INVERSE = 8;
+
+// Packed value of the fully transparent colors: rgba(0, 0, 0, 0)
+// would be 0, which stands for the default color
+export const TRANSPARENT = 0xffffff00;
+
+// Max number of cached colors (some programs generate a new CSS string
+// for each cell at each frame)
+const MAX_CACHE = 4096;
+
+export default class CellBuffer {
+  cols: number;
+  rows: number;
+  length: number;
+  chars: Uint32Array;
+  fg: Uint32Array;
+  bg: Uint32Array;
+  weight: Uint16Array;
+  flags: Uint8Array;
+  transparency: Uint8Array;
+  // Chars which don’t fit in a single code point (emoji sequences, etc.)
+  multi: Map<number, string>;
+
+  constructor(cols = 0, rows = 0) {
+    this.cols = 0;
+    this.rows = 0;
+    this.length = 0;
+    this.chars = new Uint32Array(0);
+    this.fg = new Uint32Array(0);
+    this.bg = new Uint32Array(0);
+    this.weight = new Uint16Array(0);
+    this.flags = new Uint8Array(0);
+    this.transparency = new Uint8Array(0);
+    this.multi = new Map();
+    this.resize(cols, rows);
+  }
+
+  // Resizes the buffer and fills it with empty cells of the given style
+  resize(cols: number, rows: number, style: Partial<Cell> = {}) {
+    const length = cols * rows;
+    if (length != this.length) {
+      this.chars = new Uint32Array(length);
+      this.fg = new Uint32Array(length);
+      this.bg = new Uint32Array(length);
+      this.weight = new Uint16Array(length);
+      this.flags = new Uint8Array(length);
+      this.transparency = new Uint8Array(length);
+    }
+    this.cols = cols;
+    this.rows = rows;
+    this.length = length;
+    this.multi.clear();
+    this.chars.fill(32); // space
+    this.fg.fill(packColor(style.color));
+    this.bg.fill(packColor(style.backgroundColor));
+    this.weight.fill(packWeight(style.fontWeight));
+    this.flags.fill(packFlags(style));
+    this.transparency.fill(packOpacity(style.opacity));
+  }
+
+  getChar(i: number): string {
+    const c = this.chars[i]!;
+    if (c == MULTI) return this.multi.get(i)!;
+    return c == 0 ? "" : String.fromCodePoint(c);
+  }
+
+  setChar(i: number, char: any) {
+    const str = char === undefined || char === null ? " " : String(char);
+    if (this.chars[i] == MULTI) this.multi.delete(i);
+    const c = str.codePointAt(0);
+    if (c === undefined) {
+      this.chars[i] = 0;
+    } else if (str.length > (c > 0xffff ? 2 : 1)) {
+      this.chars[i] = MULTI;
+      this.multi.set(i, str);
+    } else {
+      this.chars[i] = c;
+    }
+  }
+
+  // Single properties of the cell, without building the object
+  getColor(i: number): string | undefined {
+    return unpackColor(this.fg[i]!);
+  }
+
+  getBackground(i: number): string | undefined {
+    return unpackColor(this.bg[i]!);
+  }
+
+  getWeight(i: number): string | undefined {
+    return unpackWeight(this.weight[i]!);
+  }
+
+  // Returns a copy of the cell as object
+  get(i: number): Cell {
+    const cell: Cell = { char: this.getChar(i) };
+    const color = this.getColor(i);
+    const backgroundColor = this.getBackground(i);
+    const fontWeight = this.getWeight(i);
+    if (color !== undefined) cell.color = color;
+    if (backgroundColor !== undefined) cell.backgroundColor = backgroundColor;
+    if (fontWeight !== undefined) cell.fontWeight = fontWeight;
+    const flags = this.flags[i]!;
+    if (flags & ITALIC) cell.fontStyle = "italic";
+    if (flags & (UNDERLINE | LINE_THROUGH)) {
+      cell.textDecoration = unpackDecoration(flags);
+    }
+    if (flags & INVERSE) cell.inverse = true;
+    const t = this.transparency[i]!;
+    if (t > 0) cell.opacity = Math.round((1 - t / 255) * 100) / 100;
+    return cell;
+  }
+
+  // Overwrites the cell: a char or a cell object
+  set(i: number, val: any) {
+    if (typeof val == "object" && val !== null) {
+      this.setChar(i, val.char);
+      this.fg[i] = packColor(val.color);
+      this.bg[i] = packColor(val.backgroundColor);
+      this.weight[i] = packWeight(val.fontWeight);
+      this.flags[i] = packFlags(val);
+      this.transparency[i] = packOpacity(val.opacity);
+    } else {
+      this.setChar(i, val);
+      this.fg[i] = this.bg[i] = this.weight[i] = 0;
+      this.flags[i] = this.transparency[i] = 0;
+    }
+  }
+
+  // Merges the defined properties into the cell: a char or a cell object
+  merge(i: number, val: any) {
+    if (typeof val != "object" || val === null) {
+      this.setChar(i, val);
+      return;
+    }
+    if ("char" in val) this.setChar(i, val.char);
+    if ("color" in val) this.fg[i] = packColor(val.color);
+    if ("backgroundColor" in val) this.bg[i] = packColor(val.backgroundColor);
+    if ("fontWeight" in val) this.weight[i] = packWeight(val.fontWeight);
+    if ("fontStyle" in val || "textDecoration" in val || "inverse" in val) {
+      // Only the bits of the defined properties are replaced
+      let mask = 0;
+      if ("fontStyle" in val) mask |= ITALIC;
+      if ("textDecoration" in val) mask |= UNDERLINE | LINE_THROUGH;
+      if ("inverse" in val) mask |= INVERSE;
+      this.flags[i] = (this.flags[i]! & ~mask) | (packFlags(val) & mask);
+    }
+    if ("opacity" in val) this.transparency[i] = packOpacity(val.opacity);
+  }
+
+  // Compares the cell i with the cell j of another buffer
+  isSameCell(i: number, other: CellBuffer, j = i) {
+    if (this.chars[i] !== other.chars[j]) return false;
+    if (this.fg[i] !== other.fg[j]) return false;
+    if (this.bg[i] !== other.bg[j]) return false;
+    if (this.weight[i] !== other.weight[j]) return false;
+    if (this.flags[i] !== other.flags[j]) return false;
+    if (this.transparency[i] !== other.transparency[j]) return false;
+    if (this.chars[i] == MULTI) {
+      return this.multi.get(i) === other.multi.get(j);
+    }
+    return true;
+  }
+
+  // Compares the style of two cells of the buffer
+  isSameCellStyle(i: number, j: number) {
+    return (
+      this.fg[i] === this.fg[j] &&
+      this.bg[i] === this.bg[j] &&
+      this.weight[i] === this.weight[j] &&
+      this.flags[i] === this.flags[j] &&
+      this.transparency[i] === this.transparency[j]
+    );
+  }
+
+  // Copies size and content of another buffer
+  copy(other: CellBuffer) {
+    if (other.length != this.length) this.resize(other.cols, other.rows);
+    this.cols = other.cols;
+    this.rows = other.rows;
+    this.chars.set(other.chars);
+    this.fg.set(other.fg);
+    this.bg.set(other.bg);
+    this.weight.set(other.weight);
+    this.flags.set(other.flags);
+    this.transparency.set(other.transparency);
+    this.multi = new Map(other.multi);
+  }
+
+  // Converts the buffer to an array of cell objects
+  toArray(): Buffer {
+    const out: Buffer = new Array(this.length);
+    for (let i = 0; i < this.length; i++) out[i] = this.get(i);
+    return out;
+  }
+}
+
+// Returns an array of cells for both kinds of buffer
+export function asArray(buffer: Buffer | CellBuffer): Buffer {
+  return buffer instanceof CellBuffer ? buffer.toArray() : buffer;
+}
+
+// Packs r, g, b (0-255) and a (0-1) into a single number,
+// never 0 (see TRANSPARENT)
+export function rgba(r: number, g: number, b: number, a = 1.0) {
+  const alpha = clamp(a * 255);
+  if (alpha == 0) return TRANSPARENT;
+  const packed = (clamp(r) << 24) | (clamp(g) << 16) | (clamp(b) << 8) | alpha;
+  return packed >>> 0;
+}
+
+function clamp(v: number) {
+  return Math.max(0, Math.min(255, Math.round(v)));
+}
+
+const packCache: Map<string, number> = new Map();
+const unpackCache: Map<number, string> = new Map();
+// Unsupported colors are reported once
+let warned = false;
+
+// Converts a CSS color to a packed RGBA number, 0 for undefined
+export function packColor(css?: string | number): number {
+  if (typeof css == "number") return css >>> 0;
+  if (!css) return 0;
+  let packed = packCache.get(css);
+  if (packed !== undefined) return packed;
+  const c = css2rgb(css);
+  if (c) {
+    packed = rgba(c.r, c.g, c.b, c.a ?? 1.0);
+  } else {
+    packed = 0;
+    if (!warned) {
+      warned = true;
+      console.warn(
+        "cellbuffer.js: Unsupported color " +
+          css +
+          ", unsupported colors are drawn with the default color."
+      );
+    }
+  }
+  if (packCache.size >= MAX_CACHE) packCache.clear();
+  packCache.set(css, packed);
+  // The first CSS string of a color is kept for the renderers
+  if (packed && !unpackCache.has(packed)) {
+    if (unpackCache.size >= MAX_CACHE) unpackCache.clear();
+    unpackCache.set(packed, css);
+  }
+  return packed;
+}
+
+// Converts a packed RGBA number to a CSS color, undefined for 0
+export function unpackColor(packed: number): string | undefined {
+  if (packed == 0) return undefined;
+  if (packed == TRANSPARENT) return "transparent";
+  let css = unpackCache.get(packed);
+  if (css !== undefined) return css;
+  const r = packed >>> 24;
+  const g = (packed >>> 16) & 0xff;
+  const b = (packed >>> 8) & 0xff;
+  const a = packed & 0xff;
+  if (a == 255) {
+    css = "rgb(" + r + "," + g + "," + b + ")";
+  } else {
+    const alpha = Math.round(a / 0.255) / 1000;
+    css = "rgba(" + r + "," + g + "," + b + "," + alpha + ")";
+  }
+  if (unpackCache.size >= MAX_CACHE) unpackCache.clear();
+  unpackCache.set(packed, css);
+  return css;
+}
+
+// Converts a CSS font weight to a number, 0 for undefined
+export function packWeight(weight?: string | number): number {
+  if (weight === undefined || weight === null || weight === "") return 0;
+  if (weight == "normal") return 400;
+  if (weight == "bold" || weight == "bolder") return 700;
+  if (weight == "lighter") return 300;
+  return parseInt(String(weight)) || 0;
+}
+
+export function unpackWeight(weight: number): string | undefined {
+  return weight == 0 ? undefined : String(weight);
+}
+
+// Converts the fontStyle, textDecoration and inverse of a cell to flags
+export function packFlags(cell: Partial<Cell>): number {
+  let flags = 0;
+  if (cell.fontStyle == "italic" || cell.fontStyle == "oblique") {
+    flags |= ITALIC;
+  }
+  const decoration = cell.textDecoration || "";
+  if (decoration.includes("underline")) flags |= UNDERLINE;
+  if (decoration.includes("line-through")) flags |= LINE_THROUGH;
+  if (cell.inverse) flags |= INVERSE;
+  return flags;
+}
+
+// Returns the textDecoration of the flags, undefined for none
+export function unpackDecoration(flags: number): string | undefined {
+  const values = [];
+  if (flags & UNDERLINE) values.push("underline");
+  if (flags & LINE_THROUGH) values.push("line-through");
+  return values.length ? values.join(" ") : undefined;
+}
+
+// Converts an opacity (0-1) to transparency, 0 for undefined
+export function packOpacity(opacity?: number): number {
+  if (opacity === undefined || opacity === null) return 0;
+  return clamp((1 - opacity) * 255);
+}
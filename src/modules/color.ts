@@ -95,6 +95,75 @@ export function int2rgb(int: number): RGB {
 // 	return '#' + (int).toString(16)
 // }
 
+// Parses a CSS color string into {r,g,b,a}.
+// Supported: '#RGB', '#RGBA', '#RRGGBB', '#RRGGBBAA', 'rgb()', 'rgba()',
+// 'hsl()', 'hsla()', CSS4 color names and 'transparent'.
+// Returns undefined if the string can’t be parsed.
+export function css2rgb(css: string): RGB | undefined {
+  const str = css.trim().toLowerCase();
+
+  if (str == "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+
+  if (str.charAt(0) == "#") {
+    let h = str.slice(1);
+    if (h.length == 3 || h.length == 4) {
+      h = h.replace(/./g, "$&$&");
+    }
+    if ((h.length != 6 && h.length != 8) || /[^0-9a-f]/.test(h)) {
+      return undefined;
+    }
+    return {
+      r: parseInt(h.slice(0, 2), 16),
+      g: parseInt(h.slice(2, 4), 16),
+      b: parseInt(h.slice(4, 6), 16),
+      a: h.length == 8 ? parseInt(h.slice(6, 8), 16) / 255 : 1.0,
+    };
+  }
+
+  const m = str.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (m) {
+    // Both comma and space separated syntaxes: rgb(r g b / a)
+    const args = m[2]!.split(/[\s,\/]+/).filter((s) => s != "");
+    if (args.length < 3) return undefined;
+    const alpha = args[3] === undefined ? 1.0 : parseAlpha(args[3]);
+    if (m[1]!.charAt(0) == "r") {
+      const [r, g, b] = args.map((v) =>
+        v.endsWith("%") ? (parseFloat(v) * 255) / 100 : parseFloat(v)
+      );
+      if (isNaN(r! + g! + b! + alpha)) return undefined;
+      return { r: r!, g: g!, b: b!, a: alpha };
+    }
+    const h = ((parseFloat(args[0]!) % 360) + 360) % 360;
+    const s = parseFloat(args[1]!) / 100;
+    const l = parseFloat(args[2]!) / 100;
+    if (isNaN(h + s + l + alpha)) return undefined;
+    return { ...hsl2rgb(h, s, l), a: alpha };
+  }
+
+  const named = CSS4[str];
+  if (named) return { r: named.r, g: named.g, b: named.b, a: 1.0 };
+
+  return undefined;
+}
+
+// Alpha can be a float or a percentage
+function parseAlpha(v: string) {
+  return v.endsWith("%") ? parseFloat(v) / 100 : parseFloat(v);
+}
+
+// h in degrees, s and l in the 0-1 range
+// https://en.wikipedia.org/wiki/HSL_and_HSV#HSL_to_RGB_alternative
+function hsl2rgb(h: number, s: number, l: number) {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(
+      255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)))
+    );
+  };
+  return { r: f(0), g: f(8), b: f(4) };
+}
+
 export type PaletteElement = {
   int: number;
   name: string;
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import CellBuffer from "./cellbuffer";
+import DirtyRegion, {
+  getUpdatedRowNum,
+  isExact,
+  markAllDirty,
+  markDirty,
+  markRowDirty,
+  setSize,
+  track,
+} from "./dirty";
+import type { Buffer } from "./types";
+
+// A buffer of 3 × 3 cells filled with chars
+function cells(chars = "abcdefghi"): Buffer {
+  return [...chars].map((char) => ({ char }));
+}
+
+describe("DirtyRegion", () => {
+  test("returns all the rows of a new buffer", () => {
+    const region = new DirtyRegion();
+    const buffer = cells();
+    expect(region.update(buffer, 3, 3)).toEqual([0, 1, 2]);
+    expect(region.full).toBe(true);
+    expect(region.update(buffer, 3, 3)).toEqual([]);
+    expect(region.full).toBe(false);
+    // Another buffer, or another size
+    expect(region.update(cells(), 3, 3)).toEqual([0, 1, 2]);
+    expect(region.update(region.buffer!, 3, 2)).toEqual([0, 1]);
+    region.reset();
+    expect(region.update(region.buffer!, 3, 2)).toEqual([0, 1]);
+  });
+
+  test("compares the rows of a buffer with the previous frame", () => {
+    const region = new DirtyRegion();
+    const buffer = cells();
+    region.update(buffer, 3, 3);
+    buffer[1]!.char = "x";
+    buffer[8] = { char: "i", color: "red" };
+    expect(region.update(buffer, 3, 3)).toEqual([0, 2]);
+    expect(region.update(buffer, 3, 3)).toEqual([]);
+  });
+
+  test("compares the rows of a typed buffer with the previous frame", () => {
+    const region = new DirtyRegion();
+    const buffer = new CellBuffer(3, 3);
+    region.update(buffer, 3, 3);
+    buffer.set(4, { char: "x", fontWeight: "bold" });
+    expect(region.update(buffer, 3, 3)).toEqual([1]);
+    buffer.merge(4, { fontWeight: "normal" });
+    expect(region.update(buffer, 3, 3)).toEqual([1]);
+    expect(region.update(buffer, 3, 3)).toEqual([]);
+  });
+
+  test("returns only the marked rows of an exact buffer", () => {
+    const region = new DirtyRegion();
+    const buffer = cells();
+    track(buffer, true);
+    setSize(buffer, 3, 3);
+    expect(isExact(buffer)).toBe(true);
+    expect(region.update(buffer, 3, 3)).toEqual([0, 1, 2]);
+    // Changes which are not marked are ignored
+    buffer[0]!.char = "x";
+    markDirty(buffer, 7);
+    expect(region.update(buffer, 3, 3)).toEqual([2]);
+    markRowDirty(buffer, 1);
+    markRowDirty(buffer, 5);
+    expect(region.update(buffer, 3, 3)).toEqual([1]);
+    expect(getUpdatedRowNum(buffer)).toBe(1);
+    markAllDirty(buffer);
+    expect(region.update(buffer, 3, 3)).toEqual([0, 1, 2]);
+  });
+
+  test("keeps its own state for each region", () => {
+    const a = new DirtyRegion();
+    const b = new DirtyRegion();
+    const buffer = cells();
+    track(buffer, true);
+    setSize(buffer, 3, 3);
+    a.update(buffer, 3, 3);
+    b.update(buffer, 3, 3);
+    markDirty(buffer, 0);
+    expect(a.update(buffer, 3, 3)).toEqual([0]);
+    markDirty(buffer, 3);
+    // Row 0 was not yet repainted by b
+    expect(b.update(buffer, 3, 3)).toEqual([0, 1]);
+    expect(a.update(buffer, 3, 3)).toEqual([1]);
+  });
+
+  test("ignores the marks of buffers which are not tracked", () => {
+    const buffer = cells();
+    markDirty(buffer, 0);
+    markAllDirty(buffer);
+    expect(isExact(buffer)).toBe(false);
+    expect(getUpdatedRowNum(buffer)).toBe(0);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+@module   dirty
+@desc     Dirty region tracking for buffers
+@category public
+
+Keeps track of the rows of a buffer which changed since the last render,
+so that the renderers repaint only those rows.
+
+By default the changed rows are detected by the renderers, comparing
+the buffer with a copy of the previous frame: this works with any program.
+With settings.dirtyTracking = true the comparison is skipped and only
+the rows marked as dirty are repainted. Cells are marked by:
+- the helpers of the buffer module (set, merge, setRect, mergeText, etc.)
+- the runner, for the cells changed by the output of main()
+Programs which write into the buffer directly (buffer[i] = …,
+buffer[i].char = … or the typed arrays of a CellBuffer) have to mark
+the cells themselves:
+
+buffer[i].char = 'x'
+dirty.markDirty(buffer, i)
+
+The number of rows repainted in the previous frame is available
+as context.runtime.updatedRowNum.
+*/
+
+import CellBuffer from "./cellbuffer";
+import type { AnyBuffer, Buffer, Cell } from "./types";
+
+type Tracker = {
+  exact: boolean; // only the marked rows are dirty
+  cols: number;
+  version: number; // incremented at each change
+  all: number; // version of the last markAllDirty()
+  rowVersions: Uint32Array; // version of the last change of each row
+  updatedRowNum: number;
+};
+
+// Buffers registered by the runners
+const trackers: WeakMap<AnyBuffer, Tracker> = new WeakMap();
+
+// Registers a buffer for tracking (done by the runners)
+export function track(buffer: AnyBuffer, exact = false) {
+  trackers.set(buffer, {
+    exact,
+    cols: 0,
+    version: 1,
+    all: 1,
+    rowVersions: new Uint32Array(0),
+    updatedRowNum: 0,
+  });
+}
+
+// Tracks a buffer with the tracker of another one: the marks of either
+// buffer are seen by both (see layers)
+export function share(buffer: AnyBuffer, other: AnyBuffer) {
+  const t = trackers.get(buffer);
+  if (t) trackers.set(other, t);
+}
+
+// Returns true if only the marked rows of the buffer are dirty
+export function isExact(buffer: AnyBuffer) {
+  const t = trackers.get(buffer);
+  return t ? t.exact : false;
+}
+
+// Updates the size of a tracked buffer: all the rows are dirty
+export function setSize(buffer: AnyBuffer, cols: number, rows: number) {
+  const t = trackers.get(buffer);
+  if (!t) return;
+  t.cols = cols;
+  t.rowVersions = new Uint32Array(rows);
+  t.all = ++t.version;
+}
+
+// Marks the cell at index as dirty
+export function markDirty(buffer: AnyBuffer, index: number) {
+  const t = trackers.get(buffer);
+  if (!t || t.cols == 0) return;
+  markRow(t, Math.floor(index / t.cols));
+}
+
+// Marks a whole row as dirty
+export function markRowDirty(buffer: AnyBuffer, row: number) {
+  const t = trackers.get(buffer);
+  if (t) markRow(t, row);
+}
+
+// Marks the whole buffer as dirty
+export function markAllDirty(buffer: AnyBuffer) {
+  const t = trackers.get(buffer);
+  if (t) t.all = ++t.version;
+}
+
+function markRow(t: Tracker, row: number) {
+  if (row >= 0 && row < t.rowVersions.length) {
+    t.rowVersions[row] = ++t.version;
+  }
+}
+
+// Number of rows repainted by the last render of the buffer
+export function getUpdatedRowNum(buffer: AnyBuffer) {
+  const t = trackers.get(buffer);
+  return t ? t.updatedRowNum : 0;
+}
+
+// Compares two cells
+export function isSameCell(cellA: Cell, cellB: Cell) {
+  if (typeof cellA != "object") return false;
+  if (typeof cellB != "object") return false;
+  if (cellA.char !== cellB.char) return false;
+  if (cellA.fontWeight !== cellB.fontWeight) return false;
+  if (cellA.color !== cellB.color) return false;
+  if (cellA.backgroundColor !== cellB.backgroundColor) return false;
+  if (cellA.fontStyle !== cellB.fontStyle) return false;
+  if (cellA.textDecoration !== cellB.textDecoration) return false;
+  if (cellA.opacity !== cellB.opacity) return false;
+  if (cellA.inverse !== cellB.inverse) return false;
+  return true;
+}
+
+// The dirty rows as seen by a renderer (or by a render target):
+// each one keeps its own region, as rows are repainted at different times.
+export default class DirtyRegion {
+  cols: number;
+  rows: number;
+  // True if the last update returned all the rows because of a resize,
+  // a new buffer or a reset (the whole target needs a repaint)
+  full: boolean;
+  // Last buffer and version of its tracker seen by update()
+  buffer: AnyBuffer | null;
+  version: number;
+  // Copy of the previous frame, for the comparison
+  back: Buffer;
+  backCells: CellBuffer;
+
+  constructor() {
+    this.cols = 0;
+    this.rows = 0;
+    this.full = true;
+    this.buffer = null;
+    this.version = 0;
+    this.back = [];
+    this.backCells = new CellBuffer();
+  }
+
+  // Returns the indices of the rows changed since the last update
+  update(buffer: AnyBuffer, cols: number, rows: number): number[] {
+    const t = trackers.get(buffer);
+    this.full =
+      cols != this.cols || rows != this.rows || buffer != this.buffer;
+    if (this.full) {
+      this.cols = cols;
+      this.rows = rows;
+      this.buffer = buffer;
+      this.back.length = 0;
+      this.backCells.resize(0, 0);
+    }
+    const all = this.full || (t !== undefined && t.all > this.version);
+
+    const dirtyRows: number[] = [];
+    if (t && t.exact) {
+      for (let j = 0; j < rows; j++) {
+        if (all || t.rowVersions[j]! > this.version) dirtyRows.push(j);
+      }
+    } else if (buffer instanceof CellBuffer) {
+      for (let j = 0; j < rows; j++) {
+        let dirty = all || this.backCells.length != buffer.length;
+        for (let i = 0; i < cols && !dirty; i++) {
+          dirty = !buffer.isSameCell(i + j * cols, this.backCells);
+        }
+        if (dirty) dirtyRows.push(j);
+      }
+      this.backCells.copy(buffer);
+    } else {
+      for (let j = 0; j < rows; j++) {
+        let dirty = all;
+        for (let i = 0; i < cols; i++) {
+          const idx = i + j * cols;
+          const cell = buffer[idx]!;
+          if (!isSameCell(cell, this.back[idx]!)) {
+            dirty = true;
+            this.back[idx] = { ...cell };
+          }
+        }
+        if (dirty) dirtyRows.push(j);
+      }
+    }
+
+    if (t) {
+      this.version = t.version;
+      t.updatedRowNum = dirtyRows.length;
+    }
+    return dirtyRows;
+  }
+
+  // Forces a complete repaint at the next update
+  reset() {
+    this.cols = 0;
+    this.rows = 0;
+  }
+}
@@ -17,14 +17,19 @@ const style = {
     borderStyle     : 'round'
     paddingX        : 2,
     paddingY        : 1,
+    markup          : false,
 }
+
+With markup: true the text can be styled inline (see markup):
+
+drawBox('score {b}{gold}' + score + '{/}{/}', { markup: true }, buffer)
 */
 
 import { merge, setRect, mergeRect, mergeText } from "./buffer";
 import { measure,wrap } from "./string";
-import type { Buffer, Context, Cursor, Style, WithRequired } from "./types";
+import type { AnyBuffer, Context, Cursor, Style, WithRequired } from "./types";
 
-type BorderStyle = {
+export type BorderStyle = {
   topleft: string;
   topright: string;
   bottomright: string;
@@ -36,7 +41,7 @@ type BorderStyle = {
   bg: string;
 };
 
-type BorderName =
+export type BorderName =
   | "double"
   | "single"
   | "round"
@@ -45,7 +50,7 @@ type BorderName =
   | "none";
 
 // The drawing styles for the borders.
-const borderStyles: Record<BorderName, BorderStyle> = {
+export const borderStyles: Record<BorderName, BorderStyle> = {
   double: {
     topleft: "╔",
     topright: "╗",
@@ -114,13 +119,13 @@ const borderStyles: Record<BorderName, BorderStyle> = {
   },
 } as const;
 
-type ShadowStyle = {
+export type ShadowStyle = {
   char?: string;
   color?: string;
   backgroundColor?: string;
 };
 
-type ShadowName =
+export type ShadowName =
   | "light"
   | "medium"
   | "dark"
@@ -132,7 +137,7 @@ type ShadowName =
 
 
 // The glyphs to draw a shadow.
-const shadowStyles: Record<ShadowName, ShadowStyle> = {
+export const shadowStyles: Record<ShadowName, ShadowStyle> = {
   light: {
     char: "░",
   },
@@ -172,16 +177,17 @@ const defaultTextBoxStyle: Style = {
   borderStyle: "round",
   shadowX: 2, // horizontal shadow offset
   shadowY: 1, // vertical shadow offset
+  markup: false, // inline styles in the text (see markup)
 };
 
-export function drawBox(  text: string,  style: Partial<Style>,  target: Buffer,  targetCols: number = 0,  targetRows: number = 0) {
+export function drawBox(  text: string,  style: Partial<Style>,  target: AnyBuffer,  targetCols: number = 0,  targetRows: number = 0) {
     const s = {...defaultTextBoxStyle, ...style}
 
 	let boxWidth  = s.width! 
 	let boxHeight = s.height!
 
 	if (!boxWidth || !boxHeight) {
-		const m = measure(text)
+		const m = measure(text, s.markup)
 		boxWidth = boxWidth || m.maxWidth + s.paddingX! * 2
 		boxHeight = boxHeight || m.numLines + s.paddingY! * 2
 	}
@@ -233,7 +239,8 @@ export function drawBox(  text: string,  style: Partial<Style>,  target: Buffer,
 		text,
 		color : style.color,
 		backgroundColor : style.backgroundColor,
-		fontWeight : style.fontWeight
+		fontWeight : style.fontWeight,
+		markup : s.markup
 	}, x1+s.paddingX!, y1+s.paddingY!, target, targetCols, targetRows)
 }
 
@@ -251,7 +258,7 @@ const defaultInfoStyle = {
 export function drawInfo(
   context: Context,
   cursor: Cursor,
-  target: Buffer,
+  target: AnyBuffer,
   style?: Partial<Style>
 ) {
     console.info("drawInfo", context, cursor, target, style);
@@ -260,7 +267,7 @@ export function drawInfo(
   info += "frame       " + context.frame + "\n";
   info += "time        " + Math.floor(context.time) + "\n";
   info += "size        " + context.cols + "×" + context.rows + "\n";
-  // info += 'row repaint ' + context.runtime.updatedRowNum + '\n'
+  info += "row repaint " + context.runtime.updatedRowNum + "\n";
   info += "font aspect " + context.metrics.aspect.toFixed(2) + "\n";
   info +=
     "cursor      " + Math.floor(cursor.x) + "," + Math.floor(cursor.y) + "\n";
@@ -0,0 +1,106 @@
+import {
+  afterAll,
+  afterEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { runHeadless } from "../run";
+import { toANSI } from "../core/ansirenderer";
+import { toHTML } from "../core/textrenderer";
+import { exportBuffer, toJSON, toText } from "./exportframe";
+import type { AnyBuffer, Cell, Context, Settings } from "./types";
+
+// Calls an exporter in post() of a program drawing the cells
+// (one row of cells per string), returns its output
+function output<T>(
+  rows: (string | Partial<Cell>)[][],
+  exporter: (context: Context, buffer: AnyBuffer) => T,
+  settings: Partial<Settings> = {}
+) {
+  let out: T | undefined;
+  runHeadless(
+    {
+      main: (coord) => rows[coord.y]![coord.x],
+      post: (context, cursor, buffer) => {
+        out = exporter(context, buffer);
+      },
+    },
+    { cols: rows[0]!.length, rows: rows.length, settings }
+  );
+  return out!;
+}
+
+const ESC = "\x1b[";
+
+describe("exportframe", () => {
+  test("toText() writes one line per row", () => {
+    const rows = [["a", "b"], ["c", { char: "d", color: "red" }]];
+    expect(output(rows, toText)).toBe("ab\ncd\n");
+    const typed = output(rows, toText, { typedBuffer: true });
+    expect(typed).toBe("ab\ncd\n");
+  });
+
+  test("toJSON() stores the size and the cells", () => {
+    const rows = [["a", { char: "b", color: "red" }]];
+    const json = JSON.parse(output(rows, toJSON));
+    expect(json).toMatchObject({ frame: 0, time: 0, cols: 2, rows: 1 });
+    expect(json.cells).toEqual([
+      { char: "a" },
+      { char: "b", color: "red" },
+    ]);
+  });
+
+  test("toANSI() writes a sequence for each change of style", () => {
+    const rows: (string | Partial<Cell>)[][] = [
+      ["a", "b", { char: "c", color: "#ff0000", fontWeight: "bold" }],
+      [
+        { char: "d", fontStyle: "italic", textDecoration: "underline" },
+        { char: "e", inverse: true },
+        { char: "f", opacity: 0.5 },
+      ],
+    ];
+    expect(output(rows, toANSI)).toBe(
+      ESC + "0mab" + ESC + "0;1;38;2;255;0;0mc" + ESC + "0m\n" +
+        ESC + "0;3;4md" + ESC + "0;7me" + ESC + "0;2mf" + ESC + "0m\n"
+    );
+  });
+
+  test("toANSI() keeps the columns of wide chars aligned", () => {
+    // The wide char of the last column would wrap: a space is written
+    const rows = [["🌮", "", "x", "🌮"]];
+    expect(output(rows, toANSI)).toBe(ESC + "0m🌮x " + ESC + "0m\n");
+  });
+
+  test("toHTML() writes a span for each run of styles", () => {
+    const rows = [["a", { char: "<", color: "red" }, { char: "&" }]];
+    const html = output(rows, toHTML, { backgroundColor: "black" });
+    expect(html).toContain('<pre style="margin:0;background:black;');
+    expect(html).toContain(
+      '<span style="display:block"><span>a</span>' +
+        '<span style="color:red;">&lt;</span><span>&amp;</span></span>'
+    );
+  });
+
+  describe("exportBuffer()", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    afterEach(() => warn.mockClear());
+    afterAll(() => warn.mockRestore());
+
+    test("skips the frames out of the range silently", () => {
+      output([["a"]], (context, buffer) =>
+        exportBuffer(context, buffer, "frame.png", 5, 10)
+      );
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test("warns about unsupported formats", () => {
+      output([["a"]], (context, buffer) =>
+        exportBuffer(context, buffer, "frame.png", 0)
+      );
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]![0]).toContain("Unsupported format .png");
+    });
+  });
+});
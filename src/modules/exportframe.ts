@@ -4,12 +4,23 @@
 @category public
 
 Exports a frame as image.
-Expects the canvas renderer as the active renderer.
+exportFrame() expects the canvas renderer as the active renderer.
+exportBuffer() works with any renderer: the buffer is serialized
+to a format chosen by the file extension:
+- .txt  plain text
+- .ans  text with ANSI color sequences
+- .html styled spans, same markup as the text renderer
+- .json cols, rows and the cells of the buffer
+- .svg  vector image
 Tested on Safari, FF, Chrome
 */
 
-import { saveBlobAsFile } from "./filedownload";
-import type { Context } from "./types";
+import { toANSI } from "../core/ansirenderer";
+import { toSVG } from "../core/svgrenderer";
+import { toHTML } from "../core/textrenderer";
+import { asArray } from "./cellbuffer";
+import { saveBlobAsFile, saveSourceAsFile } from "./filedownload";
+import type { AnyBuffer, Context } from "./types";
 
 export function exportFrame(
   context: Context,
@@ -23,11 +34,113 @@ export function exportFrame(
   const canvas = context.settings.element as HTMLCanvasElement;
   if (canvas.nodeName != "CANVAS") {
     console.warn(
-      "exportframe.js: Can’t export, a canvas renderer is required."
+      "exportframe.js: Can’t export, a canvas renderer is required.\n" +
+        "Use exportBuffer() to export the frame as text, HTML or SVG."
     );
     return;
   }
 
+  const out = getFrameFilename(context, filename, from, to);
+  if (!out) return;
+
+  canvas.toBlob((blob) => {
+    if (!blob) {
+      console.warn("exportframe.js: No data to export.");
+      return;
+    }
+    saveBlobAsFile(blob, out);
+  });
+}
+
+type Serializer = (context: Context, buffer: AnyBuffer) => string;
+
+// Buffer serializers, by file extension
+const serializers: Record<string, Serializer> = {
+  txt: toText,
+  ans: toANSI,
+  html: toHTML,
+  json: toJSON,
+  svg: toSVG,
+};
+
+// Exports the buffer of a frame (or a range) to a text based format.
+// Same frame range and filename numbering as exportFrame(),
+// but the buffer is needed as well: call it from post()
+// to export the complete frame.
+export function exportBuffer(
+  context: Context,
+  buffer: AnyBuffer,
+  filename: string,
+  from = 1,
+  to = from
+) {
+  // Frames out of the range are skipped silently
+  if (context.frame < from || context.frame > to) return;
+
+  const ext = (filename || "").split(".").pop()!.toLowerCase();
+  const serialize = serializers[ext];
+  if (!serialize) {
+    console.warn(
+      "exportframe.js: Unsupported format ." +
+        ext +
+        ", use one of: " +
+        Object.keys(serializers).join(", ") +
+        "."
+    );
+    return;
+  }
+
+  const out = getFrameFilename(context, filename, from, to);
+  if (!out) return;
+  saveSourceAsFile(serialize(context, buffer), out);
+}
+
+// Exports a frame as SVG (vector) image, whatever the extension
+// of the filename.
+export function exportSVG(
+  context: Context,
+  buffer: AnyBuffer,
+  filename: string,
+  from = 1,
+  to = from
+) {
+  const out = getFrameFilename(context, filename, from, to);
+  if (!out) return;
+  saveSourceAsFile(toSVG(context, buffer), out);
+}
+
+// Plain text, one line per row
+export function toText(context: Context, target: AnyBuffer) {
+  const buffer = asArray(target);
+  let out = "";
+  for (let j = 0; j < context.rows; j++) {
+    for (let i = 0; i < context.cols; i++) {
+      out += buffer[i + j * context.cols]!.char;
+    }
+    out += "\n";
+  }
+  return out;
+}
+
+// JSON: the cells are stored as a flat array (as the buffer)
+export function toJSON(context: Context, buffer: AnyBuffer) {
+  return JSON.stringify({
+    frame: context.frame,
+    time: context.time,
+    cols: context.cols,
+    rows: context.rows,
+    cells: asArray(buffer).slice(0, context.cols * context.rows),
+  });
+}
+
+// Returns the numbered filename of the current frame
+// or undefined if the frame is not in the range (or in case of errors).
+function getFrameFilename(
+  context: Context,
+  filename: string,
+  from: number,
+  to: number
+) {
   // Error: filename not provided.
   // The function doesn’t provide a default name: this operation will probably
   // flood the “Downloads” folder with images…
@@ -53,12 +166,6 @@ export function exportFrame(
     console.info(
       "exportframe.js: Exporting frame " + out + ". Will stop at " + to + "."
     );
-    canvas.toBlob((blob) => {
-      if (!blob) {
-        console.warn("exportframe.js: No data to export.");
-        return;
-      }
-      saveBlobAsFile(blob, out);
-    });
+    return out;
   }
 }
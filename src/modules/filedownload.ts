@@ -9,13 +9,27 @@ and then emits a click event.
 See: https://github.com/tomast1337/FileSaver.ts
 */
 
-type FileExt = "js" | "txt" | "png" | "jpg";
+type FileExt =
+  | "js"
+  | "txt"
+  | "png"
+  | "jpg"
+  | "svg"
+  | "ans"
+  | "html"
+  | "json"
+  | "gif";
 
 const mimeTypes: Record<FileExt, string> = {
   js: "text/javascript",
   txt: "text/plain",
   png: "image/png",
   jpg: "text/jpeg",
+  svg: "image/svg+xml",
+  ans: "text/plain",
+  html: "text/html",
+  json: "application/json",
+  gif: "image/gif",
 };
 
 // For text elements
@@ -29,7 +43,7 @@ export function saveSourceAsFile(src: string, filename: string) {
 // Gets extension of a filename
 function getFileExt(filename: string): FileExt {
   const ext = filename.split(".").pop() || "";
-  const exts = ["js", "txt", "png", "jpg"];
+  const exts = Object.keys(mimeTypes);
   if (exts.includes(ext)) {
     return ext as FileExt;
   }
@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import { encode } from "./gif";
+import type { GIFFrame } from "./gif";
+import type { Buffer, Program } from "./types";
+
+// A minimal GIF decoder: reads back what encode() writes
+// (no global color table, one image per frame, local color tables)
+function decode(bytes: Uint8Array) {
+  let p = 0;
+  const byte = () => bytes[p++]!;
+  const short = () => byte() | (byte() << 8);
+  const string = (n: number) =>
+    String.fromCharCode(...Array.from({ length: n }, byte));
+  const subBlocks = () => {
+    const out: number[] = [];
+    for (let n = byte(); n > 0; n = byte()) {
+      for (let i = 0; i < n; i++) out.push(byte());
+    }
+    return out;
+  };
+
+  const header = string(6);
+  const width = short();
+  const height = short();
+  p += 3;
+  let loops: number | undefined;
+  const frames: GIFFrame[] = [];
+  let delay = 0;
+  for (;;) {
+    const block = byte();
+    if (block == 0x3b) break;
+    if (block == 0x21) {
+      const label = byte();
+      if (label == 0xff) {
+        p++; // block size
+        const app = string(11);
+        const data = subBlocks();
+        if (app == "NETSCAPE2.0") loops = data[1]! | (data[2]! << 8);
+      } else if (label == 0xf9) {
+        p += 2; // block size, packed fields
+        delay = short() * 10;
+        p += 2; // transparent index, terminator
+      } else {
+        subBlocks();
+      }
+    } else if (block == 0x2c) {
+      p += 4;
+      const w = short();
+      const h = short();
+      const packed = byte();
+      const size = 1 << ((packed & 7) + 1);
+      const palette = [];
+      for (let i = 0; i < size; i++) {
+        palette.push({ r: byte(), g: byte(), b: byte() });
+      }
+      const minCodeSize = byte();
+      const indices = lzw(subBlocks(), minCodeSize, w * h);
+      frames.push({ width: w, height: h, indices, palette, delay });
+    } else {
+      throw new Error("Unexpected block " + block);
+    }
+  }
+  return { header, width, height, loops, frames };
+}
+
+function lzw(data: number[], minCodeSize: number, length: number) {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const out = new Uint8Array(length);
+  let n = 0;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let prev: number[] | null = null;
+  let bit = 0;
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < clear; i++) table[i] = [i];
+    table[clear] = [];
+    table[eoi] = [];
+    codeSize = minCodeSize + 1;
+    prev = null;
+  };
+  reset();
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3]! >> (bit & 7)) & 1) << i;
+    }
+    if (code == clear) {
+      reset();
+      continue;
+    }
+    if (code == eoi) break;
+    let entry: number[];
+    if (code < table.length) entry = table[code]!;
+    else entry = [...prev!, prev![0]!];
+    for (const v of entry) out[n++] = v;
+    if (prev) table.push([...prev, entry[0]!]);
+    prev = entry;
+    if (table.length == 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  expect(n).toBe(length);
+  return out;
+}
+
+const PALETTE = [
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 0, b: 255 },
+];
+const CHARS = " .:#";
+
+// One pixel per cell, the palette index is the index of the char
+function toFrame(buffer: Buffer, cols: number, rows: number): GIFFrame {
+  const indices = new Uint8Array(cols * rows);
+  for (let i = 0; i < indices.length; i++) {
+    indices[i] = CHARS.indexOf(buffer[i]!.char);
+  }
+  return { width: cols, height: rows, indices, palette: PALETTE, delay: 50 };
+}
+
+describe("gif.encode", () => {
+  test("encodes the frames of a program losslessly", () => {
+    const program: Program = {
+      main: (coord, context) => CHARS[(coord.x + coord.y + context.frame) % 4],
+    };
+    const frames = runHeadless(program, { cols: 12, rows: 5, frames: 3 });
+    const bytes = encode(frames.map((f) => toFrame(f, 12, 5)));
+    const gif = decode(bytes);
+    expect(gif.header).toBe("GIF89a");
+    expect(gif.width).toBe(12);
+    expect(gif.height).toBe(5);
+    expect(gif.loops).toBe(0);
+    expect(gif.frames.length).toBe(3);
+    for (let f = 0; f < 3; f++) {
+      const frame = gif.frames[f]!;
+      expect(frame.delay).toBe(50);
+      expect(frame.palette.slice(0, 4)).toEqual(PALETTE);
+      expect(Array.from(frame.indices)).toEqual(
+        Array.from(toFrame(frames[f]!, 12, 5).indices)
+      );
+    }
+  });
+
+  test("restarts the code table on noisy frames", () => {
+    // Noise needs more than 4096 codes: the encoder emits clear codes
+    const program: Program = {
+      main: (coord, context) => CHARS[Math.floor(context.random() * 4)],
+    };
+    const [frame] = runHeadless(program, { cols: 240, rows: 150 });
+    const input = toFrame(frame!, 240, 150);
+    const gif = decode(encode([input]));
+    expect(Array.from(gif.frames[0]!.indices)).toEqual(
+      Array.from(input.indices)
+    );
+  });
+
+  test("pads the palette to a power of two", () => {
+    const palette = PALETTE.slice(0, 3);
+    const indices = new Uint8Array([0, 1, 2, 1]);
+    const gif = decode(
+      encode([{ width: 2, height: 2, indices, palette, delay: 100 }])
+    );
+    expect(gif.frames[0]!.palette.length).toBe(4);
+    expect(gif.frames[0]!.palette[3]).toEqual({ r: 0, g: 0, b: 0 });
+    expect(Array.from(gif.frames[0]!.indices)).toEqual([0, 1, 2, 1]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+@module   gif
+@desc     Animated GIF encoder
+@category internal
+
+Encodes a list of indexed frames into an animated GIF (GIF89a).
+Each frame has its own palette (local color table, max 256 colors)
+and delay; the animation loops forever.
+
+const bytes = encode([
+	{ width, height, indices, palette, delay },
+	...
+])
+
+- indices : one palette index per pixel (Uint8Array, width × height)
+- palette : an array of {r, g, b}
+- delay   : frame duration in milliseconds
+*/
+
+import type { RGB } from "./color";
+
+export type GIFFrame = {
+  width: number;
+  height: number;
+  indices: Uint8Array;
+  palette: RGB[];
+  delay: number;
+};
+
+export function encode(frames: GIFFrame[]) {
+  const out = new ByteWriter();
+
+  // The logical screen is large enough to contain all the frames
+  const width = Math.max(...frames.map((f) => f.width));
+  const height = Math.max(...frames.map((f) => f.height));
+
+  // Header and logical screen descriptor (no global color table)
+  out.string("GIF89a");
+  out.short(width);
+  out.short(height);
+  out.byte(0x00); // packed fields
+  out.byte(0x00); // background color index
+  out.byte(0x00); // pixel aspect ratio
+
+  // Netscape application extension: loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(0x0b);
+  out.string("NETSCAPE2.0");
+  out.byte(0x03);
+  out.byte(0x01);
+  out.short(0); // 0 = infinite loop
+  out.byte(0x00);
+
+  for (const frame of frames) {
+    // Color table size is a power of two (min 2 entries)
+    const bits = Math.max(1, Math.ceil(Math.log2(frame.palette.length)));
+
+    // Graphic control extension: delay in 1/100 s
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(0x04);
+    out.byte(0x00); // no disposal, no transparency
+    out.short(Math.round(frame.delay / 10));
+    out.byte(0x00); // transparent color index
+    out.byte(0x00);
+
+    // Image descriptor with local color table
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(frame.width);
+    out.short(frame.height);
+    out.byte(0x80 | (bits - 1));
+
+    for (let i = 0; i < 1 << bits; i++) {
+      const c = frame.palette[i] || { r: 0, g: 0, b: 0 };
+      out.byte(c.r);
+      out.byte(c.g);
+      out.byte(c.b);
+    }
+
+    // Image data
+    const minCodeSize = Math.max(2, bits);
+    out.byte(minCodeSize);
+    lzw(frame.indices, minCodeSize, out);
+    out.byte(0x00); // block terminator
+  }
+
+  out.byte(0x3b); // trailer
+  return out.bytes();
+}
+
+// LZW compression with variable code size, written as data sub-blocks
+// https://www.w3.org/Graphics/GIF/spec-gif89a.txt (appendix F)
+function lzw(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  const table: Map<number, number> = new Map();
+
+  // Codes are packed LSB first into sub-blocks of max 255 bytes
+  let block: number[] = [];
+  let acc = 0;
+  let accBits = 0;
+
+  const emit = (code: number) => {
+    acc |= code << accBits;
+    accBits += codeSize;
+    while (accBits >= 8) {
+      block.push(acc & 0xff);
+      acc >>= 8;
+      accBits -= 8;
+      if (block.length == 255) flush();
+    }
+  };
+
+  const flush = () => {
+    if (block.length == 0) return;
+    out.byte(block.length);
+    for (const b of block) out.byte(b);
+    block = [];
+  };
+
+  emit(clearCode);
+  if (indices.length == 0) {
+    emit(eoiCode);
+  } else {
+    let prefix = indices[0]!;
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i]!;
+      const key = (prefix << 8) | k;
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      emit(prefix);
+      if (nextCode == 4096) {
+        // Table full: start over
+        emit(clearCode);
+        table.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = eoiCode + 1;
+      } else {
+        // The code size grows before the first code which needs it
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+    emit(prefix);
+    emit(eoiCode);
+  }
+
+  // Remaining bits
+  if (accBits > 0) block.push(acc & 0xff);
+  flush();
+}
+
+// A growable byte array
+class ByteWriter {
+  private data = new Uint8Array(1 << 16);
+  private length = 0;
+
+  byte(v: number) {
+    if (this.length == this.data.length) {
+      const data = new Uint8Array(this.data.length * 2);
+      data.set(this.data);
+      this.data = data;
+    }
+    this.data[this.length++] = v & 0xff;
+  }
+
+  // Little endian
+  short(v: number) {
+    this.byte(v);
+    this.byte(v >> 8);
+  }
+
+  string(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  bytes() {
+    return this.data.slice(0, this.length);
+  }
+}
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import GlyphShapes, { analyze } from "./glyphshape";
+
+// 2×2 descriptors
+const shapes = new GlyphShapes(
+  [" ", "/", "\\", "_", "#"],
+  2,
+  2,
+  [
+    [0, 0, 0, 0],
+    [0, 1, 1, 0],
+    [1, 0, 0, 1],
+    [0, 0, 1, 1],
+    [1, 1, 1, 1],
+  ]
+);
+
+describe("GlyphShapes", () => {
+  test("matches a block to the glyph with the closest shape", () => {
+    expect(shapes.match([0, 0.9, 0.8, 0.1])).toBe("/");
+    expect(shapes.match([0.7, 0.2, 0, 1])).toBe("\\");
+    expect(shapes.match([0, 0.1, 0.6, 0.6])).toBe("_");
+    expect(shapes.match([0.1, 0, 0, 0])).toBe(" ");
+    expect(shapes.matchIndex([1, 0.9, 1, 0.8])).toBe(4);
+  });
+
+  test("converts to plain data and back", () => {
+    const data = shapes.toJSON();
+    expect(data.descriptors[1]).toEqual([0, 1, 1, 0]);
+    const copy = new GlyphShapes(data.chars, 2, 2, data.descriptors);
+    expect(copy.match([0, 1, 1, 0])).toBe("/");
+  });
+
+  test("requires a descriptor for each char", () => {
+    expect(() => new GlyphShapes(["a", "b"], 1, 1, [[0]])).toThrow(
+      "One descriptor per char"
+    );
+  });
+});
+
+// A 2d context drawing the chars as a full (#) or empty cell,
+// or as their left half (|)
+class FakeContext {
+  canvas = { width: 0, height: 0 };
+  font = "";
+  fillStyle = "";
+  textAlign = "";
+  textBaseline = "";
+  private char = " ";
+  measureText() {
+    return { width: 20 };
+  }
+  fillRect() {
+    this.char = " ";
+  }
+  fillText(char: string) {
+    this.char = char;
+  }
+  getImageData(x: number, y: number, w: number, h: number) {
+    const data = new Uint8ClampedArray(w * h * 4);
+    for (let i = 0; i < w * h; i++) {
+      const left = i % w < w / 2;
+      const on = this.char == "#" || (this.char == "|" && left);
+      data[i * 4] = on ? 255 : 0;
+    }
+    return { data };
+  }
+}
+
+describe("analyze", () => {
+  beforeAll(() => {
+    Object.assign(globalThis, {
+      document: {
+        createElement: () => ({ getContext: () => new FakeContext() }),
+      },
+    });
+  });
+
+  afterAll(() => {
+    delete (globalThis as any).document;
+  });
+
+  test("measures the coverage of the glyphs", () => {
+    const analyzed = analyze(" #|", "test", 2, 3);
+    expect(analyzed.chars).toEqual([" ", "#", "|"]);
+    expect(analyzed.toJSON().descriptors).toEqual([
+      [0, 0, 0, 0, 0, 0],
+      [1, 1, 1, 1, 1, 1],
+      [1, 0, 1, 0, 1, 0],
+    ]);
+  });
+
+  test("caches the shapes by font, size and chars", () => {
+    const analyzed = analyze(" #|", "test", 2, 3);
+    expect(analyze([" ", "#", "|"], "test", 2, 3)).toBe(analyzed);
+    expect(analyze(" #|", "test", 3, 3)).not.toBe(analyzed);
+    expect(analyze(" #|", "other", 2, 3)).not.toBe(analyzed);
+  });
+});
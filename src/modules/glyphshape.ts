@@ -0,0 +1,156 @@
+/**
+@module   glyphshape
+@desc     Matches pixel blocks to the shape of glyphs
+@category public
+
+Each char of a set is rasterized and reduced to a small grid of coverage
+values (a descriptor, for example 3×4 values between 0 and 1 for each
+glyph). A block of pixels of the same size can then be matched to the
+glyph with the most similar shape: diagonals map to / and \, edges to | _
+and so on, instead of a char with the same brightness only (see sort).
+
+const shapes = glyphshape.analyze(' ./\\|_-', 'monospace')
+const char = shapes.match([0,0,1, 0,1,0, 0,1,0, 1,0,0]) // '/' (most fonts)
+
+The analysis is done once for each font, char set and size, the result
+is cached. It needs a canvas (but no DOM attachment); the descriptors
+can also be stored with toJSON() and passed to the constructor.
+Used by asciify (options.shapes).
+*/
+
+import { graphemes } from "./string";
+
+// Font size used to rasterize the glyphs (px)
+const FONT_SIZE = 48;
+
+// Analyzed sets, by font, char set and size
+const cache: Map<string, GlyphShapes> = new Map();
+
+export default class GlyphShapes {
+  chars: string[];
+  // Size of a descriptor
+  cols: number;
+  rows: number;
+  // Coverage (0-1) of each block of each glyph, row by row
+  descriptors: Float32Array[];
+
+  constructor(
+    chars: string[],
+    cols: number,
+    rows: number,
+    descriptors: ArrayLike<number>[]
+  ) {
+    if (chars.length != descriptors.length) {
+      throw new Error("glyphshape.js: One descriptor per char is required.");
+    }
+    this.chars = chars;
+    this.cols = cols;
+    this.rows = rows;
+    this.descriptors = descriptors.map((d) => Float32Array.from(d));
+  }
+
+  // Index of the glyph closest to a block of cols × rows
+  // coverage values (0 = empty, 1 = full)
+  matchIndex(block: ArrayLike<number>) {
+    let best = 0;
+    let min = Infinity;
+    const n = this.cols * this.rows;
+    for (let g = 0; g < this.descriptors.length; g++) {
+      const d = this.descriptors[g]!;
+      let dist = 0;
+      for (let k = 0; k < n && dist < min; k++) {
+        const diff = (block[k] || 0) - d[k]!;
+        dist += diff * diff;
+      }
+      if (dist < min) {
+        min = dist;
+        best = g;
+      }
+    }
+    return best;
+  }
+
+  // The glyph closest to a block (see matchIndex)
+  match(block: ArrayLike<number>) {
+    return this.chars[this.matchIndex(block)] ?? " ";
+  }
+
+  // Plain data, can be hardcoded and passed to the constructor
+  toJSON() {
+    return {
+      chars: this.chars,
+      cols: this.cols,
+      rows: this.rows,
+      descriptors: this.descriptors.map((d) => Array.from(d)),
+    };
+  }
+}
+
+// Rasterizes a char set and returns its shapes (cached)
+export function analyze(
+  charSet: string | string[],
+  fontFamily: string,
+  cols = 3,
+  rows = 4
+) {
+  const chars = typeof charSet == "string" ? graphemes(charSet) : charSet;
+  const key = fontFamily + "\n" + cols + "×" + rows + "\n" + chars.join("\n");
+  let shapes = cache.get(key);
+  if (!shapes) {
+    shapes = new GlyphShapes(
+      chars,
+      cols,
+      rows,
+      rasterize(chars, fontFamily, cols, rows)
+    );
+    cache.set(key, shapes);
+  }
+  return shapes;
+}
+
+function rasterize(
+  chars: string[],
+  fontFamily: string,
+  cols: number,
+  rows: number
+) {
+  const ctx = document.createElement("canvas").getContext("2d", {
+    willReadFrequently: true,
+  });
+  if (!ctx) throw new Error("glyphshape.js: Canvas not supported.");
+
+  // The canvas has the size of a cell of the font
+  const font = FONT_SIZE + "px " + fontFamily;
+  ctx.font = font;
+  const w = Math.max(1, Math.ceil(ctx.measureText("M").width));
+  const h = Math.ceil(FONT_SIZE * 1.2);
+  ctx.canvas.width = w;
+  ctx.canvas.height = h;
+
+  const out: Float32Array[] = [];
+  for (const char of chars) {
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, w, h);
+    ctx.fillStyle = "white";
+    ctx.font = font;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(char, w / 2, h / 2);
+    const data = ctx.getImageData(0, 0, w, h).data;
+
+    // Average of the red channel in each block
+    const sums = new Float32Array(cols * rows);
+    const counts = new Float32Array(cols * rows);
+    for (let y = 0; y < h; y++) {
+      const by = Math.min(rows - 1, Math.floor((y / h) * rows));
+      for (let x = 0; x < w; x++) {
+        const bx = Math.min(cols - 1, Math.floor((x / w) * cols));
+        const k = bx + by * cols;
+        sums[k] = sums[k]! + data[4 * (x + y * w)]! / 255;
+        counts[k] = counts[k]! + 1;
+      }
+    }
+    out.push(sums.map((s, k) => (counts[k] ? s / counts[k]! : 0)));
+  }
+  return out;
+}
@@ -1,16 +1,28 @@
+export * as asciify from './asciify';
 export * as buffer from './buffer';
 export * as camera from './camera';
 export * as canvas from './canvas';
+export * as cellbuffer from './cellbuffer';
 export * as color from './color';
+export * as dirty from './dirty';
 export * as drawbox from './drawbox';
 export * as exportframe from './exportframe';
 export * as filedownload from './filedownload';
+export * as glyphshape from './glyphshape';
 export * as image from './image';
+export * as layers from './layers';
+export * as layout from './layout';
 export * as load from './load';
+export * as markup from './markup';
 export * as num from './num';
+export * as pixelgrid from './pixelgrid';
+export * as random from './random';
+export * as recorder from './recorder';
 export * as sdf from './sdf';
 export * as sort from './sort';
 export * as string from './string';
 export * from './types';
+export * as ui from './ui';
 export * as vec2 from './vec2';
-export * as vec3 from './vec3';
\ No newline at end of file
+export * as vec3 from './vec3';
+export * as viewport from './viewport';
\ No newline at end of file
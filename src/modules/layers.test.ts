@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import { set } from "./buffer";
+import { asArray } from "./cellbuffer";
+import DirtyRegion, { isExact } from "./dirty";
+import { composite, getLayer, getLayers, removeLayer } from "./layers";
+import type { Buffer, Cell, Program, Settings } from "./types";
+
+const settings: Partial<Settings> = {
+  color: "black",
+  backgroundColor: "white",
+};
+
+// A program filled with dots, the layers are set up in pre()
+function program(
+  pre: Program["pre"],
+  extra: Partial<Settings> = {}
+): Program {
+  return {
+    pre,
+    main: () => ".",
+    settings: { ...settings, ...extra } as Settings,
+  };
+}
+
+function chars(frame: Buffer) {
+  return frame.map((cell) => cell.char).join("");
+}
+
+describe("layers", () => {
+  test("draw over the buffer, empty cells are transparent", () => {
+    const [frame] = runHeadless(
+      program((context, cursor, buffer) => {
+        const layer = getLayer(buffer, "top");
+        layer.buffer[1] = { char: "#", color: "red" };
+      }),
+      { cols: 4, rows: 1 }
+    );
+    expect(chars(frame!)).toBe(".#..");
+    expect(frame![1]!.color).toBe("red");
+  });
+
+  test("don’t modify the buffer of the program", () => {
+    let own: Buffer = [];
+    const p = program((context, cursor, buffer) => {
+      getLayer(buffer, "top").buffer[0] = { char: "#" };
+    });
+    p.post = (context, cursor, buffer) => {
+      own = asArray(buffer);
+    };
+    const [frame] = runHeadless(p, { cols: 2, rows: 1 });
+    expect(chars(frame!)).toBe("#.");
+    expect(own.map((c) => c.char).join("")).toBe("..");
+  });
+
+  test("are drawn in order of zIndex", () => {
+    const [frame] = runHeadless(
+      program((context, cursor, buffer) => {
+        getLayer(buffer, "b", { zIndex: 2 }).buffer[0] = { char: "b" };
+        getLayer(buffer, "a", { zIndex: 1 }).buffer[0] = { char: "a" };
+        getLayer(buffer, "a").buffer[1] = { char: "a" };
+        expect(getLayers(buffer).map((l) => l.name)).toEqual(["a", "b"]);
+      }),
+      { cols: 3, rows: 1 }
+    );
+    expect(chars(frame!)).toBe("ba.");
+  });
+
+  test("can be hidden and removed", () => {
+    const frames = runHeadless(
+      program((context, cursor, buffer) => {
+        const layer = getLayer(buffer, "top");
+        layer.buffer[0] = { char: "#" };
+        layer.visible = context.frame != 1;
+        if (context.frame == 2) removeLayer(buffer, "top");
+      }),
+      { cols: 2, rows: 1, frames: 3 }
+    );
+    expect(frames.map(chars)).toEqual(["#.", "..", ".."]);
+  });
+
+  test("blend the colors of cells without char", () => {
+    const [frame] = runHeadless(
+      program((context, cursor, buffer) => {
+        const normal = getLayer(buffer, "normal", { opacity: 0.5 });
+        normal.buffer[0] = { backgroundColor: "black" } as Cell;
+        const multiply = getLayer(buffer, "multiply", { blend: "multiply" });
+        multiply.buffer[1] = { backgroundColor: "#ff0000" } as Cell;
+        const screen = getLayer(buffer, "screen", { blend: "screen" });
+        screen.buffer[2] = { color: "#0000ff" } as Cell;
+      }),
+      { cols: 3, rows: 1 }
+    );
+    // The chars below are kept
+    expect(chars(frame!)).toBe("...");
+    expect(rgb(frame![0]!.backgroundColor)).toEqual([128, 128, 128]);
+    expect(rgb(frame![1]!.backgroundColor)).toEqual([255, 0, 0]);
+    expect(rgb(frame![2]!.color)).toEqual([0, 0, 255]);
+    expect(rgb(frame![2]!.backgroundColor ?? "white")).toEqual([
+      255, 255, 255,
+    ]);
+  });
+
+  test("fade their chars with the opacity", () => {
+    const [frame] = runHeadless(
+      program((context, cursor, buffer) => {
+        const layer = getLayer(buffer, "top", { opacity: 0.5 });
+        layer.buffer[0] = { char: "#", color: "black" };
+      }),
+      { cols: 1, rows: 1 }
+    );
+    expect(frame![0]!.char).toBe("#");
+    expect(rgb(frame![0]!.color)).toEqual([128, 128, 128]);
+  });
+
+  test("blend over the default colors", () => {
+    const [frame] = runHeadless(
+      {
+        pre: (context, cursor, buffer) => {
+          const layer = getLayer(buffer, "top", { opacity: 0.5 });
+          layer.buffer[0] = { backgroundColor: "black" } as Cell;
+          layer.buffer[1] = { char: "#" };
+        },
+        main: () => ".",
+      },
+      { cols: 2, rows: 1 }
+    );
+    // Over the white background of the renderers
+    expect(rgb(frame![0]!.backgroundColor)).toEqual([128, 128, 128]);
+    expect(rgb(frame![1]!.color)).toEqual([128, 128, 128]);
+  });
+
+  test("keep the dirty rows of the buffer", () => {
+    const region = new DirtyRegion();
+    const dirtyRows: number[][] = [];
+    let exact = false;
+    const p = program(
+      (context, cursor, buffer) => {
+        const layer = getLayer(buffer, "top");
+        const f = context.frame;
+        if (f == 0) set("#", 0, 2, layer.buffer, 3, 3);
+        if (f == 1) set("x", 1, 1, buffer, 3, 3);
+        if (f == 2) set("#", 0, 0, layer.buffer, 3, 3);
+        if (f == 3) layer.clear();
+        if (f == 4) layer.opacity = 0.5;
+      },
+      { dirtyTracking: true }
+    );
+    // The output drawn by the runner after post()
+    p.post = (context, cursor, buffer) => {
+      const output = composite(buffer);
+      exact = isExact(output);
+      dirtyRows.push(region.update(output, 3, 3));
+    };
+    runHeadless(p, { cols: 3, rows: 3, frames: 6 });
+    expect(exact).toBe(true);
+    expect(dirtyRows).toEqual([[0, 1, 2], [1], [0], [0, 2], [0, 1, 2], []]);
+  });
+
+  test("work with typed buffers", () => {
+    const [frame] = runHeadless(
+      program(
+        (context, cursor, buffer) => {
+          getLayer(buffer, "top").buffer[2] = { char: "#", color: "red" };
+        },
+        { typedBuffer: true }
+      ),
+      { cols: 3, rows: 1 }
+    );
+    expect(chars(frame!)).toBe("..#");
+    expect(rgb(frame![2]!.color)).toEqual([255, 0, 0]);
+  });
+
+  test("follow the size of the buffer", () => {
+    let size = 0;
+    runHeadless(
+      program((context, cursor, buffer) => {
+        size = getLayer(buffer, "top").buffer.length;
+      }),
+      { cols: 7, rows: 3 }
+    );
+    expect(size).toBe(21);
+  });
+});
+
+// Channels of a CSS color as written by the layers (hex, rgb() or a name)
+function rgb(color: string | undefined) {
+  const names: Record<string, number[]> = {
+    red: [255, 0, 0],
+    white: [255, 255, 255],
+    black: [0, 0, 0],
+    blue: [0, 0, 255],
+  };
+  if (!color) return undefined;
+  if (names[color]) return names[color];
+  const hex = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i);
+  if (hex) return hex.slice(1, 4).map((h) => parseInt(h, 16));
+  const fn = color.match(/rgba?\(([^)]+)\)/);
+  if (fn) {
+    return fn[1]!
+      .split(",")
+      .slice(0, 3)
+      .map((v) => Math.round(Number(v)));
+  }
+  return color;
+}
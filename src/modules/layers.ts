@@ -0,0 +1,325 @@
+/**
+@module   layers
+@desc     Layers drawn over the buffer of a program
+@category public
+
+A layer is a buffer of cols × rows cells which the runner draws over the
+buffer of the program, just before rendering. Overlays (info boxes,
+cursors, menus) don’t overwrite the frame below and can be toggled:
+
+const info = layers.getLayer(buffer, 'info', { zIndex: 1 })
+info.clear()
+drawInfo(context, cursor, info.buffer)
+...
+info.visible = false
+
+Layers belong to the buffer passed to the program: they are kept until
+removeLayer(), resized with the buffer and drawn in order of zIndex
+(layers with the same zIndex in order of creation). Their cells are kept
+between frames, clear() empties a layer.
+The cells of a layer:
+- an empty cell (undefined or null) is transparent
+- a cell without char keeps the char below, its colors are blended with
+  the colors below (for example a backgroundColor to highlight a region)
+- a cell with a char replaces the cell below (except for a missing
+  backgroundColor, which is kept)
+Colors are blended with the blend mode and the opacity of the layer;
+the chars of a layer with an opacity lower than 1 fade into the
+background. The buffer of the program is never modified.
+With settings.dirtyTracking the layers are tracked with the buffer:
+the cells written directly into a layer have to be marked as well
+(dirty.markDirty(layer.buffer, i), see dirty).
+*/
+
+import CellBuffer, {
+  TRANSPARENT,
+  packColor,
+  rgba,
+  unpackColor,
+} from "./cellbuffer";
+import { markAllDirty, markDirty, share } from "./dirty";
+import type {
+  AnyBuffer,
+  BlendMode,
+  Buffer,
+  Cell,
+  LayerOptions,
+} from "./types";
+
+const defaultOptions: LayerOptions = {
+  zIndex: 0,
+  visible: true,
+  opacity: 1,
+  blend: "normal",
+};
+
+// Colors of the renderers for the cells and settings without colors
+const DEFAULT_COLOR = "black";
+const DEFAULT_BACKGROUND = "white";
+
+type Stack = {
+  cols: number;
+  rows: number;
+  layers: Layer[];
+  // Buffer of the composited frame, created on first use
+  output: AnyBuffer | null;
+  // Visible layers and their options drawn by the last composite()
+  drawn: string;
+};
+
+// Layers of the buffers resized by the runners
+const stacks: WeakMap<AnyBuffer, Stack> = new WeakMap();
+
+// Blend functions, for channels between 0 and 255
+const BLEND: Record<BlendMode, (b: number, t: number) => number> = {
+  normal: (b, t) => t,
+  multiply: (b, t) => (b * t) / 255,
+  screen: (b, t) => 255 - ((255 - b) * (255 - t)) / 255,
+  overlay: (b, t) =>
+    b < 128 ? (2 * b * t) / 255 : 255 - (2 * (255 - b) * (255 - t)) / 255,
+  darken: (b, t) => Math.min(b, t),
+  lighten: (b, t) => Math.max(b, t),
+  add: (b, t) => Math.min(255, b + t),
+  difference: (b, t) => Math.abs(b - t),
+};
+
+export default class Layer {
+  name: string;
+  zIndex: number;
+  visible: boolean;
+  opacity: number;
+  blend: BlendMode;
+  cols: number;
+  rows: number;
+  // Empty cells are transparent
+  buffer: Buffer;
+
+  constructor(
+    name: string,
+    cols: number,
+    rows: number,
+    options: Partial<LayerOptions> = {}
+  ) {
+    const o = { ...defaultOptions, ...options };
+    this.name = name;
+    this.zIndex = o.zIndex;
+    this.visible = o.visible;
+    this.opacity = o.opacity;
+    this.blend = o.blend;
+    this.cols = 0;
+    this.rows = 0;
+    this.buffer = [];
+    this.resize(cols, rows);
+  }
+
+  // Resizes the layer, the content is cleared
+  resize(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.buffer = new Array(cols * rows);
+    this.clear();
+  }
+
+  // All the cells become transparent
+  clear() {
+    // The rows with content become dirty (see dirty)
+    for (let i = 0; i < this.buffer.length; i++) {
+      const cell = this.buffer[i];
+      if (cell !== undefined && cell !== null) markDirty(this.buffer, i);
+    }
+    this.buffer.fill(undefined as unknown as Cell);
+  }
+}
+
+// Returns the layer with the name, created with the options if it
+// doesn’t exist yet (the options are ignored otherwise)
+export function getLayer(
+  buffer: AnyBuffer,
+  name: string,
+  options: Partial<LayerOptions> = {}
+) {
+  const stack = stacks.get(buffer);
+  if (!stack) {
+    throw new Error(
+      "layers.js: Layers are available only for the buffer of a runner."
+    );
+  }
+  let layer = stack.layers.find((l) => l.name == name);
+  if (!layer) {
+    layer = new Layer(name, stack.cols, stack.rows, options);
+    share(buffer, layer.buffer);
+    stack.layers.push(layer);
+  }
+  return layer;
+}
+
+// Returns true if the layer existed
+export function removeLayer(buffer: AnyBuffer, name: string) {
+  const stack = stacks.get(buffer);
+  if (!stack) return false;
+  const idx = stack.layers.findIndex((l) => l.name == name);
+  if (idx < 0) return false;
+  stack.layers.splice(idx, 1);
+  return true;
+}
+
+// The layers of a buffer, in drawing order
+export function getLayers(buffer: AnyBuffer) {
+  const stack = stacks.get(buffer);
+  return stack ? sorted(stack.layers) : [];
+}
+
+// Resizes the layers of a buffer together with the buffer
+// (done by the runners)
+export function resize(buffer: AnyBuffer, cols: number, rows: number) {
+  let stack = stacks.get(buffer);
+  if (!stack) {
+    stack = { cols, rows, layers: [], output: null, drawn: "" };
+    stacks.set(buffer, stack);
+  }
+  stack.cols = cols;
+  stack.rows = rows;
+  for (const layer of stack.layers) {
+    layer.resize(cols, rows);
+    share(buffer, layer.buffer);
+  }
+}
+
+// Returns the buffer with the visible layers drawn over it (a separate
+// buffer) or the buffer itself if there are no visible layers.
+// The style fills the missing colors of the cells below.
+// The output shares the dirty tracker of the buffer (see dirty): the rows
+// marked in the buffer or in a layer are the dirty rows of the output.
+export function composite(buffer: AnyBuffer, style: Partial<Cell> = {}) {
+  const stack = stacks.get(buffer);
+  if (!stack) return buffer;
+  const layers = sorted(stack.layers).filter(
+    (l) => l.visible && l.opacity > 0
+  );
+  if (layers.length == 0) return buffer;
+
+  // A layer shown, hidden or with new options changes the whole output
+  const drawn = layers
+    .map((l) => [l.name, l.zIndex, l.opacity, l.blend].join("\n"))
+    .join("\n\n");
+  if (drawn != stack.drawn) {
+    stack.drawn = drawn;
+    markAllDirty(buffer);
+  }
+
+  if (buffer instanceof CellBuffer) {
+    if (!(stack.output instanceof CellBuffer)) {
+      stack.output = new CellBuffer();
+      share(buffer, stack.output);
+    }
+    const out = stack.output;
+    out.copy(buffer);
+    for (let i = 0; i < out.length; i++) {
+      const cell = compose(out, i, layers, style);
+      if (cell) out.set(i, cell);
+    }
+    return out;
+  }
+
+  if (!Array.isArray(stack.output)) {
+    stack.output = [];
+    share(buffer, stack.output);
+  }
+  const out = stack.output;
+  out.length = buffer.length;
+  for (let i = 0; i < buffer.length; i++) {
+    out[i] = compose(buffer, i, layers, style) || buffer[i]!;
+  }
+  return out;
+}
+
+// The cell at index with the layers drawn over it,
+// undefined if all the layers are transparent there
+function compose(
+  buffer: AnyBuffer,
+  i: number,
+  layers: Layer[],
+  style: Partial<Cell>
+) {
+  let cell: Cell | undefined;
+  for (const layer of layers) {
+    const top = layer.buffer[i];
+    if (top === undefined || top === null) continue;
+    if (!cell) {
+      cell = toCell(buffer instanceof CellBuffer ? buffer.get(i) : buffer[i]);
+    }
+    cell = blendCell(cell, toCell(top), layer, style);
+  }
+  return cell;
+}
+
+function blendCell(
+  below: Cell,
+  top: Cell,
+  layer: Layer,
+  style: Partial<Cell>
+) {
+  const fn = BLEND[layer.blend] || BLEND.normal;
+  // The colors drawn below
+  const bg =
+    below.backgroundColor || style.backgroundColor || DEFAULT_BACKGROUND;
+  const fg = below.color || style.color || DEFAULT_COLOR;
+  const out: Cell = { ...below };
+  if (top.backgroundColor !== undefined) {
+    out.backgroundColor = blend(bg, top.backgroundColor, fn, layer.opacity);
+  }
+  if (top.char === undefined || top.char === null) {
+    if (top.color !== undefined) {
+      out.color = blend(fg, top.color, fn, layer.opacity);
+    }
+    return out;
+  }
+  // The char of the layer replaces the char below,
+  // its color is blended with the new background
+  const { color, backgroundColor, ...rest } = top;
+  Object.assign(out, rest);
+  if (layer.opacity < 1) {
+    const base = out.backgroundColor || bg;
+    const topColor = color || style.color || DEFAULT_COLOR;
+    out.color = blend(base, topColor, BLEND.normal, layer.opacity);
+  } else if (color !== undefined) {
+    out.color = color;
+  } else if (style.color !== undefined) {
+    out.color = style.color;
+  }
+  return out;
+}
+
+// Blends the top color over the bottom color (CSS colors):
+// the alpha of the top color is multiplied by the opacity
+function blend(
+  bottom: string | undefined,
+  top: string | undefined,
+  fn: (b: number, t: number) => number,
+  opacity: number
+) {
+  const t = packColor(top);
+  if (t == 0 || t == TRANSPARENT) return bottom;
+  const b = packColor(bottom);
+  const a = ((t & 0xff) / 255) * opacity;
+  if (a >= 1 && fn == BLEND.normal) return top;
+  // Nothing to blend with (unsupported color): the opacity is kept
+  if (b == 0) {
+    return unpackColor(rgba(t >>> 24, (t >>> 16) & 0xff, (t >>> 8) & 0xff, a));
+  }
+  const mix = (shift: number) => {
+    const bc = (b >>> shift) & 0xff;
+    const tc = (t >>> shift) & 0xff;
+    return bc + (fn(bc, tc) - bc) * a;
+  };
+  return unpackColor(rgba(mix(24), mix(16), mix(8), (b & 0xff) / 255));
+}
+
+function toCell(val: any): Cell {
+  return typeof val == "object" && val !== null ? val : { char: val };
+}
+
+function sorted(layers: Layer[]) {
+  // Array.sort is stable: the order of creation is kept
+  return layers.slice().sort((a, b) => a.zIndex - b.zIndex);
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import { draw, find, naturalSize, resolve } from "./layout";
+import type { Context, LayoutBox, LayoutNode } from "./types";
+
+// x, y, width and height of the children of a box
+const rects = (box: LayoutBox) =>
+  box.children.map(({ x, y, width, height }) => [x, y, width, height]);
+
+describe("resolve", () => {
+  test("shares the free space between the flexible children", () => {
+    const node: LayoutNode = {
+      direction: "row",
+      children: [{ size: 10 }, {}, { flex: 3 }],
+    };
+    // The sizes are rounded at both ends: 10, 7.5 and 22.5
+    expect(rects(resolve(node, 40, 10))).toEqual([
+      [0, 0, 10, 10],
+      [10, 0, 8, 10],
+      [18, 0, 22, 10],
+    ]);
+  });
+
+  test("limits the sizes to min and max", () => {
+    const node: LayoutNode = {
+      children: [{ max: 4 }, {}, { min: 12 }, { size: 1, min: 2 }],
+    };
+    expect(rects(resolve(node, 5, 22))).toEqual([
+      [0, 0, 5, 4],
+      [0, 4, 5, 4],
+      [0, 8, 5, 12],
+      [0, 20, 5, 2],
+    ]);
+  });
+
+  test("sizes the auto children to their content", () => {
+    const node: LayoutNode = {
+      direction: "row",
+      gap: 2,
+      children: [{ size: "auto", style: {}, text: "hello\nhi" }, {}],
+    };
+    const box = resolve(node, 30, 6);
+    expect(rects(box)).toEqual([
+      [0, 0, 7, 6],
+      [9, 0, 21, 6],
+    ]);
+    const { inner } = box.children[0]!;
+    expect(inner).toEqual({ x: 1, y: 1, width: 5, height: 4 });
+  });
+
+  test("justifies and aligns the children", () => {
+    const node: LayoutNode = {
+      direction: "row",
+      gap: 2,
+      justify: "center",
+      align: "center",
+      children: [
+        { size: 4, text: "ab" },
+        { size: 4, text: "a\nb\nc" },
+      ],
+    };
+    expect(rects(resolve(node, 20, 5))).toEqual([
+      [5, 2, 4, 1],
+      [11, 1, 4, 3],
+    ]);
+    node.justify = "space-between";
+    node.align = "end";
+    expect(rects(resolve(node, 20, 5))).toEqual([
+      [0, 4, 4, 1],
+      [16, 2, 4, 3],
+    ]);
+  });
+
+  test("keeps the margins and the padding out of the children", () => {
+    const node: LayoutNode = {
+      margin: 1,
+      padding: 1,
+      style: {},
+      children: [{ marginX: 2 }, { size: 2, marginY: 1 }],
+    };
+    const box = resolve(node, 20, 12);
+    expect([box.x, box.y, box.width, box.height]).toEqual([1, 1, 18, 10]);
+    expect(box.inner).toEqual({ x: 3, y: 3, width: 14, height: 6 });
+    expect(rects(box)).toEqual([
+      [5, 3, 10, 2],
+      [3, 6, 14, 2],
+    ]);
+  });
+
+  test("places the children of a grid in equal cells", () => {
+    const node: LayoutNode = {
+      columns: 2,
+      gap: 1,
+      children: [{}, {}, { margin: 1 }],
+    };
+    expect(rects(resolve(node, 11, 7, 1, 1))).toEqual([
+      [1, 1, 5, 3],
+      [7, 1, 5, 3],
+      [2, 6, 3, 1],
+    ]);
+  });
+
+  test("finds the box of a node", () => {
+    const node: LayoutNode = {
+      children: [{ id: "top", size: 2 }, { children: [{ id: "view" }] }],
+    };
+    const box = resolve(node, 10, 10);
+    expect(find(box, "view")?.y).toBe(2);
+    expect(find(box, "view")?.height).toBe(8);
+    expect(find(box, "none")).toBeUndefined();
+  });
+});
+
+describe("naturalSize", () => {
+  test("measures the content, the padding and the border", () => {
+    const node: LayoutNode = { style: {}, padding: 1, text: "🌮abc\nd" };
+    expect(naturalSize(node, true)).toBe(9);
+    expect(naturalSize(node, false)).toBe(6);
+    // The title fits in the top border
+    expect(naturalSize({ style: {}, title: "Settings" }, true)).toBe(12);
+  });
+
+  test("adds up the children along the stack", () => {
+    const node: LayoutNode = {
+      direction: "row",
+      gap: 1,
+      children: [
+        { text: "abc" },
+        { size: 5, marginX: 1, text: "a\nb" },
+        { max: 2, text: "abcd" },
+      ],
+    };
+    expect(naturalSize(node, true)).toBe(3 + 7 + 2 + 2);
+    expect(naturalSize(node, false)).toBe(2);
+  });
+});
+
+describe("draw", () => {
+  test("cuts the texts to the boxes", () => {
+    const cols = 8;
+    const rows = 4;
+    const buffer = Array.from({ length: cols * rows }, () => ({ char: " " }));
+    const context = { cols, rows } as Context;
+    const node: LayoutNode = {
+      style: { borderStyle: "none" },
+      direction: "row",
+      children: [{ size: 3, text: "abcdef gh\nij\nkl\nmn\nop" }, {}],
+    };
+    draw(node, context, buffer);
+    const lines = [];
+    for (let j = 0; j < rows; j++) {
+      const row = buffer.slice(j * cols, (j + 1) * cols);
+      lines.push(row.map((cell) => cell.char).join(""));
+    }
+    expect(lines).toEqual(["abc     ", "gh      ", "ij      ", "kl      "]);
+  });
+});
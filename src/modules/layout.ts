@@ -0,0 +1,345 @@
+/**
+@module   layout
+@desc     Declarative layout of boxes: stacks, flex and grids
+@category public
+
+A tree of nodes is resolved to rectangles against the size of the
+screen (or of any rectangle) and drawn with drawbox. As it’s resolved at
+each draw, the layout follows the size of the window:
+
+const hud = {
+  direction: 'column',
+  children: [
+    { size: 3, style: { borderStyle: 'double' }, text: 'Title' },
+    { direction: 'row', gap: 1, children: [
+      { size: 20, style: {}, title: 'Menu', text: '...' },
+      { id: 'view' },
+      { size: 'auto', min: 12, style: {}, text: 'Info' },
+    ]},
+  ],
+}
+
+export function post(context, cursor, buffer) {
+  const box = layout.draw(hud, context, buffer)
+  const view = layout.find(box, 'view') // { x, y, width, height, ... }
+}
+
+The children of a node are stacked along its direction. Their size
+along the stack is fixed (size), the size of their content (size: 'auto')
+or a share (flex) of the free space, in all cases limited by min and
+max. Across the stack they fill the node (align: 'stretch') or take the
+size of their content. With columns the children are placed in a grid
+of equal cells instead.
+Nodes with a style are drawn as boxes (with border, background and
+shadow, see drawbox), the border and the padding are inside of the
+box, the margins outside. Texts are wrapped to the width of the box
+and cut to its height.
+*/
+
+import { mergeText } from "./buffer";
+import { drawBox } from "./drawbox";
+import { fit, measure, textWidth, wrap } from "./string";
+import type {
+  AnyBuffer,
+  Context,
+  LayoutBox,
+  LayoutNode,
+  LayoutRect,
+} from "./types";
+
+// Resolves a layout for a rectangle (by default cols × rows at 0, 0)
+export function resolve(
+  node: LayoutNode,
+  cols: number,
+  rows: number,
+  x = 0,
+  y = 0
+): LayoutBox {
+  const mx = marginX(node);
+  const my = marginY(node);
+  return resolveNode(node, {
+    x: x + mx,
+    y: y + my,
+    width: Math.max(0, cols - mx * 2),
+    height: Math.max(0, rows - my * 2),
+  });
+}
+
+// Resolves the layout against the size of the context and draws it
+export function draw(node: LayoutNode, context: Context, target: AnyBuffer) {
+  const box = resolve(node, context.cols, context.rows);
+  drawTree(box, target, context.cols, context.rows);
+  return box;
+}
+
+// Draws the boxes and the texts of a resolved layout
+export function drawTree(
+  box: LayoutBox,
+  target: AnyBuffer,
+  targetCols: number,
+  targetRows: number
+) {
+  const { node, inner } = box;
+  if (box.width > 0 && box.height > 0) {
+    const style = node.style;
+    if (style) {
+      const rect = { x: box.x, y: box.y, width: box.width, height: box.height };
+      drawBox("", { ...style, ...rect }, target, targetCols, targetRows);
+      if (node.title && box.width > 4) {
+        const text = fit(" " + node.title + " ", box.width - 4);
+        const obj = { text, ...colors(node) };
+        mergeText(obj, box.x + 2, box.y, target, targetCols, targetRows);
+      }
+    }
+    if (node.text && inner.width > 0 && inner.height > 0) {
+      const lines = wrap(node.text, inner.width).text.split("\n");
+      const text = lines
+        .slice(0, inner.height)
+        .map((line) => fit(line, inner.width).trimEnd())
+        .join("\n");
+      const obj = { text, ...colors(node) };
+      mergeText(obj, inner.x, inner.y, target, targetCols, targetRows);
+    }
+  }
+  for (const child of box.children) {
+    drawTree(child, target, targetCols, targetRows);
+  }
+}
+
+// Returns the box of the node with the id, if any
+export function find(box: LayoutBox, id: string): LayoutBox | undefined {
+  if (box.node.id === id) return box;
+  for (const child of box.children) {
+    const found = find(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Natural size of a node (its content, padding and border), along x or y
+export function naturalSize(node: LayoutNode, horizontal: boolean): number {
+  const inset = horizontal ? insetX(node) : insetY(node);
+  let content = 0;
+  const children = node.children ?? [];
+  if (node.text) {
+    const m = measure(node.text);
+    // measure() counts the line breaks
+    content = horizontal ? m.maxWidth : m.numLines + 1;
+  } else if (node.columns && children.length > 0) {
+    const cols = Math.min(node.columns, children.length);
+    const n = horizontal ? cols : Math.ceil(children.length / cols);
+    let cell = 0;
+    for (const child of children) {
+      const size = naturalSize(child, horizontal);
+      cell = Math.max(cell, size + margin(child, horizontal) * 2);
+    }
+    content = n * cell + (n - 1) * (node.gap ?? 0);
+  } else if (children.length > 0) {
+    const along = (node.direction == "row") == horizontal;
+    for (const child of children) {
+      const size = outerSize(child, horizontal, along);
+      content = along ? content + size : Math.max(content, size);
+    }
+    if (along) content += (children.length - 1) * (node.gap ?? 0);
+  }
+  if (horizontal && node.title) {
+    content = Math.max(content, textWidth(node.title) + 4 - inset * 2);
+  }
+  return content + inset * 2;
+}
+
+// -- Resolution ---------------------------------------------------------------
+
+function resolveNode(node: LayoutNode, rect: LayoutRect): LayoutBox {
+  const ix = insetX(node);
+  const iy = insetY(node);
+  const inner = {
+    x: rect.x + ix,
+    y: rect.y + iy,
+    width: Math.max(0, rect.width - ix * 2),
+    height: Math.max(0, rect.height - iy * 2),
+  };
+  const children = node.columns ? grid(node, inner) : stack(node, inner);
+  return { ...rect, node, inner, children };
+}
+
+// The children along the direction of the node
+function stack(node: LayoutNode, inner: LayoutRect) {
+  const children = node.children ?? [];
+  const n = children.length;
+  if (n == 0) return [];
+  const row = node.direction == "row";
+  const main = row ? inner.width : inner.height;
+  const cross = row ? inner.height : inner.width;
+  const gap = node.gap ?? 0;
+  const margins = children.map((c) => margin(c, row) * 2);
+
+  // Fixed and content sizes first, the free space is shared by the others
+  const sizes = children.map((c) => {
+    if (typeof c.size == "number") return clamp(c, c.size);
+    if (c.size == "auto") return clamp(c, naturalSize(c, row));
+    return 0;
+  });
+  const flexible = children.map(
+    (c) => c.size === undefined && (c.flex ?? 1) > 0
+  );
+  const used = sum(margins) + gap * (n - 1);
+  share(children, sizes, flexible, main - used);
+
+  // Free space left: the children are justified
+  const free = Math.max(0, main - used - sum(sizes));
+  let offset = 0;
+  let between = gap;
+  if (node.justify == "center") offset = free / 2;
+  else if (node.justify == "end") offset = free;
+  else if (node.justify == "space-between" && n > 1) {
+    between += free / (n - 1);
+  }
+
+  const out: LayoutBox[] = [];
+  let pos = (row ? inner.x : inner.y) + offset;
+  for (let i = 0; i < n; i++) {
+    const c = children[i]!;
+    const m = margins[i]! / 2;
+    // Rounded at both ends: the sizes add up to the size of the node
+    const start = Math.round(pos + m);
+    const end = Math.round(pos + m + sizes[i]!);
+    pos += sizes[i]! + margins[i]! + between;
+
+    const crossMargin = margin(c, !row);
+    const available = Math.max(0, cross - crossMargin * 2);
+    let crossSize = available;
+    let crossPos = (row ? inner.y : inner.x) + crossMargin;
+    const align = node.align ?? "stretch";
+    if (align != "stretch") {
+      crossSize = Math.min(available, naturalSize(c, !row));
+      const rest = available - crossSize;
+      if (align == "center") crossPos += Math.floor(rest / 2);
+      else if (align == "end") crossPos += rest;
+    }
+
+    const rect = row
+      ? { x: start, y: crossPos, width: end - start, height: crossSize }
+      : { x: crossPos, y: start, width: crossSize, height: end - start };
+    out.push(resolveNode(c, rect));
+  }
+  return out;
+}
+
+// Shares the space between the flexible children (by weight),
+// respecting min and max: the children out of their limits get
+// the limit and the space is shared again between the others
+function share(
+  children: LayoutNode[],
+  sizes: number[],
+  flexible: boolean[],
+  space: number
+) {
+  const open = flexible.slice();
+  for (;;) {
+    let weight = 0;
+    let fixed = 0;
+    for (let i = 0; i < children.length; i++) {
+      if (open[i]) weight += children[i]!.flex ?? 1;
+      else fixed += sizes[i]!;
+    }
+    if (weight == 0) return;
+    const free = Math.max(0, space - fixed);
+    let limited = false;
+    for (let i = 0; i < children.length; i++) {
+      if (!open[i]) continue;
+      const c = children[i]!;
+      const size = (free * (c.flex ?? 1)) / weight;
+      if (size != clamp(c, size)) {
+        sizes[i] = clamp(c, size);
+        open[i] = false;
+        limited = true;
+      }
+    }
+    if (limited) continue;
+    for (let i = 0; i < children.length; i++) {
+      if (open[i]) sizes[i] = (free * (children[i]!.flex ?? 1)) / weight;
+    }
+    return;
+  }
+}
+
+// The children in a grid of equal cells, row by row
+function grid(node: LayoutNode, inner: LayoutRect) {
+  const children = node.children ?? [];
+  if (children.length == 0) return [];
+  const cols = Math.max(1, Math.floor(node.columns!));
+  const rows = Math.ceil(children.length / cols);
+  const gap = node.gap ?? 0;
+  const cellW = (inner.width - gap * (cols - 1)) / cols;
+  const cellH = (inner.height - gap * (rows - 1)) / rows;
+  return children.map((c, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    const x1 = Math.round(inner.x + col * (cellW + gap));
+    const y1 = Math.round(inner.y + row * (cellH + gap));
+    const x2 = Math.round(inner.x + col * (cellW + gap) + cellW);
+    const y2 = Math.round(inner.y + row * (cellH + gap) + cellH);
+    const mx = marginX(c);
+    const my = marginY(c);
+    return resolveNode(c, {
+      x: x1 + mx,
+      y: y1 + my,
+      width: Math.max(0, x2 - x1 - mx * 2),
+      height: Math.max(0, y2 - y1 - my * 2),
+    });
+  });
+}
+
+// -- Helpers ------------------------------------------------------------------
+
+// Size of a child with its margins, along or across the parent
+function outerSize(node: LayoutNode, horizontal: boolean, along: boolean) {
+  let size = naturalSize(node, horizontal);
+  if (along && typeof node.size == "number") size = node.size;
+  if (along) size = clamp(node, size);
+  return size + margin(node, horizontal) * 2;
+}
+
+function clamp(node: LayoutNode, size: number) {
+  return Math.max(node.min ?? 0, Math.min(node.max ?? Infinity, size));
+}
+
+function border(node: LayoutNode) {
+  if (!node.style) return 0;
+  return (node.style.borderStyle ?? "round") == "none" ? 0 : 1;
+}
+
+function insetX(node: LayoutNode) {
+  return border(node) + (node.paddingX ?? node.padding ?? 0);
+}
+
+function insetY(node: LayoutNode) {
+  return border(node) + (node.paddingY ?? node.padding ?? 0);
+}
+
+function marginX(node: LayoutNode) {
+  return node.marginX ?? node.margin ?? 0;
+}
+
+function marginY(node: LayoutNode) {
+  return node.marginY ?? node.margin ?? 0;
+}
+
+function margin(node: LayoutNode, horizontal: boolean) {
+  return horizontal ? marginX(node) : marginY(node);
+}
+
+function sum(values: number[]) {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+// The defined colors of the style of a node, for its texts
+function colors(node: LayoutNode) {
+  const out: Record<string, string> = {};
+  const s = node.style;
+  if (s?.color) out.color = s.color;
+  if (s?.backgroundColor) out.backgroundColor = s.backgroundColor;
+  if (s?.fontWeight) out.fontWeight = s.fontWeight;
+  return out;
+}
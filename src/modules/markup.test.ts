@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import { mergeText } from "./buffer";
+import { drawBox } from "./drawbox";
+import { escape, parse, strip } from "./markup";
+import { measure, wrap } from "./string";
+import type { Buffer, Program } from "./types";
+
+// Runs a program which draws in post(), returns the first frame
+function draw(post: Program["post"], cols = 20, rows = 5) {
+  const [frame] = runHeadless({ post }, { cols, rows });
+  return frame!;
+}
+
+function row(frame: Buffer, y: number, cols = 20) {
+  return frame
+    .slice(y * cols, (y + 1) * cols)
+    .map((cell) => cell.char)
+    .join("");
+}
+
+describe("markup.parse", () => {
+  test("splits a text into styled spans", () => {
+    expect(parse("{red}warning{/} {b}bold{/}")).toEqual([
+      { text: "warning", style: { color: "red" } },
+      { text: " ", style: {} },
+      { text: "bold", style: { fontWeight: "bold" } },
+    ]);
+  });
+
+  test("merges nested tags, the decorations add up", () => {
+    const spans = parse("{b}{#0af}{u}{s}x{/}{/}{/}{/}");
+    expect(spans).toEqual([
+      {
+        text: "x",
+        style: {
+          fontWeight: "bold",
+          color: "#0af",
+          textDecoration: "underline line-through",
+        },
+      },
+    ]);
+  });
+
+  test("closes tags by name", () => {
+    const spans = parse("{b}{red}a{/b}b{/}c");
+    expect(spans.map((s) => [s.text, s.style])).toEqual([
+      ["a", { fontWeight: "bold", color: "red" }],
+      ["b", { color: "red" }],
+      ["c", {}],
+    ]);
+  });
+
+  test("reads fg, bg and the other tags", () => {
+    const [span] = parse("{bg=yellow}{fg=blue}{i}{inverse}{dim}x");
+    expect(span!.style).toEqual({
+      backgroundColor: "yellow",
+      color: "blue",
+      fontStyle: "italic",
+      inverse: true,
+      opacity: 0.5,
+    });
+  });
+
+  test("keeps braces which are not tags", () => {
+    expect(strip("{} { a } {{b} {/zz}end")).toBe("{} { a } {b} end");
+    expect(parse("a {/zz}b")).toEqual([{ text: "a b", style: {} }]);
+  });
+
+  test("escape() keeps a text as it is", () => {
+    expect(strip(escape("{red}x{/}"))).toBe("{red}x{/}");
+  });
+});
+
+describe("string with markup", () => {
+  test("measure() doesn’t count the tags", () => {
+    expect(measure("{red}abc{/}\n{b}de{/}", true).maxWidth).toBe(3);
+    expect(measure("{red}abc{/}", false).maxWidth).toBe(11);
+  });
+
+  test("wrap() measures the words without the tags", () => {
+    const text = "{red}aaaa{/} {b}bbbb{/} cccc";
+    const wrapped = wrap(text, 9, true);
+    expect(wrapped.text).toBe("{red}aaaa{/} {b}bbbb{/}\ncccc");
+    expect(wrapped.maxWidth).toBe(9);
+    expect(strip(wrapped.text)).toBe("aaaa bbbb\ncccc");
+    // Without markup the tags count
+    expect(wrap(text, 9).text.split("\n").length).toBe(3);
+  });
+});
+
+describe("mergeText with markup", () => {
+  test("styles each char, the fields of the object are the base", () => {
+    const frame = draw((context, cursor, buffer) => {
+      const text = "{red}a🌮{/}b\n{b}c{/}";
+      const obj = { text, color: "blue", markup: true };
+      mergeText(obj, 1, 1, buffer, context.cols, context.rows);
+    });
+    expect(row(frame, 1)).toBe(" a🌮b" + " ".repeat(15));
+    expect(row(frame, 2)).toBe(" c" + " ".repeat(18));
+    const at = (x: number, y: number) => frame[x + y * 20]!;
+    expect(at(1, 1).color).toBe("red");
+    expect(at(2, 1).color).toBe("red");
+    expect(at(3, 1)).toMatchObject({ char: "", color: "red" });
+    expect(at(4, 1).color).toBe("blue");
+    expect(at(1, 2)).toMatchObject({ color: "blue", fontWeight: "bold" });
+    expect(at(1, 2).markup).toBeUndefined();
+  });
+
+  test("is opt-in", () => {
+    const frame = draw((context, cursor, buffer) => {
+      mergeText("{red}a{/}", 0, 0, buffer, context.cols, context.rows);
+    });
+    expect(row(frame, 0).trimEnd()).toBe("{red}a{/}");
+  });
+});
+
+describe("drawBox with markup", () => {
+  test("sizes the box without the tags and styles the text", () => {
+    const frame = draw((context, cursor, buffer) => {
+      const style = { x: 0, y: 0, paddingX: 1, paddingY: 1, markup: true };
+      drawBox("v {b}42{/}\n", style, buffer, context.cols, context.rows);
+    });
+    expect(row(frame, 0).trimEnd()).toBe("╭────╮");
+    expect(row(frame, 1).trimEnd()).toBe("│v 42│");
+    expect(row(frame, 2).trimEnd()).toBe("╰────╯");
+    expect(frame[1 + 20 * 1]!.fontWeight).not.toBe("bold");
+    expect(frame[3 + 20 * 1]!.fontWeight).toBe("bold");
+  });
+});
@@ -0,0 +1,130 @@
+/**
+@module   markup
+@desc     Inline styles for texts
+@category public
+
+Parts of a text can be styled with tags in braces, each tag is closed
+by {/} (the last open tag) or by {/name} (the last open tag with that
+name). Tags can be nested:
+
+'{red}warning{/} {b}bold {#0af}and blue{/}{/} {bg=yellow}marked{/}'
+
+Tags:
+b, bold        fontWeight 'bold'
+i, italic      fontStyle 'italic'
+u, underline   textDecoration 'underline'
+s, strike      textDecoration 'line-through'
+inverse        swaps color and backgroundColor
+dim            opacity 0.5
+fg=color       color
+bg=color       backgroundColor
+any other name is a color: {red}, {#f80}, {rgb(255,128,0)}
+
+Tags don’t contain spaces: braces which don’t form a tag ({}, { a })
+are kept as text, {{ is a literal brace (see escape).
+The markup is opt-in, for the texts which ask for it:
+
+mergeText({ text, markup: true }, x, y, buffer, cols, rows)
+drawBox(text, { markup: true }, buffer, cols, rows)
+wrap(text, width, true) // widths without the tags
+*/
+
+import type { Cell, MarkupSpan } from "./types";
+
+// A tag, or an escaped brace
+const TAG = /\{\{|\{(\/?)([^{}\s]*)\}/g;
+
+const TAGS: Record<string, Partial<Cell>> = {
+  b: { fontWeight: "bold" },
+  bold: { fontWeight: "bold" },
+  i: { fontStyle: "italic" },
+  italic: { fontStyle: "italic" },
+  u: { textDecoration: "underline" },
+  underline: { textDecoration: "underline" },
+  s: { textDecoration: "line-through" },
+  strike: { textDecoration: "line-through" },
+  inverse: { inverse: true },
+  dim: { opacity: 0.5 },
+};
+
+// Splits a text into spans of plain text with their style,
+// the line breaks are kept in the text of the spans
+export function parse(text: string): MarkupSpan[] {
+  const spans: MarkupSpan[] = [];
+  const open: { name: string; style: Partial<Cell> }[] = [];
+  let style: Partial<Cell> = {};
+  let last = 0;
+
+  const push = (str: string) => {
+    if (str == "") return;
+    const prev = spans[spans.length - 1];
+    if (prev && prev.style === style) prev.text += str;
+    else spans.push({ text: str, style });
+  };
+
+  for (const m of text.matchAll(TAG)) {
+    push(text.slice(last, m.index));
+    last = m.index! + m[0].length;
+    const close = m[1] == "/";
+    const name = m[2] ?? "";
+    if (m[0] == "{{") {
+      push("{");
+    } else if (close) {
+      let i = open.length - 1;
+      if (name != "") while (i >= 0 && open[i]!.name != name) i--;
+      // Unmatched closing tags are dropped
+      if (i >= 0) {
+        open.splice(i, 1);
+        style = combine(open);
+      }
+    } else if (name == "") {
+      push(m[0]);
+    } else {
+      open.push({ name, style: tagStyle(name) });
+      style = combine(open);
+    }
+  }
+  push(text.slice(last));
+  return spans;
+}
+
+// The text without the tags
+export function strip(text: string) {
+  return parse(text)
+    .map((span) => span.text)
+    .join("");
+}
+
+// Escapes the braces of a text, to insert it into markup as it is
+export function escape(text: string) {
+  return text.replaceAll("{", "{{");
+}
+
+function tagStyle(name: string): Partial<Cell> {
+  const style = TAGS[name];
+  if (style) return style;
+  const eq = name.indexOf("=");
+  if (eq < 0) return { color: name };
+  const key = name.slice(0, eq);
+  const value = name.slice(eq + 1);
+  if (key == "fg") return { color: value };
+  if (key == "bg") return { backgroundColor: value };
+  return {};
+}
+
+// The style of the open tags, the inner ones override the outer ones
+// (the decorations add up)
+function combine(open: { style: Partial<Cell> }[]) {
+  const style: Partial<Cell> = {};
+  for (const tag of open) {
+    for (const [key, value] of Object.entries(tag.style)) {
+      const deco = style.textDecoration;
+      if (key == "textDecoration" && deco && !deco.includes(value)) {
+        style.textDecoration = deco + " " + value;
+      } else {
+        style[key] = value;
+      }
+    }
+  }
+  return style;
+}
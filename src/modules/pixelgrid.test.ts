@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import PixelGrid from "./pixelgrid";
+import type { Buffer, PixelMode, Program } from "./types";
+
+// Draws a grid of the size of the screen in pre(), returns the frame
+function render(
+  mode: PixelMode,
+  draw: (grid: PixelGrid) => void,
+  cols = 1,
+  rows = 1
+) {
+  const grid = new PixelGrid(mode);
+  const program: Program = {
+    pre: (context, cursor, buffer) => {
+      grid.resize(context.cols, context.rows).clear();
+      draw(grid);
+      grid.blit(0, 0, buffer, context.cols, context.rows);
+    },
+  };
+  const [frame] = runHeadless(program, { cols, rows });
+  return frame!;
+}
+
+function chars(frame: Buffer) {
+  return frame.map((cell) => cell.char).join("");
+}
+
+// The glyph of a single cell with the listed pixels on
+function glyph(mode: PixelMode, pixels: [number, number][]) {
+  return chars(
+    render(mode, (grid) => {
+      for (const [x, y] of pixels) grid.setPixel(x, y);
+    })
+  );
+}
+
+describe("pixelgrid", () => {
+  test("has the size of the cells times the pixels of the mode", () => {
+    const sizes: Record<PixelMode, [number, number]> = {
+      half: [1, 2],
+      quadrant: [2, 2],
+      sextant: [2, 3],
+      braille: [2, 4],
+    };
+    for (const [mode, [w, h]] of Object.entries(sizes)) {
+      const grid = new PixelGrid(mode as PixelMode).resize(3, 2);
+      expect([grid.width, grid.height]).toEqual([3 * w, 2 * h]);
+    }
+  });
+
+  test("maps half blocks", () => {
+    expect(glyph("half", [])).toBe(" ");
+    expect(glyph("half", [[0, 0]])).toBe("▀");
+    expect(glyph("half", [[0, 1]])).toBe("▄");
+    expect(glyph("half", [[0, 0], [0, 1]])).toBe("█");
+  });
+
+  test("maps quadrants", () => {
+    expect(glyph("quadrant", [[0, 0]])).toBe("▘");
+    expect(glyph("quadrant", [[1, 0]])).toBe("▝");
+    expect(glyph("quadrant", [[0, 1]])).toBe("▖");
+    expect(glyph("quadrant", [[1, 1]])).toBe("▗");
+    expect(glyph("quadrant", [[0, 0], [1, 1]])).toBe("▚");
+    expect(glyph("quadrant", [[0, 0], [0, 1]])).toBe("▌");
+  });
+
+  test("maps sextants, with the block elements for halves", () => {
+    expect(glyph("sextant", [[0, 0]])).toBe("\u{1fb00}");
+    expect(glyph("sextant", [[1, 0]])).toBe("\u{1fb01}");
+    expect(glyph("sextant", [[1, 2]])).toBe("\u{1fb1e}"); // bit 32, last one
+    const left: [number, number][] = [[0, 0], [0, 1], [0, 2]];
+    const right: [number, number][] = [[1, 0], [1, 1], [1, 2]];
+    expect(glyph("sextant", left)).toBe("▌");
+    expect(glyph("sextant", right)).toBe("▐");
+    expect(glyph("sextant", [...left, ...right])).toBe("█");
+    // The glyphs after the left half skip it: sextant-1235
+    expect(glyph("sextant", [...left, [1, 0]])).toBe("\u{1fb15}");
+  });
+
+  test("maps braille dots", () => {
+    expect(glyph("braille", [[0, 0]])).toBe("⠁");
+    expect(glyph("braille", [[0, 2]])).toBe("⠄");
+    expect(glyph("braille", [[0, 3]])).toBe("⡀");
+    expect(glyph("braille", [[1, 0]])).toBe("⠈");
+    expect(glyph("braille", [[1, 3]])).toBe("⢀");
+    const all: [number, number][] = [];
+    for (let y = 0; y < 4; y++) all.push([0, y], [1, y]);
+    expect(glyph("braille", all)).toBe("⣿");
+  });
+
+  test("draws across cells", () => {
+    const frame = render("quadrant", (grid) => grid.line(0, 0, 5, 0), 3, 1);
+    expect(chars(frame)).toBe("▀▀▀");
+    const box = render("half", (grid) => grid.rect(0, 0, 3, 4), 3, 2);
+    expect(chars(box)).toBe("█▀█" + "█▄█");
+  });
+
+  test("picks the two colors of a cell", () => {
+    const [cell] = render("quadrant", (grid) => {
+      grid.fill("#0000ff");
+      grid.setPixel(0, 0, "#ff0000");
+    });
+    expect(cell!.char).toBe("▘");
+    expect(cell!.color).toBe(written("#ff0000"));
+    expect(cell!.backgroundColor).toBe(written("#0000ff"));
+  });
+
+  test("keeps the pair which fits best with more than two colors", () => {
+    const [cell] = render("quadrant", (grid) => {
+      grid.setPixel(0, 0, "#ff0000");
+      grid.setPixel(1, 0, "#fe0000");
+      grid.setPixel(0, 1, "#0000ff");
+      grid.setPixel(1, 1, "#0000ff");
+    });
+    // The two reds are drawn with one of them
+    expect(["▀", "▄"]).toContain(cell!.char);
+    const colors = [cell!.color, cell!.backgroundColor];
+    expect(colors).toContain(written("#0000ff"));
+  });
+
+  test("draws pixels without color with the default color", () => {
+    const [cell] = render("half", (grid) => grid.setPixel(0, 0));
+    expect(cell!.char).toBe("▀");
+    expect(cell!.color).toBeUndefined();
+  });
+});
+
+// A color as written by the grid (packed and unpacked)
+function written(color: string) {
+  const g = new PixelGrid("half").resize(1, 1).fill(color);
+  const out: Buffer = [{ char: " " }];
+  g.blit(0, 0, out, 1, 1);
+  return out[0]!.color;
+}
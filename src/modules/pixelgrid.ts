@@ -0,0 +1,357 @@
+/**
+@module   pixelgrid
+@desc     A bitmap drawn with block, sextant and braille glyphs
+@category public
+
+A virtual bitmap with more pixels than cells: each cell hosts
+1×2 ('half'), 2×2 ('quadrant'), 2×3 ('sextant') or 2×4 ('braille')
+sub-pixels, drawn with the matching block or braille glyph.
+
+const grid = new PixelGrid('quadrant')
+grid.resize(context.cols, context.rows) // width and height are in pixels
+grid.clear()
+grid.line(0, 0, grid.width - 1, grid.height - 1, 'red')
+grid.blit(0, 0, buffer, context.cols, context.rows)
+
+Pixels are stored as packed colors (see cellbuffer), 0 is an empty pixel
+(a transparent color clears the pixel as well);
+a pixel drawn without a color has the default color (settings.color).
+blit() overwrites the cells of the target: a cell can show only two colors
+(the glyph and the background), if its pixels have more colors the pair
+which fits best is chosen. Empty pixels show the background of the
+settings (they count as black when colors are matched).
+Note: the sextant glyphs (Unicode 13) are not supported by all the fonts.
+*/
+
+import { set } from "./buffer";
+import { TRANSPARENT, packColor, unpackColor } from "./cellbuffer";
+import type { AnyBuffer, PixelMode } from "./types";
+
+// A pixel with the default color
+export const ON = 1;
+
+// Size of a cell in pixels, the bit of each pixel (row by row)
+// and the glyph for a combination of bits
+type Layout = {
+  w: number;
+  h: number;
+  bits: number[];
+  glyph: (bits: number) => string;
+};
+
+const HALF = " ▀▄█";
+const QUADRANTS = " ▘▝▀▖▌▞▛▗▚▐▜▄▙▟█";
+
+// The sextants are in the order of their bits, without the four
+// combinations which already exist as block elements
+function sextant(bits: number) {
+  if (bits == 0) return " ";
+  if (bits == 21) return "▌";
+  if (bits == 42) return "▐";
+  if (bits == 63) return "█";
+  const skip = (bits > 21 ? 1 : 0) + (bits > 42 ? 1 : 0);
+  return String.fromCodePoint(0x1fb00 + bits - 1 - skip);
+}
+
+const LAYOUTS: Record<PixelMode, Layout> = {
+  half: {
+    w: 1,
+    h: 2,
+    bits: [1, 2],
+    glyph: (bits) => HALF[bits]!,
+  },
+  quadrant: {
+    w: 2,
+    h: 2,
+    bits: [1, 2, 4, 8],
+    glyph: (bits) => QUADRANTS[bits]!,
+  },
+  sextant: {
+    w: 2,
+    h: 3,
+    bits: [1, 2, 4, 8, 16, 32],
+    glyph: sextant,
+  },
+  // Dots 1-2-3-7 on the left, 4-5-6-8 on the right
+  braille: {
+    w: 2,
+    h: 4,
+    bits: [0x01, 0x08, 0x02, 0x10, 0x04, 0x20, 0x40, 0x80],
+    glyph: (bits) => (bits ? String.fromCharCode(0x2800 + bits) : " "),
+  },
+};
+
+export default class PixelGrid {
+  mode: PixelMode;
+  cols: number;
+  rows: number;
+  // Size in pixels
+  width: number;
+  height: number;
+  // Packed colors, 0 for empty pixels
+  pixels: Uint32Array;
+  private layout: Layout;
+
+  constructor(mode: PixelMode = "braille") {
+    const layout = LAYOUTS[mode];
+    if (!layout) throw new Error("pixelgrid.js: Unknown mode " + mode + ".");
+    this.mode = mode;
+    this.layout = layout;
+    this.cols = 0;
+    this.rows = 0;
+    this.width = 0;
+    this.height = 0;
+    this.pixels = new Uint32Array(0);
+  }
+
+  // Pixels per cell
+  get cellWidth() {
+    return this.layout.w;
+  }
+
+  get cellHeight() {
+    return this.layout.h;
+  }
+
+  // Sets the size in cells, the pixels are cleared if it changed
+  resize(cols: number, rows: number) {
+    if (cols == this.cols && rows == this.rows) return this;
+    this.cols = cols;
+    this.rows = rows;
+    this.width = cols * this.layout.w;
+    this.height = rows * this.layout.h;
+    this.pixels = new Uint32Array(this.width * this.height);
+    return this;
+  }
+
+  clear() {
+    this.pixels.fill(0);
+    return this;
+  }
+
+  // Fills the whole grid
+  fill(color?: string | number) {
+    this.pixels.fill(toPixel(color));
+    return this;
+  }
+
+  // -- Drawing (coordinates in pixels) --------------------------------------
+
+  // Sets a pixel: a CSS color, a packed color, ON if undefined,
+  // 0 clears the pixel
+  setPixel(x: number, y: number, color?: string | number) {
+    x = Math.floor(x);
+    y = Math.floor(y);
+    if (x < 0 || x >= this.width) return this;
+    if (y < 0 || y >= this.height) return this;
+    this.pixels[x + y * this.width] = toPixel(color);
+    return this;
+  }
+
+  // Returns the packed color of a pixel, 0 if empty or outside
+  getPixel(x: number, y: number) {
+    x = Math.floor(x);
+    y = Math.floor(y);
+    if (x < 0 || x >= this.width) return 0;
+    if (y < 0 || y >= this.height) return 0;
+    return this.pixels[x + y * this.width]!;
+  }
+
+  // Bresenham line
+  line(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    color?: string | number
+  ) {
+    const p = toPixel(color);
+    x0 = Math.round(x0);
+    y0 = Math.round(y0);
+    x1 = Math.round(x1);
+    y1 = Math.round(y1);
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    while (true) {
+      this.setPixel(x0, y0, p);
+      if (x0 == x1 && y0 == y1) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) {
+        err += dy;
+        x0 += sx;
+      }
+      if (e2 <= dx) {
+        err += dx;
+        y0 += sy;
+      }
+    }
+    return this;
+  }
+
+  // Outline of a rectangle
+  rect(x: number, y: number, w: number, h: number, color?: string | number) {
+    if (w <= 0 || h <= 0) return this;
+    const x2 = x + w - 1;
+    const y2 = y + h - 1;
+    this.line(x, y, x2, y, color);
+    this.line(x, y2, x2, y2, color);
+    this.line(x, y, x, y2, color);
+    this.line(x2, y, x2, y2, color);
+    return this;
+  }
+
+  fillRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    color?: string | number
+  ) {
+    const p = toPixel(color);
+    const x1 = Math.max(0, Math.round(x));
+    const y1 = Math.max(0, Math.round(y));
+    const x2 = Math.min(this.width, Math.round(x + w));
+    const y2 = Math.min(this.height, Math.round(y + h));
+    for (let j = y1; j < y2; j++) {
+      this.pixels.fill(p, x1 + j * this.width, x2 + j * this.width);
+    }
+    return this;
+  }
+
+  // Outline of a circle (midpoint algorithm)
+  circle(cx: number, cy: number, r: number, color?: string | number) {
+    const p = toPixel(color);
+    cx = Math.round(cx);
+    cy = Math.round(cy);
+    r = Math.round(r);
+    let x = r;
+    let y = 0;
+    let err = 1 - r;
+    while (x >= y) {
+      this.setPixel(cx + x, cy + y, p);
+      this.setPixel(cx + y, cy + x, p);
+      this.setPixel(cx - y, cy + x, p);
+      this.setPixel(cx - x, cy + y, p);
+      this.setPixel(cx - x, cy - y, p);
+      this.setPixel(cx - y, cy - x, p);
+      this.setPixel(cx + y, cy - x, p);
+      this.setPixel(cx + x, cy - y, p);
+      y++;
+      if (err < 0) {
+        err += 2 * y + 1;
+      } else {
+        x--;
+        err += 2 * (y - x) + 1;
+      }
+    }
+    return this;
+  }
+
+  fillCircle(cx: number, cy: number, r: number, color?: string | number) {
+    const p = toPixel(color);
+    cx = Math.round(cx);
+    cy = Math.round(cy);
+    r = Math.round(r);
+    for (let y = -r; y <= r; y++) {
+      const x = Math.floor(Math.sqrt(r * r - y * y));
+      this.fillRect(cx - x, cy + y, x * 2 + 1, 1, p);
+    }
+    return this;
+  }
+
+  // -- Output ---------------------------------------------------------------
+
+  // Writes the grid into the target buffer, at cell x, y
+  blit(
+    x: number,
+    y: number,
+    target: AnyBuffer,
+    targetCols: number,
+    targetRows: number
+  ) {
+    const { w, h, bits, glyph } = this.layout;
+    const values: number[] = [];
+    for (let j = 0; j < this.rows; j++) {
+      for (let i = 0; i < this.cols; i++) {
+        // The pixels of the cell
+        let n = 0;
+        for (let py = 0; py < h; py++) {
+          const offs = (j * h + py) * this.width + i * w;
+          for (let px = 0; px < w; px++) {
+            values[n++] = this.pixels[offs + px]!;
+          }
+        }
+        const [fg, bg] = pickColors(values, n);
+        // The bits of the pixels closer to the glyph color
+        let b = 0;
+        for (let k = 0; k < n && fg != 0; k++) {
+          const v = values[k]!;
+          if (v == fg || (v != bg && distance(v, fg) < distance(v, bg))) {
+            b |= bits[k]!;
+          }
+        }
+        const cell = {
+          char: glyph(b),
+          color: fg == ON ? undefined : unpackColor(fg),
+          backgroundColor: unpackColor(bg),
+        };
+        set(cell, x + i, y + j, target, targetCols, targetRows);
+      }
+    }
+    return this;
+  }
+}
+
+function toPixel(color?: string | number) {
+  if (color === undefined) return ON;
+  const packed = packColor(color);
+  return packed == TRANSPARENT ? 0 : packed;
+}
+
+// Picks the two colors which fit best the n values:
+// [glyph color, background color]. Empty pixels can only be
+// the background and ON only the glyph color.
+function pickColors(values: number[], n: number): [number, number] {
+  const colors: number[] = [];
+  for (let k = 0; k < n; k++) {
+    if (!colors.includes(values[k]!)) colors.push(values[k]!);
+  }
+  let a = colors[0]!;
+  let b = colors[1] ?? 0;
+  // More than two colors: the pair with the smallest error
+  if (colors.length > 2) {
+    let min = Infinity;
+    for (let p = 0; p < colors.length; p++) {
+      for (let q = p + 1; q < colors.length; q++) {
+        const cp = colors[p]!;
+        const cq = colors[q]!;
+        let err = 0;
+        for (let k = 0; k < n; k++) {
+          const v = values[k]!;
+          err += Math.min(distance(v, cp), distance(v, cq));
+        }
+        if (err < min) {
+          min = err;
+          a = cp;
+          b = cq;
+        }
+      }
+    }
+  }
+  if (a == 0 || b == ON) return [b, a];
+  return [a, b];
+}
+
+// Squared distance of two packed colors, empty pixels are black
+// and ON pixels white
+function distance(a: number, b: number) {
+  if (a == ON) a = 0xffffffff;
+  if (b == ON) b = 0xffffffff;
+  const dr = (a >>> 24) - (b >>> 24);
+  const dg = ((a >>> 16) & 0xff) - ((b >>> 16) & 0xff);
+  const db = ((a >>> 8) & 0xff) - ((b >>> 8) & 0xff);
+  return dr * dr + dg * dg + db * db;
+}
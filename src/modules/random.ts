@@ -0,0 +1,40 @@
+/**
+@module   random
+@desc     Seeded pseudo random numbers
+@category public
+
+The same seed always produces the same sequence of numbers,
+on any platform: useful for reproducible renders and exports.
+The runners provide a generator as context.random(),
+seeded with settings.seed and the frame number.
+
+const rnd = random.seeded(1234)
+rnd() // a number in [0, 1)
+*/
+
+export default {
+  seeded,
+  hash,
+};
+
+// Returns a generator function (Mulberry32).
+// The seed is truncated to a 32 bit integer.
+export function seeded(seed: number): () => number {
+  let s = seed | 0;
+  return function () {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Combines two integers into a well distributed 32 bit integer,
+// for example a seed and a frame number.
+export function hash(a: number, b: number): number {
+  let h = Math.imul(a | 0, 0x85ebca6b) ^ Math.imul(b | 0, 0xc2b2ae35);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d);
+  h ^= h >>> 15;
+  return h >>> 0;
+}
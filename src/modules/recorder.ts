@@ -0,0 +1,175 @@
+/**
+@module   recorder
+@desc     Records a range of frames to an animated GIF
+@category public
+
+Captures the frames from 'from' to 'to' and downloads them as a single
+animated GIF once the last frame has been captured.
+Works with any renderer: the buffer is rasterized offscreen with the canvas
+renderer, so the GIF looks like the canvas output of the program.
+The palette of each frame is built from the colors used by the cells
+(max 256 colors, the most frequent ones are kept).
+
+const recorder = new Recorder('anim.gif', 10, 40)
+
+export function post(context, cursor, buffer) {
+	recorder.capture(context, buffer)
+}
+*/
+
+import { createCanvasRenderer } from "../core/canvasrenderer";
+import { asArray } from "./cellbuffer";
+import { css2rgb } from "./color";
+import type { RGB } from "./color";
+import { saveBlobAsFile } from "./filedownload";
+import { encode } from "./gif";
+import type { GIFFrame } from "./gif";
+import type { AnyBuffer, Context } from "./types";
+
+const MAX_COLORS = 256;
+
+export default class Recorder {
+  filename: string;
+  from: number;
+  to: number;
+  frames: GIFFrame[] = [];
+  done = false;
+
+  private canvas?: HTMLCanvasElement;
+  // Own instance, the program may use a canvas renderer as well
+  private renderer = createCanvasRenderer();
+
+  constructor(filename: string, from = 1, to = from) {
+    this.filename = filename;
+    this.from = from;
+    this.to = to;
+  }
+
+  // Call from post() to capture the complete frame
+  capture(context: Context, buffer: AnyBuffer) {
+    if (this.done) return;
+
+    if (typeof document == "undefined") {
+      console.warn("recorder.js: Can’t record, a DOM is required.");
+      this.done = true;
+      return;
+    }
+
+    const f = context.frame;
+    if (f < this.from) return;
+
+    if (f <= this.to) {
+      this.frames.push(this.rasterize(context, buffer));
+      console.info(
+        "recorder.js: Captured frame " + f + ". Will stop at " + this.to + "."
+      );
+    }
+
+    if (f >= this.to) this.save();
+  }
+
+  // Encodes the captured frames and downloads the GIF
+  save() {
+    this.done = true;
+    if (this.frames.length == 0) {
+      console.warn("recorder.js: No frames to export.");
+      return;
+    }
+    const bytes = encode(this.frames);
+    saveBlobAsFile(new Blob([bytes], { type: "image/gif" }), this.filename);
+    this.frames = [];
+  }
+
+  // Renders the buffer to an offscreen canvas and converts the pixels
+  // to palette indices
+  private rasterize(context: Context, buffer: AnyBuffer): GIFFrame {
+    const canvas = (this.canvas =
+      this.canvas || document.createElement("canvas"));
+    this.renderer.render(
+      { ...context, settings: { ...context.settings, element: canvas } },
+      buffer
+    );
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas not supported");
+    const { width, height } = canvas;
+    const data = ctx.getImageData(0, 0, width, height).data;
+
+    const palette = getPalette(context, buffer);
+    const indices = new Uint8Array(width * height);
+
+    // Antialiased pixels are mapped to the nearest palette color
+    const cache: Map<number, number> = new Map();
+    for (let i = 0; i < indices.length; i++) {
+      const r = data[i * 4]!;
+      const g = data[i * 4 + 1]!;
+      const b = data[i * 4 + 2]!;
+      const key = (r << 16) | (g << 8) | b;
+      let idx = cache.get(key);
+      if (idx === undefined) {
+        idx = nearest(palette, r, g, b);
+        cache.set(key, idx);
+      }
+      indices[i] = idx;
+    }
+
+    const delay = 1000 / (context.settings.fps || 30);
+    return { width, height, indices, palette, delay };
+  }
+}
+
+// Builds a palette with the colors used by the cells and the defaults
+// of the canvas renderer
+function getPalette(context: Context, buffer: AnyBuffer): RGB[] {
+  const settings = context.settings;
+  const count: Map<string, number> = new Map();
+  const add = (css?: string, n = 1) => {
+    if (css) count.set(css, (count.get(css) || 0) + n);
+  };
+
+  // Defaults are always included: they count more than all the cells
+  const len = context.cols * context.rows;
+  add(settings.backgroundColor || "white", len * 2 + 1);
+  add(settings.color || "black", len * 2 + 1);
+
+  const cells = asArray(buffer);
+  for (let i = 0; i < len; i++) {
+    const cell = cells[i]!;
+    add(cell.color);
+    add(cell.backgroundColor);
+  }
+
+  // The same color may be written in different ways
+  const colors: Map<number, RGB & { n: number }> = new Map();
+  for (const [css, n] of count) {
+    const rgb = css2rgb(css);
+    if (!rgb || rgb.a === 0) continue;
+    const r = Math.round(rgb.r);
+    const g = Math.round(rgb.g);
+    const b = Math.round(rgb.b);
+    const key = (r << 16) | (g << 8) | b;
+    const c = colors.get(key);
+    if (c) c.n += n;
+    else colors.set(key, { r, g, b, n });
+  }
+
+  return [...colors.values()]
+    .sort((a, b) => b.n - a.n)
+    .slice(0, MAX_COLORS)
+    .map(({ r, g, b }) => ({ r, g, b }));
+}
+
+// Index of the closest color (euclidean distance in RGB space)
+function nearest(palette: RGB[], r: number, g: number, b: number) {
+  let idx = 0;
+  let min = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const c = palette[i]!;
+    const d = (c.r - r) ** 2 + (c.g - g) ** 2 + (c.b - b) ** 2;
+    if (d < min) {
+      min = d;
+      idx = i;
+    }
+  }
+  return idx;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import tables from "./brightnesstables";
+import { addTable, getTable, measure, sort, sortByTable } from "./sort";
+import type { BrightnessTable } from "./types";
+
+const table: BrightnessTable = {
+  fontFamily: "Test Mono",
+  size: 30,
+  values: { " ": 0, ".": 0.01, ":": 0.02, "#": 0.14, "@": 0.2 },
+};
+
+describe("sortByTable", () => {
+  test("sorts the chars by brightness", () => {
+    expect(sortByTable(".@ #:", table)).toBe("@#:. ");
+    expect(sortByTable(".@ #:", table, true)).toBe(" .:#@");
+    expect(sortByTable(["#", "."], table, true)).toBe(".#");
+  });
+
+  test("counts the chars without a value as empty", () => {
+    // Stable: the order of the chars with the same value is kept
+    expect(sortByTable("x.y z", table, true)).toBe("xy z.");
+  });
+});
+
+describe("sort", () => {
+  test("sorts with the table of the font", () => {
+    expect(getTable("Test Mono")).toBeUndefined();
+    addTable(table);
+    expect(getTable("Test Mono")).toBe(table);
+    expect(sort(" .#@", "Test Mono")).toBe("@#. ");
+    expect(sort(" .#@", "Test Mono", true)).toBe(" .#@");
+  });
+
+  test("sorts with a table passed as argument", () => {
+    const inverted = {
+      ...table,
+      values: { ...table.values, " ": 1 },
+    };
+    expect(sort(" .#@", "Other Mono", false, inverted)).toBe(" @#.");
+  });
+
+  test("measures the chars missing from the table", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    // No DOM: the chars are returned as they are
+    expect(sort(" .x", "Test Mono")).toBe(" .x");
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe("measure", () => {
+  test("counts the lit pixels of each char", () => {
+    // Lights the first n pixels of the canvas, n = code of the char
+    let lit = 0;
+    const ctx = {
+      canvas: { width: 0, height: 0 },
+      fillRect: () => (lit = 0),
+      fillText: (char: string) => (lit = char.charCodeAt(0)),
+      getImageData: (x: number, y: number, w: number, h: number) => {
+        const data = new Uint8ClampedArray(w * h * 4);
+        for (let i = 0; i < lit; i++) data[i * 4] = 255;
+        return { data };
+      },
+    } as unknown as CanvasRenderingContext2D;
+    const measured = measure("A ", "Test Mono", ctx)!;
+    expect(measured.fontFamily).toBe("Test Mono");
+    // A canvas of 60 × 60 pixels
+    expect(measured.values).toEqual({
+      A: Math.round((65 / 3600) * 1e7) / 1e7,
+      " ": Math.round((32 / 3600) * 1e7) / 1e7,
+    });
+  });
+});
+
+describe("brightnesstables", () => {
+  test("has a value for each printable ASCII char", () => {
+    expect(tables.length).toBeGreaterThan(0);
+    for (const { fontFamily, values } of tables) {
+      expect(fontFamily).not.toBe("");
+      for (let i = 32; i < 127; i++) {
+        expect(values[String.fromCharCode(i)]).toBeNumber();
+      }
+      // Sorting is meaningful only if the glyphs differ
+      expect(values["@"]).toBeGreaterThan(values["."]!);
+    }
+  });
+});
@@ -3,86 +3,139 @@
 @desc     Sorts a set of characters by brightness
 @category public
 
-Paints chars on a temporary canvas and counts the pixels.
-This could be done once and then stored / hardcoded.
+The brightness of each char is read from a table (precomputed for a font)
+or measured by painting the chars on a temporary canvas and counting the
+pixels. The canvas method needs a DOM: with a table sort() works
+in workers, at build time or in tests as well.
 The fontFamily paramter needs to be set because it's used by the canvas element
 to draw the correct font.
+
+Tables are plain objects which can be serialized:
+{
+	fontFamily : 'Simple Console',
+	size       : 30,                    // font size of the measure (px)
+	values     : { ' ' : 0, '.' : 0.01, '#' : 0.14, ... }  // 0-1
+}
+Tables are added with addTable(): measured with measure() or generated
+by script/build-brightness-tables.ts for some common monospace fonts
+(see brightnesstables, not bundled with this module):
+
+import tables from 'glyph-engine/brightnesstables'
+tables.forEach(sort.addTable)
+
+Fonts without a table, like the default font Simple Console, are measured
+with the canvas method.
 */
 
+import type { BrightnessTable } from "./types";
+
+// Font size and canvas size of the canvas method
+const SIZE = 30;
+
+// Tables by font family
+const tables: Map<string, BrightnessTable> = new Map();
+
+// Registers a table for its font family
+export function addTable(table: BrightnessTable) {
+  tables.set(table.fontFamily, table);
+}
+
+export function getTable(fontFamily: string) {
+  return tables.get(fontFamily);
+}
+
+// Sorts with the table of the font if it contains all the chars,
+// otherwise with the canvas method.
 export function sort(
   charSet: Array<string> | string,
   fontFamily: string,
+  ascending: boolean = false,
+  table: BrightnessTable | undefined = tables.get(fontFamily)
+) {
+  const chars = Array.from(charSet);
+  if (table && chars.every((char) => char in table.values)) {
+    return sortByTable(chars, table, ascending);
+  }
+  const measured = measure(chars, fontFamily);
+  if (!measured) return charSet;
+  return sortByTable(chars, measured, ascending);
+}
+
+// Sorts with a table only (chars not in the table count as empty)
+export function sortByTable(
+  charSet: Array<string> | string,
+  table: BrightnessTable,
   ascending: boolean = false
 ) {
-  const size = 30;
-  const ctx = document.createElement("canvas").getContext("2d");
+  const value = (char: string) => table.values[char] || 0;
+  return Array.from(charSet)
+    .sort((a, b) => (ascending ? value(a) - value(b) : value(b) - value(a)))
+    .join("");
+}
 
+// Measures the brightness of the chars with a canvas.
+// A 2d context can be passed (for example of an OffscreenCanvas or of
+// a canvas library at build time), otherwise a temporary canvas is
+// attached to the DOM. Returns null if a canvas is not available.
+export function measure(
+  charSet: Array<string> | string,
+  fontFamily: string,
+  context?: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+): BrightnessTable | null {
+  const ctx = context || createContext();
   if (!ctx) {
     console.warn(
       "Canvas 2d context is not supported on this browser.\nCan’t sort chars for brightness."
     );
-    return charSet;
+    return null;
   }
 
-  ctx.canvas.width = size * 2;
-  ctx.canvas.height = size * 2;
+  ctx.canvas.width = SIZE * 2;
+  ctx.canvas.height = SIZE * 2;
 
-  ctx.canvas.style.right = "0";
-  ctx.canvas.style.top = "0";
-  ctx.canvas.style.position = "absolute";
-  document.body.appendChild(ctx.canvas); // NOTE: needs to be attached to the DOM
+  const canvas = ctx.canvas;
+  const attached = !context && canvas instanceof HTMLCanvasElement;
+  if (attached) {
+    canvas.style.right = "0";
+    canvas.style.top = "0";
+    canvas.style.position = "absolute";
+    document.body.appendChild(canvas); // NOTE: needs to be attached to the DOM
+  }
+
+  const table: BrightnessTable = { fontFamily, size: SIZE, values: {} };
+  const w = canvas.width;
+  const h = canvas.height;
 
   if (ctx.getImageData(0, 0, 1, 1).data.length == 0) {
     console.warn(
       "getImageData() is not supported on this browser.\nCan’t sort chars for brightness."
     );
-    return charSet;
+    if (attached) document.body.removeChild(canvas as HTMLCanvasElement);
+    return null;
   }
 
-  let out = [];
-  for (let i = 0; i < charSet.length; i++) {
+  for (const char of Array.from(charSet)) {
     ctx.fillStyle = "black";
-    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.fillRect(0, 0, w, h);
     ctx.fillStyle = "rgb(255,255,255)";
-    ctx.font = size + "px " + fontFamily; // NOTE: font family inherit doesn't work
+    ctx.font = SIZE + "px " + fontFamily; // NOTE: font family inherit doesn't work
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
-    ctx.fillText(charSet[i]!, ctx.canvas.width / 2, ctx.canvas.height / 2);
-
-    out[i] = {
-      count: 0,
-      char: charSet[i],
-      index: i,
-    };
-
-    const data = ctx.getImageData(
-      0,
-      0,
-      ctx.canvas.width,
-      ctx.canvas.height
-    ).data;
-
-    for (let y = 0; y < ctx.canvas.height; y++) {
-      const oy = y * ctx.canvas.width;
-      for (let x = 0; x < ctx.canvas.width; x++) {
-        let r = data[4 * (x + oy)]!;
-        out[i]!.count += r;
-      }
-    }
-    //console.log(out[i].char, out[i].count)
+    ctx.fillText(char, w / 2, h / 2);
+
+    const data = ctx.getImageData(0, 0, w, h).data;
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) count += data[i]!;
+    // Rounded, the tables are smaller
+    table.values[char] = Math.round((count / (255 * w * h)) * 1e7) / 1e7;
   }
 
   // cleanup
-  document.body.removeChild(ctx.canvas);
-  if (ascending) {
-    return out
-      .sort((a, b) => a.count - b.count)
-      .map((x) => x.char)
-      .join("");
-  } else {
-    return out
-      .sort((a, b) => b.count - a.count)
-      .map((x) => x.char)
-      .join("");
-  }
+  if (attached) document.body.removeChild(canvas as HTMLCanvasElement);
+  return table;
+}
+
+function createContext() {
+  if (typeof document == "undefined") return null;
+  return document.createElement("canvas").getContext("2d");
 }
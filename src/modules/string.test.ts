@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { mergeText } from "./buffer";
+import {
+  CONTINUATION,
+  charWidth,
+  columns,
+  fit,
+  graphemes,
+  measure,
+  textWidth,
+  wrap,
+} from "./string";
+import type { Buffer } from "./types";
+
+describe("graphemes", () => {
+  test("splits a string into user-perceived chars", () => {
+    expect(graphemes("👍🏽 e\u0301")).toEqual(["👍🏽", " ", "e\u0301"]);
+    expect(graphemes("👩‍💻🇮🇹a")).toEqual(["👩‍💻", "🇮🇹", "a"]);
+    expect(graphemes("")).toEqual([]);
+  });
+});
+
+describe("charWidth", () => {
+  test("counts the columns of a grapheme", () => {
+    expect(charWidth("a")).toBe(1);
+    expect(charWidth("e\u0301")).toBe(1);
+    expect(charWidth("─")).toBe(1);
+    expect(charWidth("漢")).toBe(2);
+    expect(charWidth("ｱ")).toBe(1);
+    expect(charWidth("Ａ")).toBe(2);
+    expect(charWidth("한")).toBe(2);
+  });
+
+  test("counts two columns for the emoji", () => {
+    expect(charWidth("🌮")).toBe(2);
+    expect(charWidth("👩‍💻")).toBe(2);
+    expect(charWidth("🇮🇹")).toBe(2);
+    // Presentation selectors
+    expect(charWidth("☺")).toBe(1);
+    expect(charWidth("☺\ufe0f")).toBe(2);
+    expect(charWidth("👀\ufe0e")).toBe(1);
+  });
+
+  test("counts no column for the invisible chars", () => {
+    expect(charWidth("")).toBe(0);
+    expect(charWidth("\t")).toBe(0);
+    expect(charWidth("\u0301")).toBe(0);
+    expect(charWidth("\u200b")).toBe(0);
+  });
+});
+
+describe("columns", () => {
+  test("follows the wide chars with a continuation", () => {
+    const wide = ["🌮", CONTINUATION, "a", "漢", CONTINUATION];
+    expect(columns("🌮a漢")).toEqual(wide);
+    expect(columns("e\u0301")).toEqual(["e\u0301"]);
+    // Zero width graphemes are dropped
+    expect(columns("a\u200bb")).toEqual(["a", "b"]);
+  });
+
+  test("measures as many columns as textWidth()", () => {
+    for (const text of ["🌮a漢", "👩‍💻 x", "plain"]) {
+      expect(columns(text).length).toBe(textWidth(text));
+    }
+  });
+});
+
+describe("measure and wrap", () => {
+  test("measure() counts the columns of the longest line", () => {
+    expect(measure("ab\n🌮🌮🌮\nc")).toEqual({
+      text: "ab\n🌮🌮🌮\nc",
+      numLines: 2,
+      maxWidth: 6,
+    });
+  });
+
+  test("wrap() counts the wide chars as two columns", () => {
+    const { text, numLines, maxWidth } = wrap("🌮🌮 ab 漢字", 7);
+    expect(text).toBe("🌮🌮 ab\n漢字");
+    expect(numLines).toBe(2);
+    expect(maxWidth).toBe(7);
+  });
+});
+
+describe("fit", () => {
+  test("cuts a line to a width without splitting the wide chars", () => {
+    expect(fit("abcd", 2)).toBe("ab");
+    expect(fit("a🌮b", 2)).toBe("a");
+    expect(fit("a🌮b", 3)).toBe("a🌮");
+    expect(fit("e\u0301x", 1)).toBe("e\u0301");
+  });
+
+  test("pads the line to the width", () => {
+    expect(fit("ab", 4, true)).toBe("ab  ");
+    expect(fit("a🌮b", 2, true)).toBe("a ");
+    expect(fit("ab", 0, true)).toBe("");
+  });
+});
+
+describe("mergeText", () => {
+  const dots = (n: number): Buffer =>
+    Array.from({ length: n }, () => ({ char: "." }));
+  // Continuation cells are written as _
+  const chars = (buffer: Buffer) =>
+    buffer.map((cell) => cell.char || "_").join("");
+
+  test("writes a wide char over two cells", () => {
+    const buffer = dots(5);
+    const { offset } = mergeText("a🌮b", 0, 0, buffer, 5, 1);
+    expect(chars(buffer)).toBe("a🌮_b.");
+    expect(offset).toEqual({ col: 3, row: 0 });
+  });
+
+  test("doesn’t leave half of a wide char", () => {
+    const buffer = dots(5);
+    mergeText("🌮🌮", 0, 0, buffer, 5, 1);
+    mergeText("x", 1, 0, buffer, 5, 1);
+    expect(chars(buffer)).toBe(" x🌮_.");
+    mergeText("y", 2, 0, buffer, 5, 1);
+    expect(chars(buffer)).toBe(" xy .");
+  });
+});
@@ -7,11 +7,26 @@ Wraps a string to a specific width.
 Doesn’t break words and keeps trailing line breaks.
 Counts lines and maxWidth (can be greater than width).
 If no width is passed the function just measures the 'box' of the text.
+
+Widths are measured in columns (cells), not in UTF-16 code units:
+strings are split into graphemes (user-perceived characters, like emoji
+sequences or letters with combining marks) and East Asian wide chars
+and emoji take two columns.
+In a buffer a wide char is followed by a continuation cell,
+a cell with an empty char (see columns()), which is skipped by the renderers.
+
+With markup the tags are kept in the text but don’t count in the
+widths (see markup).
 */
 
-export function wrap(string: string, width=0) {
+import { strip } from "./markup"
+
+export function wrap(string: string, width=0, markup=false) {
+
+	if (width==0) return measure(string, markup)
 
-	if (width==0) return measure(string)
+        // Tags don’t contain spaces: a word holds whole tags
+        const wordWidth = (word: string) => textWidth(markup ? strip(word) : word)
 
         const paragraphs = string.split('\n')
         let out = ''
@@ -26,19 +41,19 @@ export function wrap(string: string, width=0) {
                 // First word
                 if (len == 0) {
                     out += word
-                    len = word.length
+                    len = wordWidth(word)
                     maxWidth = Math.max(maxWidth, len)
                 }
                 // Subsequent words
                 else {
-                    if (len + 1 + word.length <= width) {
+                    if (len + 1 + wordWidth(word) <= width) {
                         out += ' ' + word
-                        len += word.length + 1
+                        len += wordWidth(word) + 1
                         maxWidth = Math.max(maxWidth, len)
                     } else {
                         // Remove last space
                         out += '\n' + word
-                        len = word.length + 1
+                        len = wordWidth(word) + 1
                         numLines++
                     }
                 }
@@ -60,18 +75,17 @@ export function wrap(string: string, width=0) {
         }
 }
 
-export function measure(string: string) {
+export function measure(string: string, markup=false) {
 	let numLines = 0
 	let maxWidth = 0
 	let len = 0
 
-	for (let i=0; i<string.length; i++) {
-		const char = string[i]
+	for (const char of graphemes(markup ? strip(string) : string)) {
 		if (char == '\n') {
 			len = 0
 			numLines++
 		} else {
-			len++
+			len += charWidth(char)
 			maxWidth = Math.max(maxWidth, len)
 		}
 	}
@@ -81,3 +95,129 @@ export function measure(string: string) {
 		maxWidth
 	}
 }
+
+// Cuts a line to a width (in columns), without splitting the wide chars;
+// with pad the line is filled with spaces up to the width
+export function fit(string: string, width: number, pad=false) {
+	let out = ''
+	let len = 0
+	for (const char of graphemes(string)) {
+		const w = charWidth(char)
+		if (len + w > width) break
+		out += char
+		len += w
+	}
+	return pad ? out + ' '.repeat(Math.max(0, width - len)) : out
+}
+
+// -- Graphemes and widths -----------------------------------------------------
+
+// The char of the cell which follows a wide char
+export const CONTINUATION = ''
+
+// Created on first use, if supported
+let segmenter: Intl.Segmenter | null | undefined
+
+// Splits a string into graphemes:
+// '👍🏽 é' → ['👍🏽', ' ', 'é'] (and not into UTF-16 code units)
+export function graphemes(string: string): string[] {
+	if (segmenter === undefined) {
+		segmenter = typeof Intl == 'object' && typeof Intl.Segmenter == 'function'
+			? new Intl.Segmenter()
+			: null
+	}
+	if (segmenter) {
+		return Array.from(segmenter.segment(string), s => s.segment)
+	}
+
+	// Fallback: code points, with the most common extensions
+	// (combining marks, variation selectors, skin tones, ZWJ sequences
+	// and flags) appended to the previous grapheme
+	const out: string[] = []
+	let join = false
+	for (const c of string) {
+		const last = out.length - 1
+		const cp = c.codePointAt(0)!
+		const extend = /\p{M}/u.test(c)
+			|| (cp >= 0xfe00 && cp <= 0xfe0f)   // variation selectors
+			|| (cp >= 0x1f3fb && cp <= 0x1f3ff) // skin tones
+			|| (cp >= 0xe0020 && cp <= 0xe007f) // tags
+			|| cp == 0x200d                     // zero width joiner
+		const flag = cp >= 0x1f1e6 && cp <= 0x1f1ff
+			&& last >= 0 && isSingleRegionalIndicator(out[last]!)
+		if (last >= 0 && (extend || flag || join) && out[last] != '\n') {
+			out[last] += c
+		} else {
+			out.push(c)
+		}
+		join = cp == 0x200d
+	}
+	return out
+}
+
+function isSingleRegionalIndicator(str: string) {
+	const cp = str.codePointAt(0)!
+	return str.length == 2 && cp >= 0x1f1e6 && cp <= 0x1f1ff
+}
+
+// East Asian Wide and Fullwidth ranges (first code point of a grapheme)
+const WIDE_RANGES: [number, number][] = [
+	[0x1100, 0x115f],   // Hangul Jamo
+	[0x2e80, 0x303e],   // CJK radicals, punctuation
+	[0x3041, 0x33ff],   // Kana, CJK symbols
+	[0x3400, 0x4dbf],   // CJK extension A
+	[0x4e00, 0x9fff],   // CJK unified ideographs
+	[0xa000, 0xa4cf],   // Yi
+	[0xa960, 0xa97f],   // Hangul Jamo extended A
+	[0xac00, 0xd7a3],   // Hangul syllables
+	[0xf900, 0xfaff],   // CJK compatibility ideographs
+	[0xfe10, 0xfe19],   // Vertical forms
+	[0xfe30, 0xfe6f],   // CJK compatibility forms
+	[0xff00, 0xff60],   // Fullwidth forms
+	[0xffe0, 0xffe6],
+	[0x1b000, 0x1b2ff], // Kana supplement
+	[0x20000, 0x2fffd], // CJK extensions
+	[0x30000, 0x3fffd],
+]
+
+// Number of columns taken by a grapheme: 0, 1 or 2
+export function charWidth(char: string) {
+	const cp = char.codePointAt(0)
+	if (cp === undefined) return 0
+	// Control chars and lone combining marks
+	if (cp < 32 || (cp >= 0x7f && cp < 0xa0)) return 0
+	// Fast path for Latin chars
+	if (cp < 0x300 && char.length == 1) return 1
+	if (/^[\p{M}\u200b-\u200f\u2060]/u.test(char)) return 0
+	// Text presentation selector: ☺︎
+	if (char.includes('\ufe0e')) return 1
+	// Emoji presentation (by default or with the selector): 👀 ☺️
+	if (/\p{Emoji_Presentation}|\ufe0f/u.test(char)) return 2
+	for (const [from, to] of WIDE_RANGES) {
+		if (cp < from) break
+		if (cp <= to) return 2
+	}
+	return 1
+}
+
+// Number of columns taken by a string (a single line)
+export function textWidth(string: string) {
+	let width = 0
+	for (const char of graphemes(string)) width += charWidth(char)
+	return width
+}
+
+// Splits a string into the chars of its cells, one for each column:
+// the wide chars are followed by a CONTINUATION and the zero width
+// graphemes are dropped.
+// '🌮a' → ['🌮', '', 'a']
+export function columns(string: string): string[] {
+	const out: string[] = []
+	for (const char of graphemes(string)) {
+		const w = charWidth(char)
+		if (w == 0) continue
+		out.push(char)
+		if (w == 2) out.push(CONTINUATION)
+	}
+	return out
+}
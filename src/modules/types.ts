@@ -1,4 +1,8 @@
 import { type RenderModes } from "../core/types";
+import type CellBuffer from "./cellbuffer";
+import type { RGB } from "./color";
+import type GlyphShapes from "./glyphshape";
+import type Viewport from "./viewport";
 import { type Vec2 } from "./vec2";
 
 export interface Settings {
@@ -10,15 +14,26 @@ export interface Settings {
   renderer: RenderModes;
   allowSelect: boolean;
   restoreState: boolean;
+  timeMode?: TimeModes;
+  seed?: number;
+  typedBuffer?: boolean;
+  dirtyTracking?: boolean;
+  glyphAtlas?: boolean;
+  viewport?: Partial<ViewportOptions>;
   [key: string]: any;
 }
 
+// 'realtime': the time is read from the clock
+// 'fixed': the time advances by exactly 1000/fps per frame
+export type TimeModes = "realtime" | "fixed";
+
 export interface State {
   time: number;
   frame: number;
   cycle: number;
 
   fps: number;
+  updatedRowNum?: number;
 }
 
 export interface Metrics {
@@ -31,16 +46,42 @@ export interface Metrics {
 }
 
 export type Program = {
-  boot?: (context: Context, buffer: any[], userData: any) => void;
-  pre?: (context: Context, cursor: any, buffer: any[], userData: any) => void;
+  boot?: (context: Context, buffer: AnyBuffer, userData: any) => void;
+  pre?: (
+    context: Context,
+    cursor: any,
+    buffer: AnyBuffer,
+    userData: any
+  ) => void;
   main?: (
     position: Coord,
     context: Context,
     cursor: any,
-    buffer: any[],
+    buffer: AnyBuffer,
     userData: any
   ) => any;
-  post?: (context: Context, cursor: any, buffer: any[], userData: any) => void;
+  post?: (
+    context: Context,
+    cursor: any,
+    buffer: AnyBuffer,
+    userData: any
+  ) => void;
+  // Input hooks, called after the frame (see InputEvent)
+  pointerMove?: (context: Context, cursor: any, buffer: AnyBuffer) => void;
+  pointerDown?: (context: Context, cursor: any, buffer: AnyBuffer) => void;
+  pointerUp?: (context: Context, cursor: any, buffer: AnyBuffer) => void;
+  keyDown?: (
+    context: Context,
+    cursor: any,
+    buffer: AnyBuffer,
+    key: string
+  ) => void;
+  keyUp?: (
+    context: Context,
+    cursor: any,
+    buffer: AnyBuffer,
+    key: string
+  ) => void;
   settings?: Settings;
   [key: string]: any;
 };
@@ -56,16 +97,22 @@ export interface Pointer {
 
 export type Cell =
   | Record<string, any> & {
-      char: string;
+      char: string; // a grapheme, "" after a wide char (see string)
       color?: string;
       backgroundColor?: string;
       fontWeight?: string;
+      fontStyle?: string; // 'normal', 'italic' or 'oblique'
+      textDecoration?: string; // 'underline', 'line-through' or both
+      opacity?: number; // 0-1, for the whole cell
+      inverse?: boolean; // swaps color and backgroundColor
       shadowStyle?: string;
       borderStyle?: string;
       shadowX?: number;
       shadowY?: number;
     };
 export type Buffer = Array<Cell>;
+// Default buffer or typed array buffer (settings.typedBuffer)
+export type AnyBuffer = Buffer | CellBuffer;
 export interface Style {
   x?: number;
   y?: number;
@@ -80,6 +127,7 @@ export interface Style {
   borderStyle?: string;
   shadowX?: number;
   shadowY?: number;
+  markup?: boolean; // the text has inline styles (see markup)
 }
 
 export type Context = {
@@ -92,16 +140,218 @@ export type Context = {
   metrics: Metrics;
   settings: Settings;
   runtime: State;
+  random: () => number;
+  keyboard: Keyboard;
+  viewport?: Viewport; // with settings.viewport (see viewport)
+};
+
+// Keyboard state of a frame (see core/keyboard)
+export type Keyboard = {
+  down: ReadonlySet<string>; // keys currently held down
+  pressed: ReadonlySet<string>; // keys pressed since the previous frame
+  released: ReadonlySet<string>; // keys released since the previous frame
+  text: string; // characters typed since the previous frame
+  // the browser ignores these keys until the next frame (see core/keyboard)
+  preventDefault: (...keys: string[]) => void;
+};
+
+// Input events queued by the runners and dispatched at the end of a frame
+// to the program hooks with the same name
+export type InputEvent = {
+  type: "pointerMove" | "pointerDown" | "pointerUp" | "keyDown" | "keyUp";
+  key?: string; // key events only
 };
 
 export type Coord = Vec2 & {
   index: number;
+  world?: Vec2; // world cell under the screen cell (see viewport)
 };
 
 export type Cursor = {
   pressed: boolean;
   x: number;
   y: number;
+  pointers?: PointerInfo[]; // all the pointers down (multi-touch)
+  gesture?: Gesture; // gestures derived from the pointers
+};
+
+// A pointer in contact: mouse button, pen or touch (see core/pointers)
+export type PointerInfo = {
+  id: number;
+  type: string; // 'mouse', 'pen' or 'touch'
+  x: number; // position in cells
+  y: number;
+  pressure: number; // 0 to 1
+  button: number; // button pressed at pointer down (0 = main)
+};
+
+export type Gesture = {
+  pinch: number; // two pointers: scale since the start (1 = unchanged)
+  pan: { x: number; y: number }; // two pointers: movement in cells
+  longPress: boolean; // a single pointer held still
+};
+
+// Controls of a running program, returned by run()
+export type RunnerControls = {
+  pause: () => void; // stops the loop, the last frame stays visible
+  resume: () => void; // restarts a paused loop
+  step: (n?: number) => void; // pauses and renders n frames
+  setFps: (fps: number) => void; // changes the fps capping
+  stop: () => void; // stops the loop for good
+  dispose: () => void; // stops and removes listeners and created elements
+};
+
+export type HeadlessOptions = {
+  cols: number; // number of columns
+  rows: number; // number of rows
+  frames: number; // number of frames to render
+  time: (frame: number) => number; // clock: returns the time (ms) of a frame
+  cursor: Cursor & { p?: Cursor }; // static cursor state
+  metrics: Partial<Metrics>; // font metrics (there is no element to measure)
+  settings: Partial<Settings>; // runner settings (the program’s win, as in run)
+};
+
+// Sub-pixels of a cell of a pixel grid (see pixelgrid):
+// half 1×2, quadrant 2×2, sextant 2×3, braille 2×4
+export type PixelMode = "half" | "quadrant" | "sextant" | "braille";
+
+// Options of asciify()
+export type AsciifyOptions = {
+  ramp: string; // chars from the darkest to the brightest
+  fontFamily: string; // if set the ramp is sorted by brightness (see sort)
+  dither: "none" | "floyd-steinberg" | "ordered" | "atkinson";
+  edges: boolean; // the edges of the image are drawn with - | / \ chars
+  edgeThreshold: number; // 0-1, strength of the edges
+  colorMode: "mono" | "palette" | "truecolor";
+  palette: RGB[]; // for the 'palette' color mode
+  colorProperty: "color" | "backgroundColor"; // the colored property
+  aspect: number; // aspect ratio of a cell, for image sources
+  invert: boolean; // the darkest pixels get the last chars of the ramp
+  shapes: GlyphShapes | null; // chars matched by shape (see glyphshape)
+};
+
+// Brightness of the chars of a font (see sort)
+export type BrightnessTable = {
+  fontFamily: string;
+  size: number; // font size of the measure (px)
+  values: Record<string, number>; // coverage of the cell, 0-1
+};
+
+// Blending of the colors of a layer with the cells below (see layers)
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "add"
+  | "difference";
+
+// Options of a layer (see layers)
+export type LayerOptions = {
+  zIndex: number; // layers with a higher zIndex are drawn on top
+  visible: boolean;
+  opacity: number; // 0-1
+  blend: BlendMode;
+};
+
+// Options of a viewport (see viewport)
+export type ViewportOptions = {
+  cols: number; // size of the world (cells)
+  rows: number;
+  zoom: number; // screen cells per world cell
+  sampling: "nearest" | "supersample"; // when zoomed out
+  square: boolean; // the aspect ratio of the font is compensated
+  clamp: boolean; // the view stays inside the world
+};
+
+// Colors and boxes of the widgets (see ui)
+export type UIStyle = {
+  color: string;
+  backgroundColor: string;
+  accentColor: string; // background of the hovered and focused widgets
+  accentTextColor: string;
+  fontWeight: string;
+  borderStyle: string; // see drawbox
+  shadowStyle: string; // buttons and popups only
+};
+
+// Position of the widgets of a frame (see ui)
+export type PanelOptions = {
+  x: number;
+  y: number;
+  width: number; // width of the widgets
+  title: string; // if set the widgets are drawn in a box
+};
+
+// Options of a widget (see ui), all optional
+export type WidgetOptions = {
+  id: string; // the label by default
+  x: number; // below the previous widget by default
+  y: number;
+  width: number; // the width of the panel by default
+  height: number; // lists only
+  min: number; // spinners only (sliders have min and max parameters)
+  max: number;
+  step: number; // sliders and spinners
+  placeholder: string; // text inputs only
+};
+
+// Value and state of a widget in a frame (see ui)
+export type WidgetState<T> = {
+  value: T;
+  hover: boolean; // the cursor is over the widget
+  focus: boolean; // the widget receives the keyboard input
+  active: boolean; // the widget is being pressed or dragged
+  clicked: boolean; // pressed and released, or Enter (Space) if focused
+  changed: boolean; // the value changed in this frame
+};
+
+// A node of a layout (see layout), all the fields are optional
+export type LayoutNode = {
+  id?: string; // to find the resolved box
+  direction?: "row" | "column"; // the children are stacked (column)
+  columns?: number; // or placed in a grid
+  children?: LayoutNode[];
+  // Size along the direction of the parent (cells): a number, 'auto'
+  // (the size of the content) or flexible if not set
+  size?: number | "auto";
+  flex?: number; // share of the free space, 1 by default
+  min?: number;
+  max?: number;
+  align?: "start" | "center" | "end" | "stretch"; // children, across
+  justify?: "start" | "center" | "end" | "space-between"; // children, along
+  gap?: number; // between the children
+  padding?: number;
+  paddingX?: number;
+  paddingY?: number;
+  margin?: number;
+  marginX?: number;
+  marginY?: number;
+  style?: Partial<Style>; // the node is drawn as a box (see drawbox)
+  title?: string; // in the top border
+  text?: string; // wrapped to the width of the box
+};
+
+export type LayoutRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// A node resolved to rectangles (see layout)
+export type LayoutBox = LayoutRect & {
+  node: LayoutNode;
+  inner: LayoutRect; // without borders and padding
+  children: LayoutBox[];
+};
+
+// Plain text and its inline style (see markup)
+export type MarkupSpan = {
+  text: string;
+  style: Partial<Cell>;
 };
 
 export type WithRequired<T, K extends keyof T> = T & { [P in K]-?: T[P] };
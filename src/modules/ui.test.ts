@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import type { Context, Cursor, WidgetState } from "./types";
+import UI from "./ui";
+
+type Input = {
+  pressed?: string[];
+  down?: string[];
+  text?: string;
+  cursor?: Partial<Cursor>;
+};
+
+// Runs a frame of a panel with a button, a toggle and a text input
+// (without the input if widgets is 2),
+// returns the states of the widgets and the keys passed to preventDefault
+function frame(ui: UI, input: Input = {}, widgets = 3) {
+  const prevented: string[] = [];
+  const keyboard = {
+    down: new Set([...(input.down ?? []), ...(input.pressed ?? [])]),
+    pressed: new Set(input.pressed ?? []),
+    released: new Set<string>(),
+    text: input.text ?? "",
+    preventDefault: (...keys: string[]) => prevented.push(...keys),
+  };
+  const context = { cols: 40, rows: 20, keyboard } as unknown as Context;
+  const cursor = { x: -1, y: -1, pressed: false, ...input.cursor };
+  const buffer = Array.from({ length: 40 * 20 }, () => ({ char: " " }));
+  ui.begin(context, cursor, buffer);
+  // Rows 1-3, 4 and 5-7
+  const states: WidgetState<unknown>[] = [
+    ui.button("Go"),
+    ui.toggle("Wire", false),
+  ];
+  if (widgets > 2) states.push(ui.textInput("Name", "ab"));
+  ui.end();
+  return { states, prevented };
+}
+
+const focused = (states: { focus: boolean }[]) =>
+  states.findIndex((s) => s.focus);
+
+describe("ui focus", () => {
+  test("Tab moves the focus in the order of the widgets", () => {
+    const ui = new UI();
+    expect(focused(frame(ui).states)).toBe(-1);
+    expect(focused(frame(ui, { pressed: ["Tab"] }).states)).toBe(0);
+    expect(focused(frame(ui, { pressed: ["Tab"] }).states)).toBe(1);
+    expect(focused(frame(ui, { pressed: ["Tab"] }).states)).toBe(2);
+    expect(focused(frame(ui, { pressed: ["Tab"] }).states)).toBe(0);
+  });
+
+  test("Shift+Tab moves the focus backwards", () => {
+    const ui = new UI();
+    frame(ui);
+    const back = { pressed: ["Tab"], down: ["Shift"] };
+    expect(focused(frame(ui, back).states)).toBe(2);
+    expect(focused(frame(ui, back).states)).toBe(1);
+    expect(ui.hasKeyboard).toBe(true);
+  });
+
+  test("a press focuses a widget, a press outside removes the focus", () => {
+    const ui = new UI();
+    frame(ui);
+    const press = { cursor: { x: 3, y: 4, pressed: true } };
+    expect(focused(frame(ui, press).states)).toBe(1);
+    // The focus stays after the release
+    expect(focused(frame(ui).states)).toBe(1);
+    const outside = { cursor: { x: 30, y: 15, pressed: true } };
+    frame(ui, outside);
+    // At the end of the frame
+    expect(ui.hasKeyboard).toBe(false);
+    expect(focused(frame(ui).states)).toBe(-1);
+  });
+
+  test("only the focused widget reacts to the keys", () => {
+    const ui = new UI();
+    frame(ui);
+    frame(ui, { pressed: ["Tab"] });
+    frame(ui, { pressed: ["Tab"] });
+    // The toggle has the focus
+    let { states } = frame(ui, { pressed: [" "] });
+    expect(states[0]!.clicked).toBe(false);
+    expect(states[1]!.value).toBe(true);
+    expect(states[2]!.value).toBe("ab");
+    frame(ui, { pressed: ["Tab"] });
+    ({ states } = frame(ui, { pressed: ["Backspace"], text: "c" }));
+    expect(states[1]!.value).toBe(false);
+    expect(states[2]!.value).toBe("ab");
+    expect(states[2]!.changed).toBe(false);
+    ({ states } = frame(ui, { text: "c" }));
+    expect(states[2]!.value).toBe("abc");
+  });
+
+  test("drops the focus of a widget which isn’t drawn", () => {
+    const ui = new UI();
+    frame(ui);
+    frame(ui, { pressed: ["Tab"], down: ["Shift"] });
+    expect(ui.hasKeyboard).toBe(true);
+    frame(ui, {}, 2);
+    expect(ui.hasKeyboard).toBe(false);
+  });
+
+  test("prevents the default of the widget keys while focused", () => {
+    const ui = new UI();
+    expect(frame(ui).prevented).toEqual([]);
+    const { prevented } = frame(ui, { pressed: ["Tab"] });
+    expect(prevented).toContain("Tab");
+    expect(prevented).toContain(" ");
+    expect(prevented).toContain("ArrowDown");
+    expect(prevented).not.toContain("a");
+    const outside = { cursor: { x: 30, y: 15, pressed: true } };
+    expect(frame(ui, outside).prevented).toEqual([]);
+  });
+});
@@ -0,0 +1,600 @@
+/**
+@module   ui
+@desc     Immediate mode widgets: buttons, sliders, text inputs, etc.
+@category public
+
+The widgets are drawn and handle their input in the same call, at each
+frame: there are no widget objects to keep in sync with the program.
+Each call returns the value and the state of the widget in the frame
+(hover, focus, active, clicked, changed, see WidgetState).
+
+const ui = new UI()
+
+export function post(context, cursor, buffer, data) {
+  ui.begin(context, cursor, buffer, { x: 2, y: 1, width: 24, title: 'Params' })
+  if (ui.button('Reset').clicked) data.speed = 1
+  data.speed = ui.slider('Speed', data.speed, 0, 10).value
+  data.wire = ui.toggle('Wireframe', data.wire).value
+  ui.end()
+}
+
+Widgets: button, toggle, slider, spinner (numeric), textInput, dropdown
+and list (scrollable). They are stacked in a column, below the previous
+one, unless a position is passed; their id is the label unless passed
+as option (ids have to be unique in a frame). With a title the widgets
+are drawn in a box.
+
+The cursor focuses a widget, Tab and Shift+Tab move the focus.
+The focused widget reacts to the keyboard:
+- button, toggle: Enter or Space
+- slider, spinner: arrow keys, Home, End
+- text input: typed text, Backspace; Enter submits (clicked)
+- dropdown, list: arrow keys, Enter; Escape closes a dropdown
+The boxes are drawn with the border and shadow styles of drawbox.
+ui.hasCursor and ui.hasKeyboard tell if the cursor is over the widgets
+and if a widget has the focus, the program can ignore its input then.
+While a widget has the focus the browser ignores the keys of the widgets
+(Tab doesn’t move the focus out of the element, see core/keyboard).
+The target can be the buffer or a layer (see layers).
+*/
+
+import { merge, mergeText } from "./buffer";
+import { borderStyles, drawBox, type BorderName } from "./drawbox";
+import { charWidth, fit, graphemes, textWidth } from "./string";
+import type {
+  AnyBuffer,
+  Context,
+  Cursor,
+  Keyboard,
+  PanelOptions,
+  UIStyle,
+  WidgetOptions,
+  WidgetState,
+} from "./types";
+
+type Rect = { x: number; y: number; w: number; h: number };
+
+const defaultStyle: UIStyle = {
+  color: "black",
+  backgroundColor: "white",
+  accentColor: "royalblue",
+  accentTextColor: "white",
+  fontWeight: "normal",
+  borderStyle: "round",
+  shadowStyle: "none",
+};
+
+const defaultPanel: PanelOptions = { x: 2, y: 1, width: 24, title: "" };
+
+const NO_KEYS: ReadonlySet<string> = new Set();
+
+// Keys of the widgets, the browser mustn’t act on them
+const WIDGET_KEYS = [
+  "Tab",
+  " ",
+  "Enter",
+  "Backspace",
+  "Escape",
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+];
+
+export default class UI {
+  style: UIStyle;
+  // The cursor is over the widgets (or drags one of them)
+  hasCursor: boolean;
+  // A widget has the focus
+  hasKeyboard: boolean;
+
+  // Target and input of the frame
+  private target: AnyBuffer = [];
+  private cols = 0;
+  private rows = 0;
+  private mx = -1;
+  private my = -1;
+  private pressed = false;
+  private wasPressed = false;
+  private keys: ReadonlySet<string> = NO_KEYS;
+  private keyboard: Keyboard | null = null;
+  private text = "";
+  // Ids of the widgets
+  private active: string | null = null;
+  private focus: string | null = null;
+  private order: string[] = [];
+  private prevOrder: string[] = [];
+  // Layout
+  private panel: PanelOptions = defaultPanel;
+  private originX = 0;
+  private nextY = 0;
+  private panelHeight = 0;
+  // Open dropdown, its list is drawn over the other widgets
+  private open: string | null = null;
+  private highlight = 0;
+  private popupRect: Rect | null = null;
+  private popup: (() => void) | null = null;
+  // Scroll offsets of the lists
+  private scroll: Map<string, number> = new Map();
+
+  constructor(style: Partial<UIStyle> = {}) {
+    this.style = { ...defaultStyle, ...style };
+    this.hasCursor = false;
+    this.hasKeyboard = false;
+  }
+
+  // Starts a frame: reads the input and draws the panel
+  begin(
+    context: Context,
+    cursor: Cursor,
+    target: AnyBuffer,
+    options: Partial<PanelOptions> = {}
+  ) {
+    this.target = target;
+    this.cols = context.cols;
+    this.rows = context.rows;
+    this.mx = Math.floor(cursor.x);
+    this.my = Math.floor(cursor.y);
+    this.pressed = cursor.pressed;
+    this.keyboard = context.keyboard;
+    this.keys = context.keyboard.pressed;
+    this.text = context.keyboard.text;
+    this.panel = { ...defaultPanel, ...options };
+    this.order = [];
+    this.popup = null;
+    this.hasCursor = false;
+
+    // Tab moves the focus, in the order of the previous frame
+    const n = this.prevOrder.length;
+    if (this.keys.has("Tab") && n > 0) {
+      const dir = context.keyboard.down.has("Shift") ? n - 1 : 1;
+      const idx = this.focus === null ? -1 : this.prevOrder.indexOf(this.focus);
+      const next = idx < 0 ? (dir == 1 ? 0 : n - 1) : (idx + dir) % n;
+      this.focus = this.prevOrder[next]!;
+      this.open = null;
+    }
+
+    const p = this.panel;
+    if (p.title) {
+      // The box has the height of the content of the previous frame
+      const r = { x: p.x, y: p.y, w: p.width + 4, h: this.panelHeight || 2 };
+      this.box(r, p.title, false, true);
+      if (this.inside(r)) this.hasCursor = true;
+      this.originX = p.x + 2;
+      this.nextY = p.y + 1;
+    } else {
+      this.originX = p.x;
+      this.nextY = p.y;
+    }
+  }
+
+  // Ends a frame: draws the open dropdown and updates the focus
+  end() {
+    if (this.popup) this.popup();
+    if (this.panel.title) this.panelHeight = this.nextY - this.panel.y + 1;
+    if (this.active !== null) this.hasCursor = true;
+    // A press outside of the widgets removes the focus
+    if (this.down && !this.hasCursor) {
+      this.focus = null;
+      this.open = null;
+    }
+    if (!this.pressed) this.active = null;
+    if (this.open === null) this.popupRect = null;
+    if (this.focus !== null && !this.order.includes(this.focus)) {
+      this.focus = null;
+    }
+    this.hasKeyboard = this.focus !== null;
+    if (this.hasKeyboard) this.keyboard?.preventDefault(...WIDGET_KEYS);
+    this.wasPressed = this.pressed;
+    this.prevOrder = this.order;
+  }
+
+  // A button, the value is true when clicked
+  button(label: string, options: Partial<WidgetOptions> = {}) {
+    const id = options.id ?? label;
+    const r = this.place(options, 3, this.shadowGap());
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+    const clicked = s.clicked || keys.has("Enter") || keys.has(" ");
+    const hl = s.hover || s.focus;
+    this.box(r, "", hl, true, true);
+    const inner = r.w - 2;
+    const pad = Math.max(0, Math.floor((inner - textWidth(label)) / 2));
+    this.line(" ".repeat(pad) + label, r.x + 1, r.y + 1, inner, hl);
+    return this.state(s, clicked, false, clicked);
+  }
+
+  // A checkbox
+  toggle(label: string, value: boolean, options: Partial<WidgetOptions> = {}) {
+    const id = options.id ?? label;
+    const r = this.place(options, 1);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+    const clicked = s.clicked || keys.has("Enter") || keys.has(" ");
+    const v = clicked ? !value : value;
+    const text = (v ? "[x] " : "[ ] ") + label;
+    this.line(text, r.x, r.y, r.w, s.hover || s.focus);
+    return this.state(s, v, value, clicked);
+  }
+
+  // A value between min and max, set by dragging the handle
+  slider(
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    options: Partial<WidgetOptions> = {}
+  ) {
+    const id = options.id ?? label;
+    const step = options.step ?? (max - min) / 100;
+    const r = this.place(options, 1);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+
+    const valueW = Math.max(format(min, step).length, format(max, step).length);
+    const labelW = label
+      ? Math.min(textWidth(label) + 1, Math.floor(r.w / 2))
+      : 0;
+    const trackX = r.x + labelW;
+    const trackW = Math.max(2, r.w - labelW - valueW - 1);
+
+    let v = value;
+    if (s.active) v = min + ((this.mx - trackX) / (trackW - 1)) * (max - min);
+    if (keys.has("ArrowLeft") || keys.has("ArrowDown")) v -= step;
+    if (keys.has("ArrowRight") || keys.has("ArrowUp")) v += step;
+    if (keys.has("Home")) v = min;
+    if (keys.has("End")) v = max;
+    if (v !== value) v = snap(v, min, max, step);
+
+    const hl = s.hover || s.focus;
+    const pos = Math.round(((v - min) / (max - min || 1)) * (trackW - 1));
+    const track = this.border().top.trim() || "─";
+    let bar = "";
+    for (let k = 0; k < trackW; k++) bar += k == pos ? "●" : track;
+    this.line(label, r.x, r.y, labelW, hl);
+    this.line(bar, trackX, r.y, trackW, hl);
+    const text = " " + format(v, step).padStart(valueW);
+    this.line(text, trackX + trackW, r.y, r.x + r.w - trackX - trackW, hl);
+    return this.state(s, v, value);
+  }
+
+  // A number changed by steps with the arrows (◂ ▸) or the arrow keys
+  spinner(label: string, value: number, options: Partial<WidgetOptions> = {}) {
+    const id = options.id ?? label;
+    const step = options.step ?? 1;
+    const min = options.min ?? -Infinity;
+    const max = options.max ?? Infinity;
+    const r = this.place(options, 1);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+
+    let valueW = Math.max(3, format(value, step).length);
+    for (const limit of [min, max]) {
+      if (!isFinite(limit)) continue;
+      valueW = Math.max(valueW, format(limit, step).length);
+    }
+    const left = r.x + r.w - valueW - 4;
+    const right = r.x + r.w - 1;
+
+    let v = value;
+    if (s.hover && this.down && this.mx == left) v -= step;
+    if (s.hover && this.down && this.mx == right) v += step;
+    if (keys.has("ArrowLeft") || keys.has("ArrowDown")) v -= step;
+    if (keys.has("ArrowRight") || keys.has("ArrowUp")) v += step;
+    if (keys.has("Home") && isFinite(min)) v = min;
+    if (keys.has("End") && isFinite(max)) v = max;
+    if (v !== value) {
+      v = Math.max(min, Math.min(max, round(v, decimals(step))));
+    }
+
+    const hl = s.hover || s.focus;
+    const text = "◂ " + format(v, step).padStart(valueW) + " ▸";
+    this.line(label, r.x, r.y, left - r.x, hl);
+    this.line(text, left, r.y, valueW + 4, hl);
+    return this.state(s, v, value);
+  }
+
+  // A single line of text, Enter submits (clicked)
+  textInput(
+    label: string,
+    value: string,
+    options: Partial<WidgetOptions> = {}
+  ) {
+    const id = options.id ?? label;
+    const r = this.place(options, 3);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+
+    let v = value;
+    if (s.focus) {
+      v += this.text;
+      if (keys.has("Backspace")) v = graphemes(v).slice(0, -1).join("");
+    }
+
+    const hl = s.hover || s.focus;
+    this.box(r, label, hl);
+    let text = v || (s.focus ? "" : options.placeholder ?? "");
+    if (s.focus) text += "_";
+    // The end of the text (and the caret) stays visible
+    this.line(tail(text, r.w - 4), r.x + 2, r.y + 1, r.w - 4, false);
+    return this.state(s, v, value, s.clicked || keys.has("Enter"));
+  }
+
+  // Selects an item (index) of a list which opens below the widget
+  dropdown(
+    label: string,
+    items: string[],
+    index: number,
+    options: Partial<WidgetOptions> = {}
+  ) {
+    const id = options.id ?? label;
+    const r = this.place(options, 3);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+    const n = items.length;
+    const popup = { x: r.x, y: r.y + r.h, w: r.w, h: n + 2 };
+
+    let v = index;
+    if (this.open === id) {
+      if (keys.has("ArrowUp")) this.highlight = Math.max(0, this.highlight - 1);
+      if (keys.has("ArrowDown")) {
+        this.highlight = Math.min(n - 1, this.highlight + 1);
+      }
+      if (keys.has("Enter") || keys.has(" ")) {
+        v = this.highlight;
+        this.open = null;
+      } else if (keys.has("Escape") || s.clicked) {
+        this.open = null;
+      } else if (this.inside(popup)) {
+        // The list is over the other widgets
+        this.hasCursor = true;
+        const i = this.my - popup.y - 1;
+        if (i >= 0 && i < n) {
+          this.highlight = i;
+          if (this.down) {
+            v = i;
+            this.open = null;
+            this.active = id;
+          }
+        }
+      } else if (this.down && !s.hover) {
+        this.open = null;
+      }
+    } else {
+      if (keys.has("ArrowUp")) v = Math.max(0, v - 1);
+      if (keys.has("ArrowDown")) v = Math.min(n - 1, v + 1);
+      if (s.clicked || keys.has("Enter") || keys.has(" ")) {
+        this.open = id;
+        this.highlight = Math.max(0, v);
+      }
+    }
+
+    const hl = s.hover || s.focus;
+    this.box(r, label, hl);
+    const arrow = this.open === id ? " ▴" : " ▾";
+    const text = fit(items[v] ?? "", r.w - 6, true) + arrow;
+    this.line(text, r.x + 2, r.y + 1, r.w - 4, false);
+
+    if (this.open === id) {
+      this.popupRect = popup;
+      this.popup = () => {
+        this.box(popup, "", false, true);
+        for (let i = 0; i < n; i++) {
+          const text = " " + items[i]!;
+          const y = popup.y + 1 + i;
+          this.line(text, popup.x + 1, y, popup.w - 2, i == this.highlight);
+        }
+      };
+    }
+    return this.state(s, v, index);
+  }
+
+  // Selects an item (index) of a scrollable list
+  list(
+    label: string,
+    items: string[],
+    index: number,
+    options: Partial<WidgetOptions> = {}
+  ) {
+    const id = options.id ?? label;
+    const h = options.height ?? Math.min(items.length, 8) + 2;
+    const r = this.place(options, h);
+    const s = this.interact(id, r);
+    const keys = this.keysFor(id);
+    const n = items.length;
+    const visible = Math.max(1, h - 2);
+    const maxOffset = Math.max(0, n - visible);
+    let offset = Math.min(maxOffset, this.scroll.get(id) ?? 0);
+
+    let v = index;
+    if (s.active) {
+      const row = this.my - r.y - 1;
+      if (this.mx == r.x + r.w - 1 && maxOffset > 0) {
+        // Scrollbar
+        const t = Math.max(0, Math.min(1, row / Math.max(1, visible - 1)));
+        offset = Math.round(t * maxOffset);
+      } else if (this.down && row >= 0 && row < visible && offset + row < n) {
+        v = offset + row;
+      }
+    }
+    if (keys.has("ArrowUp")) v--;
+    if (keys.has("ArrowDown")) v++;
+    if (keys.has("PageUp")) v -= visible;
+    if (keys.has("PageDown")) v += visible;
+    if (keys.has("Home")) v = 0;
+    if (keys.has("End")) v = n - 1;
+    if (v !== index) {
+      v = Math.max(0, Math.min(n - 1, v));
+      // The selected item stays visible
+      if (v < offset) offset = v;
+      if (v >= offset + visible) offset = v - visible + 1;
+    }
+    this.scroll.set(id, offset);
+
+    const hl = s.hover || s.focus;
+    this.box(r, label, hl);
+    for (let k = 0; k < visible; k++) {
+      const i = offset + k;
+      const text = i < n ? " " + items[i]! : "";
+      this.line(text, r.x + 1, r.y + 1 + k, r.w - 2, i == v);
+    }
+    if (maxOffset > 0) {
+      const thumb = Math.round((offset / maxOffset) * (visible - 1));
+      const x = r.x + r.w - 1;
+      const y = r.y + 1 + thumb;
+      merge({ char: "█" }, x, y, this.target, this.cols, this.rows);
+    }
+    return this.state(s, v, index);
+  }
+
+  // -- Helpers ----------------------------------------------------------------
+
+  private get down() {
+    return this.pressed && !this.wasPressed;
+  }
+
+  private get up() {
+    return !this.pressed && this.wasPressed;
+  }
+
+  // Rect of the next widget, the following one is placed below
+  private place(options: Partial<WidgetOptions>, h: number, gap = 0): Rect {
+    const x = options.x ?? this.originX;
+    const y = options.y ?? this.nextY;
+    const w = options.width ?? this.panel.width;
+    this.nextY = y + h + gap;
+    return { x, y, w, h };
+  }
+
+  // Pointer state of a widget
+  private interact(id: string, r: Rect) {
+    const blocked =
+      this.open !== id &&
+      this.popupRect !== null &&
+      this.inside(this.popupRect);
+    const free = this.active === null || this.active === id;
+    const hover = this.inside(r) && !blocked && free;
+    if (hover) this.hasCursor = true;
+    if (hover && this.down) {
+      this.active = id;
+      this.focus = id;
+    }
+    this.order.push(id);
+    return {
+      hover,
+      focus: this.focus === id,
+      active: this.active === id,
+      clicked: hover && this.up && this.active === id,
+    };
+  }
+
+  private state<T>(
+    s: ReturnType<UI["interact"]>,
+    value: T,
+    prev: T,
+    clicked = s.clicked
+  ): WidgetState<T> {
+    return { ...s, value, clicked, changed: value !== prev };
+  }
+
+  // Keys pressed for the widget (only the focused one)
+  private keysFor(id: string) {
+    return this.focus === id ? this.keys : NO_KEYS;
+  }
+
+  private inside(r: Rect) {
+    const { mx, my } = this;
+    return mx >= r.x && mx < r.x + r.w && my >= r.y && my < r.y + r.h;
+  }
+
+  private border() {
+    const name = this.style.borderStyle as BorderName;
+    return borderStyles[name] || borderStyles.round;
+  }
+
+  // Rows taken by a shadow below a box
+  private shadowGap() {
+    return this.style.shadowStyle == "none" ? 0 : 1;
+  }
+
+  private colors(highlight: boolean) {
+    const s = this.style;
+    return {
+      color: highlight ? s.accentTextColor : s.color,
+      backgroundColor: highlight ? s.accentColor : s.backgroundColor,
+      fontWeight: s.fontWeight,
+    };
+  }
+
+  // A line of text, padded or cut to the width
+  private line(text: string, x: number, y: number, w: number, hl: boolean) {
+    if (w <= 0) return;
+    const obj = { text: fit(text, w, true), ...this.colors(hl) };
+    mergeText(obj, x, y, this.target, this.cols, this.rows);
+  }
+
+  // A box with an optional label in the top border; highlighted
+  // boxes have a border of the accent color (or are filled with it)
+  private box(
+    r: Rect,
+    label: string,
+    hl: boolean,
+    shadow = false,
+    fill = false
+  ) {
+    const s = this.style;
+    const style = {
+      x: r.x,
+      y: r.y,
+      width: r.w,
+      height: r.h,
+      borderStyle: s.borderStyle,
+      shadowStyle: shadow ? s.shadowStyle : "none",
+      ...this.colors(hl && fill),
+    };
+    if (hl && !fill) style.color = s.accentColor;
+    drawBox("", style, this.target, this.cols, this.rows);
+    if (label) {
+      const w = Math.min(textWidth(label) + 2, r.w - 4);
+      const obj = {
+        text: fit(" " + label + " ", w, true),
+        color: style.color,
+        backgroundColor: style.backgroundColor,
+      };
+      mergeText(obj, r.x + 2, r.y, this.target, this.cols, this.rows);
+    }
+  }
+}
+
+// The end of a text which fits a width (in columns)
+function tail(text: string, w: number) {
+  const chars = graphemes(text);
+  let width = 0;
+  let i = chars.length;
+  while (i > 0 && width + charWidth(chars[i - 1]!) <= w) {
+    width += charWidth(chars[i - 1]!);
+    i--;
+  }
+  return chars.slice(i).join("");
+}
+
+function decimals(step: number) {
+  if (!(step > 0) || step >= 1) return 0;
+  return Math.min(10, Math.ceil(-Math.log10(step) - 1e-9));
+}
+
+function round(v: number, digits: number) {
+  return parseFloat(v.toFixed(digits));
+}
+
+function format(v: number, step: number) {
+  return v.toFixed(decimals(step));
+}
+
+// Rounds to a multiple of step (from min) inside the range
+function snap(v: number, min: number, max: number, step: number) {
+  const s = step > 0 ? min + Math.round((v - min) / step) * step : v;
+  return round(Math.max(min, Math.min(max, s)), decimals(step));
+}
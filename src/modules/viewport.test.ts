@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { runHeadless } from "../run";
+import { set } from "./buffer";
+import type Viewport from "./viewport";
+import type { Buffer, Context, Program, Settings } from "./types";
+
+// A world of 20 × 10 cells: the letters of the columns (a, b, c, ...)
+// on even rows, digits of the columns on odd rows
+const WORLD = { cols: 20, rows: 10 };
+
+function fill(viewport: Viewport) {
+  for (let y = 0; y < viewport.rows; y++) {
+    for (let x = 0; x < viewport.cols; x++) {
+      const char = y % 2 ? String(x % 10) : String.fromCharCode(97 + x);
+      set({ char }, x, y, viewport.buffer, viewport.cols, viewport.rows);
+    }
+  }
+}
+
+// Blits the world in pre(), after the view has been set
+function program(
+  setup: (viewport: Viewport, context: Context) => void,
+  options: Partial<Settings["viewport"]> = {}
+): Program {
+  return {
+    boot: (context) => fill(context.viewport!),
+    pre: (context, cursor, buffer) => {
+      const viewport = context.viewport!;
+      setup(viewport, context);
+      viewport.blit(buffer, context.cols, context.rows);
+    },
+    settings: { viewport: { ...WORLD, ...options } } as Settings,
+  };
+}
+
+function rows(frame: Buffer, cols: number) {
+  const out: string[] = [];
+  for (let i = 0; i < frame.length; i += cols) {
+    out.push(
+      frame
+        .slice(i, i + cols)
+        .map((cell) => cell.char)
+        .join("")
+    );
+  }
+  return out;
+}
+
+describe("viewport", () => {
+  test("shows the world centered on its position", () => {
+    const [frame] = runHeadless(
+      program((viewport) => viewport.moveTo(5, 4)),
+      { cols: 4, rows: 2 }
+    );
+    expect(rows(frame!, 4)).toEqual(["3456", "defg"]);
+  });
+
+  test("leaves the cells outside of the world unchanged", () => {
+    const [frame] = runHeadless(
+      program((viewport) => viewport.moveTo(0, 0)),
+      { cols: 4, rows: 2 }
+    );
+    expect(rows(frame!, 4)).toEqual(["    ", "  ab"]);
+  });
+
+  test("is kept inside of the world with clamp", () => {
+    const [frame] = runHeadless(
+      program((viewport) => viewport.moveTo(0, 0), { clamp: true }),
+      { cols: 4, rows: 2 }
+    );
+    expect(rows(frame!, 4)).toEqual(["abcd", "0123"]);
+  });
+
+  test("samples the cell at the center when zoomed out", () => {
+    const [frame] = runHeadless(
+      program((viewport) => {
+        viewport.zoom = 0.5;
+        viewport.moveTo(4, 3);
+      }),
+      { cols: 4, rows: 2 }
+    );
+    // Two world cells per screen cell, the second one is at the center
+    expect(rows(frame!, 4)).toEqual(["bdfh", "bdfh"]);
+  });
+
+  test("supersamples the most frequent char", () => {
+    const [frame] = runHeadless(
+      program(
+        (viewport) => {
+          const cells = viewport.buffer;
+          // A block of x in the first 2 × 2 world cells
+          for (const i of [0, 1, 20, 21]) cells[i] = { char: "x" };
+          cells[2] = { char: " " };
+          cells[3] = { char: "y" };
+          viewport.zoom = 0.5;
+          viewport.moveTo(4, 1);
+        },
+        { sampling: "supersample" }
+      ),
+      { cols: 4, rows: 1 }
+    );
+    // Cell 0: four x, cell 1: an empty cell, a y and two digits (the
+    // first of the most frequent chars wins)
+    expect(rows(frame!, 4)[0]!.slice(0, 2)).toBe("xy");
+  });
+
+  test("passes the world cell to main()", () => {
+    const worlds: string[] = [];
+    const p: Program = {
+      pre: (context) => context.viewport!.moveTo(10, 5),
+      main: (coord) => {
+        worlds.push(coord.world!.x + "," + coord.world!.y);
+        return " ";
+      },
+      settings: { viewport: WORLD } as Settings,
+    };
+    runHeadless(p, { cols: 2, rows: 2 });
+    expect(worlds).toEqual(["9,4", "10,4", "9,5", "10,5"]);
+  });
+
+  test("converts between screen and world positions", () => {
+    runHeadless(
+      program((viewport) => {
+        viewport.moveTo(10, 5);
+        viewport.zoomAt(2, 0, 0);
+        // The world position under the screen origin stays in place
+        expect(viewport.toWorld(0, 0)).toEqual({ x: 8, y: 4 });
+        const p = viewport.toScreen(9, 4.5);
+        expect(p).toEqual({ x: 2, y: 1 });
+        expect(viewport.cellAt(2, 1)).toEqual({ x: 9, y: 4 });
+      }),
+      { cols: 4, rows: 2 }
+    );
+  });
+});
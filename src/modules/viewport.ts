@@ -0,0 +1,269 @@
+/**
+@module   viewport
+@desc     A view over a world larger than the screen
+@category public
+
+The world is a grid of cols × rows cells (for example a map or the field
+of a simulation), the screen shows a part of it: the view is centered
+on a world position (x, y) and scaled by a zoom factor (screen cells per
+world cell: 1 = one to one, 0.5 = two world cells per screen cell).
+
+A viewport is created by the runner if the program exports the size
+of the world in its settings:
+
+export const settings = { viewport: { cols: 400, rows: 200 } }
+
+It is then available as context.viewport, and main() receives the world
+cell under each screen cell as coord.world. The cursor can be converted
+with toWorld():
+
+const p = context.viewport.toWorld(cursor.x, cursor.y)
+
+The world can be drawn into the cells of viewport.buffer (with the
+helpers of the buffer module, with viewport.cols and viewport.rows as
+size) and copied to the screen with blit(); cells outside of the world
+are left unchanged. Zoomed out, the ‘nearest’ sampling shows the world
+cell at the center of each screen cell, ‘supersample’ the most frequent
+char of the covered world cells (empty cells count only if all of them
+are empty). Programs with their own world data can sample it with
+cellRect().
+
+With options.square the world cells are square on the screen (the
+aspect ratio of the font is compensated), with options.clamp the view
+doesn’t leave the world (it’s centered if the world is smaller).
+*/
+
+import { set } from "./buffer";
+import type { AnyBuffer, Buffer, Cell, ViewportOptions } from "./types";
+import type { Vec2 } from "./vec2";
+
+const defaultOptions: ViewportOptions = {
+  cols: 0,
+  rows: 0,
+  zoom: 1,
+  sampling: "nearest",
+  square: false,
+  clamp: false,
+};
+
+// Zoom limits
+const MIN_ZOOM = 1e-3;
+const MAX_ZOOM = 1e3;
+
+export default class Viewport {
+  // Size of the world
+  cols: number;
+  rows: number;
+  // World position at the center of the screen
+  x: number;
+  y: number;
+  zoom: number;
+  sampling: ViewportOptions["sampling"];
+  square: boolean;
+  clamp: boolean;
+  // Size of the screen and aspect ratio of its cells (see resize)
+  screenCols: number;
+  screenRows: number;
+  aspect: number;
+  // World cells, created on first use
+  private cells: Buffer | null;
+
+  constructor(options: Partial<ViewportOptions> = {}) {
+    const o = { ...defaultOptions, ...options };
+    if (!(o.cols > 0 && o.rows > 0)) {
+      throw new Error("viewport.js: The size of the world is required.");
+    }
+    this.cols = o.cols;
+    this.rows = o.rows;
+    this.x = o.cols / 2;
+    this.y = o.rows / 2;
+    this.zoom = o.zoom;
+    this.sampling = o.sampling;
+    this.square = o.square;
+    this.clamp = o.clamp;
+    this.screenCols = 0;
+    this.screenRows = 0;
+    this.aspect = 1;
+    this.cells = null;
+  }
+
+  // The cells of the world, filled with spaces
+  get buffer(): Buffer {
+    if (!this.cells) {
+      this.cells = new Array(this.cols * this.rows);
+      for (let i = 0; i < this.cells.length; i++) {
+        this.cells[i] = { char: " " };
+      }
+    }
+    return this.cells;
+  }
+
+  // World cells per screen cell, horizontally
+  get scaleX() {
+    return 1 / this.zoom;
+  }
+
+  // World cells per screen cell, vertically
+  get scaleY() {
+    return this.square ? 1 / (this.zoom * this.aspect) : 1 / this.zoom;
+  }
+
+  // Updates the size of the screen (done by the runners at each frame)
+  resize(screenCols: number, screenRows: number, aspect = 1) {
+    this.screenCols = screenCols;
+    this.screenRows = screenRows;
+    this.aspect = aspect;
+    this.constrain();
+  }
+
+  // Screen position (cells) to world position
+  toWorld(x: number, y: number): Vec2 {
+    return {
+      x: this.x + (x - this.screenCols / 2) * this.scaleX,
+      y: this.y + (y - this.screenRows / 2) * this.scaleY,
+    };
+  }
+
+  // World position to screen position (cells)
+  toScreen(x: number, y: number): Vec2 {
+    return {
+      x: (x - this.x) / this.scaleX + this.screenCols / 2,
+      y: (y - this.y) / this.scaleY + this.screenRows / 2,
+    };
+  }
+
+  // The world cell at the center of a screen cell (may be outside
+  // of the world, see contains)
+  cellAt(x: number, y: number): Vec2 {
+    const p = this.toWorld(x + 0.5, y + 0.5);
+    return { x: Math.floor(p.x), y: Math.floor(p.y) };
+  }
+
+  // The world cells covered by a screen cell (at least one)
+  cellRect(x: number, y: number) {
+    const a = this.toWorld(x, y);
+    const b = this.toWorld(x + 1, y + 1);
+    const x1 = Math.floor(a.x);
+    const y1 = Math.floor(a.y);
+    return {
+      x: x1,
+      y: y1,
+      w: Math.max(1, Math.floor(b.x) - x1),
+      h: Math.max(1, Math.floor(b.y) - y1),
+    };
+  }
+
+  // Returns true if the world cell exists
+  contains(x: number, y: number) {
+    return x >= 0 && x < this.cols && y >= 0 && y < this.rows;
+  }
+
+  // Centers the view on a world position
+  moveTo(x: number, y: number) {
+    this.x = x;
+    this.y = y;
+    this.constrain();
+  }
+
+  // Scrolls the view by a number of screen cells
+  pan(dx: number, dy: number) {
+    this.moveTo(this.x + dx * this.scaleX, this.y + dy * this.scaleY);
+  }
+
+  // Scrolls the view as little as needed to keep a world position
+  // visible, at least margin screen cells from the borders
+  follow(x: number, y: number, margin = 0) {
+    const p = this.toScreen(x, y);
+    const mx = Math.min(margin, this.screenCols / 2);
+    const my = Math.min(margin, this.screenRows / 2);
+    let dx = 0;
+    let dy = 0;
+    if (p.x < mx) dx = p.x - mx;
+    else if (p.x > this.screenCols - mx) dx = p.x - (this.screenCols - mx);
+    if (p.y < my) dy = p.y - my;
+    else if (p.y > this.screenRows - my) dy = p.y - (this.screenRows - my);
+    if (dx != 0 || dy != 0) this.pan(dx, dy);
+  }
+
+  // Sets the zoom, the world position under a screen position
+  // (by default the center) stays in place
+  zoomAt(
+    zoom: number,
+    x = this.screenCols / 2,
+    y = this.screenRows / 2
+  ) {
+    const before = this.toWorld(x, y);
+    this.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+    const after = this.toWorld(x, y);
+    this.moveTo(this.x + before.x - after.x, this.y + before.y - after.y);
+  }
+
+  // Copies the visible part of the world to the screen
+  blit(target: AnyBuffer, targetCols: number, targetRows: number) {
+    const cells = this.buffer;
+    for (let j = 0; j < targetRows; j++) {
+      for (let i = 0; i < targetCols; i++) {
+        const idx =
+          this.sampling == "supersample"
+            ? this.sampleRect(i, j)
+            : this.sampleCenter(i, j);
+        if (idx < 0) continue;
+        const cell = cells[idx]!;
+        const val = typeof cell == "object" ? { ...cell } : cell;
+        set(val, i, j, target, targetCols, targetRows);
+      }
+    }
+  }
+
+  // Index of the world cell at the center of a screen cell, -1 if none
+  private sampleCenter(x: number, y: number) {
+    const p = this.cellAt(x, y);
+    return this.contains(p.x, p.y) ? p.x + p.y * this.cols : -1;
+  }
+
+  // Index of a world cell with the most frequent char of the cells
+  // covered by a screen cell, -1 if none
+  private sampleRect(x: number, y: number) {
+    const r = this.cellRect(x, y);
+    const x1 = Math.max(0, r.x);
+    const y1 = Math.max(0, r.y);
+    const x2 = Math.min(this.cols, r.x + r.w);
+    const y2 = Math.min(this.rows, r.y + r.h);
+    if (x1 >= x2 || y1 >= y2) return -1;
+    const counts: Map<string, number> = new Map();
+    let best = x1 + y1 * this.cols;
+    let max = 0;
+    for (let j = y1; j < y2; j++) {
+      for (let i = x1; i < x2; i++) {
+        const idx = i + j * this.cols;
+        const char = charOf(this.cells![idx]);
+        if (char == " " || char == "") continue;
+        const n = (counts.get(char) || 0) + 1;
+        counts.set(char, n);
+        if (n > max) {
+          max = n;
+          best = idx;
+        }
+      }
+    }
+    return best;
+  }
+
+  // Keeps the view inside the world (with options.clamp)
+  private constrain() {
+    if (!this.clamp || this.screenCols == 0) return;
+    this.x = clampAxis(this.x, this.screenCols * this.scaleX, this.cols);
+    this.y = clampAxis(this.y, this.screenRows * this.scaleY, this.rows);
+  }
+}
+
+function clampAxis(center: number, view: number, size: number) {
+  if (view >= size) return size / 2;
+  return Math.max(view / 2, Math.min(size - view / 2, center));
+}
+
+// Cells can be chars as well (set with the buffer helpers)
+function charOf(cell: Cell | string | undefined) {
+  if (typeof cell == "object" && cell !== null) return String(cell.char ?? " ");
+  return cell === undefined ? " " : String(cell);
+}
@@ -0,0 +1,39 @@
+/**
+[header]
+@author ertdfgcvb
+@title  GIF recording
+@desc   Record 30 frames as an animated GIF
+*/
+
+import { recorder } from "glyph-engine";
+import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
+
+// Works with any renderer: the frames are rasterized offscreen.
+// Optional: reset the frame count and time at each new run!
+export const settings = {
+  restoreState: false,
+  fps: 15, // The GIF will be played at the same framerate
+};
+
+// The GIF is downloaded once the last frame has been captured.
+const rec = new recorder.default("recording.gif", 1, 30);
+
+const pattern = "┼──┼──";
+
+export function main(
+  coord: Coord,
+  context: Context,
+  cursor: Cursor,
+  buffer: Buffer
+) {
+  const i = (coord.x + coord.y + context.frame) % pattern.length;
+  return {
+    char: pattern[i],
+    color: coord.y % 2 ? "royalblue" : "black",
+  };
+}
+
+// Capture in post(): the buffer contains the complete frame.
+export function post(context: Context, cursor: Cursor, buffer: Buffer) {
+  rec.capture(context, buffer);
+}
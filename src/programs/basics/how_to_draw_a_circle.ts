@@ -40,13 +40,14 @@ export function post(context: Context, cursor: Cursor, buffer: Buffer) {
   let text = "";
   text += "Hold the cursor button\n";
   text += "to change the aspect ratio:\n";
-  text += "aspectRatio = " + ar + "\n";
+  text += "aspectRatio = {b}{white}" + ar + "{/}{/}\n";
 
   // Custom box style
   const style: Style = {
     backgroundColor: "tomato",
     borderStyle: "double",
     shadowStyle: "gray",
+    markup: true, // the value is highlighted (see markup)
   };
 
   // Finally draw the box
@@ -0,0 +1,96 @@
+/**
+[header]
+@author ertdfgcvb
+@title  Layout
+@desc   Boxes which follow the size of the window
+*/
+
+import { layout } from "glyph-engine";
+import type {
+  Buffer,
+  Context,
+  Coord,
+  Cursor,
+  LayoutBox,
+  LayoutNode,
+} from "glyph-engine";
+
+export const settings = {
+  backgroundColor: "white",
+  color: "black",
+};
+
+const style = { backgroundColor: "white", color: "black" };
+
+// The view has no style: it’s not drawn, main() fills it
+const hud: LayoutNode = {
+  direction: "column",
+  margin: 1,
+  gap: 1,
+  children: [
+    {
+      size: 3,
+      style: { ...style, borderStyle: "double" },
+      paddingX: 1,
+      text: "Resize the window",
+    },
+    {
+      direction: "row",
+      gap: 2,
+      children: [
+        {
+          size: 18,
+          style,
+          title: "Stacks",
+          padding: 1,
+          text: "Rows and columns, fixed, flexible or auto sizes.",
+        },
+        { id: "view", min: 10 },
+        {
+          size: "auto",
+          max: 24,
+          style,
+          title: "Grid",
+          columns: 2,
+          gap: 1,
+          padding: 1,
+          children: ["A", "B", "C", "D"].map((text) => ({
+            style: { ...style, borderStyle: "single" },
+            align: "center",
+            paddingX: 2,
+            text,
+          })),
+        },
+      ],
+    },
+    {
+      size: 1,
+      direction: "row",
+      justify: "space-between",
+      children: [
+        { size: "auto", text: "flex" },
+        { size: "auto", text: "grid" },
+        { size: "auto", text: "stack" },
+      ],
+    },
+  ],
+};
+
+let view: LayoutBox | undefined;
+
+export function pre(context: Context) {
+  view = layout.find(layout.resolve(hud, context.cols, context.rows), "view");
+}
+
+export function main(coord: Coord, context: Context) {
+  if (!view) return " ";
+  const x = coord.x - view.x;
+  const y = coord.y - view.y;
+  if (x < 0 || y < 0 || x >= view.width || y >= view.height) return " ";
+  const t = context.time * 0.002;
+  return "·-=+*"[Math.floor((Math.sin(x * 0.3 + y * 0.5 + t) + 1) * 2.49)];
+}
+
+export function post(context: Context, cursor: Cursor, buffer: Buffer) {
+  layout.draw(hud, context, buffer);
+}
@@ -19,6 +19,8 @@ export const settings = {
     width: 400,
     height: 500,
   },
+  // Each glyph is rasterized only once (faster with many changing cells)
+  glyphAtlas: true,
   // Universal settings
   cols: 42,
   rows: 22,
@@ -5,7 +5,7 @@
 @desc   Export 10 frames as images
 */
 
-import { drawbox,exportframe } from "glyph-engine";
+import { drawbox, exportframe, layers } from "glyph-engine";
 import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
 // Important: the frame exporter works only with the canvas renderer.
 // Optional: reset the frame count and time at each new run!
@@ -33,6 +33,9 @@ export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   // > ffmpeg -framerate 30 -pattern_type glob -i "export_*.png" \
   //        -vcodec h264 -pix_fmt yuv420p \
   //        -preset:v slow -profile:v baseline -crf 23 export.m4v
+  //
+  // To get a single animated GIF instead, use the recorder module:
+  // see the 'GIF recording' example.
 }
 
 export function main(
@@ -46,7 +49,12 @@ export function main(
 }
 
 export function post(context: Context, cursor: Cursor, buffer: Buffer) {
-    drawbox.drawInfo(context, cursor, buffer, {
+  // The info box is drawn on a layer: it’s hidden while the frames
+  // are exported, the images contain only the buffer.
+  const info = layers.getLayer(buffer, "info", { zIndex: 1 });
+  info.visible = context.frame < 9 || context.frame >= 20;
+  info.clear();
+  drawbox.drawInfo(context, cursor, info.buffer, {
     color: "white",
     backgroundColor: "royalblue",
     shadowStyle: "gray",
@@ -0,0 +1,37 @@
+/**
+[header]
+@author ertdfgcvb
+@title  Text styles
+@desc   Bold, italic, underline, opacity and inverse cells
+*/
+
+import { buffer as buf } from "glyph-engine";
+import type { Buffer, Context, Cursor } from "glyph-engine";
+
+// Works with the text, canvas, svg and ansi renderers
+export const settings = {
+  backgroundColor: "white",
+  color: "black",
+};
+
+const styles = [
+  { text: "bold", fontWeight: "700" },
+  { text: "italic", fontStyle: "italic" },
+  { text: "underline", textDecoration: "underline" },
+  { text: "line-through", textDecoration: "line-through" },
+  { text: "opacity 0.4", opacity: 0.4 },
+  { text: "inverse", inverse: true },
+  {
+    text: "all together",
+    fontWeight: "700",
+    fontStyle: "italic",
+    textDecoration: "underline",
+    inverse: true,
+  },
+];
+
+export function post(context: Context, cursor: Cursor, buffer: Buffer) {
+  styles.forEach((style, i) => {
+    buf.mergeText(style, 2, 1 + i * 2, buffer, context.cols, context.rows);
+  });
+}
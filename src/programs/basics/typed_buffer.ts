@@ -0,0 +1,42 @@
+/**
+[header]
+@author ertdfgcvb
+@title  Typed buffer
+@desc   A large grid written directly into the typed arrays
+*/
+
+import { cellbuffer } from "glyph-engine";
+import type { Context, Cursor } from "glyph-engine";
+
+// The buffer is a CellBuffer instead of an array of cells:
+// chars and colors are stored in typed arrays.
+export const settings = {
+  typedBuffer: true,
+  renderer: "canvas",
+  fontSize: "6px",
+  backgroundColor: "black",
+};
+
+const { rgba } = cellbuffer;
+const { sin, floor } = Math;
+
+const density = " .:-=+*#%@";
+
+// No main(): the whole frame is written in pre(),
+// without creating any cell object.
+export function pre(
+  context: Context,
+  cursor: Cursor,
+  buffer: cellbuffer.default
+) {
+  const t = context.time * 0.001;
+  const { cols, rows } = context;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = x + y * cols;
+      const v = sin(x * 0.05 + t) * sin(y * 0.1 - t) * 0.5 + 0.5;
+      buffer.chars[i] = density.charCodeAt(floor(v * (density.length - 1)));
+      buffer.fg[i] = rgba(v * 255, 120, 255 - v * 255);
+    }
+  }
+}
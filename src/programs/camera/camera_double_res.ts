@@ -5,8 +5,8 @@
 @desc   Doubled vertical resolution input from camera
 */
 
-import  { color,canvas,camera,drawbox } from "glyph-engine";
-import type{ Buffer, Context, Coord, Cursor } from "glyph-engine";
+import  { color,canvas,camera,drawbox,pixelgrid } from "glyph-engine";
+import type{ Buffer, Context, Cursor } from "glyph-engine";
 
 const cam = camera.default.init();
 const can = new canvas.default();
@@ -24,6 +24,9 @@ pal.push(color.CSS3.lightblue!);
 // Camera data
 const data: Buffer = [];
 
+// Two pixels per char: the cells get the colors of both
+const grid = new pixelgrid.default("half");
+
 export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   const a = context.metrics.aspect;
 
@@ -36,24 +39,13 @@ export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
     .quantize(pal)
     .mirrorX()
     .writeTo(data as any);
-}
 
-export function main(
-  coord: Coord,
-  context: Context,
-  cursor: Cursor,
-  buffer: Buffer
-) {
-  // Coord also contains the index of each cell:
-  const idx = coord.y * context.cols * 2 + coord.x;
-  const upper = data[idx]!;
-  const lower = data[idx + context.cols]!;
-
-  return {
-    char: "▄",
-    color: lower.hex,
-    backgroundColor: upper.hex,
-  };
+  // The grid has the same size of the canvas
+  grid.resize(context.cols, context.rows);
+  for (let i = 0; i < grid.pixels.length; i++) {
+    grid.setPixel(i % grid.width, Math.floor(i / grid.width), data[i]!.hex);
+  }
+  grid.blit(0, 0, buffer, context.cols, context.rows);
 }
 
 export function post(context: Context, cursor: Cursor, buffer: Buffer) {
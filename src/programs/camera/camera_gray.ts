@@ -5,17 +5,20 @@
 @desc   Grayscale input from camera
 */
 
-import  { canvas,camera,drawbox,sort } from "glyph-engine";
-import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
+import  { asciify,canvas,camera,drawbox } from "glyph-engine";
+import type { Buffer, Context, Cursor } from "glyph-engine";
 
 const cam = camera.default.init();
 const can = new canvas.default();
 // For a debug view uncomment the following line:
 // can.display(document.body, 10, 10)
 
-const density = sort.sort(" .x?▂▄▆█", "Simple Console", false);
-
-const data: Buffer = [];
+// The chars are sorted by brightness (see asciify)
+const options = {
+  ramp: " .x?▂▄▆█",
+  fontFamily: "Simple Console",
+  invert: true, // the darkest pixels get the densest chars
+};
 
 export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   const a = context.metrics.aspect;
@@ -28,20 +31,10 @@ export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   can
     .cover(cam, a)
     .mirrorX()
-    .normalize()
-    .writeTo(data as any);
-}
+    .normalize();
 
-export function main(
-  coord: Coord,
-  context: Context,
-  cursor: Cursor,
-  buffer: Buffer
-) {
-  // Coord also contains the index of each cell:
-  const color = data[coord.index]!;
-  const index = Math.floor(color.v * (density.length - 1));
-  return density[index];
+  // One pixel for each cell
+  asciify.asciify(can, options, buffer, context.cols, context.rows);
 }
 
 export function post(context: Context, cursor: Cursor, buffer: Buffer) {
@@ -5,6 +5,7 @@
 @desc   From wingdings icons to unicode emojis
 		Inspired by emojis evolution
 */
+import { string } from "glyph-engine";
 import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
 
 export const settings = {
@@ -15,6 +16,10 @@ export const settings = {
 const { sin, cos, floor } = Math;
 const density = "☆ ☺︎ 👀 🌈 🌮🌮 🌈 👀 ☺︎ ☆";
 
+// One char for each column: the emoji take two columns,
+// the second one is an empty continuation cell
+const cells = string.columns(density);
+
 export function main(
   coord: Coord,
   context: Context,
@@ -27,12 +32,12 @@ export function main(
   const y = coord.y;
 
   const c = context.cols;
-  const posCenter = floor((c - density.length) * 0.5);
+  const posCenter = floor((c - cells.length) * 0.5);
 
   const wave = sin(y * cos(t)) * 5;
 
   const i = floor(x + wave) - posCenter;
 
   // Note: “undefined” is rendered as a space…
-  return density[i];
+  return cells[i];
 }
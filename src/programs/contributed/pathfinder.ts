@@ -3,106 +3,93 @@
 @author Alex Miller
 @title  Pathfinder
 @desc   Click to spawn new path segments
+        Arrow keys to scroll
 */
 
-import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
-import { vec2 as v2 } from "glyph-engine";
-
-const vec2 = v2.vec2;
-
-let prevFrame: Buffer;
-let width: number, height: number;
-
-const colors = ["red", "orange", "yellow", "green", "blue", "indigo", "violet"];
+import type { Buffer, Context, Cursor } from "glyph-engine";
 
+// The paths grow in a world larger than the screen (see viewport)
 export const settings = {
   fps: 30, // fps capping
   backgroundColor: "#000000", // background color of the container element
+  viewport: { cols: 300, rows: 150, clamp: true },
 };
 
 const roads = "┃━┏┓┗┛┣┫┳┻╋";
 
+// Chars of the world, previous step
+let world: string[] = [];
+let width: number, height: number;
+
+export function boot(context: Context) {
+  const viewport = context.viewport!;
+  width = viewport.cols;
+  height = viewport.rows;
+  world = [];
+  for (let i = 0; i < width * height; i++) {
+    world.push(Math.random() < 0.001 ? choose(roads) : " ");
+  }
+  for (const cell of viewport.buffer) cell.color = "white";
+}
+
 export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
-  if (width != context.cols || height != context.rows) {
-    const length = context.cols * context.rows;
-    for (let i = 0; i < length; i++) {
-      buffer[i] =
-        Math.random() < 0.001
-          ? {
-              char: choose(roads),
-              color: "white",
-            }
-          : (" " as any);
+  const viewport = context.viewport!;
+
+  // Scroll with the arrow keys
+  const keys = context.keyboard.down;
+  const dx = Number(keys.has("ArrowRight")) - Number(keys.has("ArrowLeft"));
+  const dy = Number(keys.has("ArrowDown")) - Number(keys.has("ArrowUp"));
+  viewport.pan(dx, dy);
+
+  const next: string[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      next.push(grow(x, y));
     }
-    width = context.cols;
-    height = context.rows;
   }
 
-  // Use the spread operator to copy the previous frame
-  // You must make a copy, otherwise `prevFrame` will be updated prematurely
-  prevFrame = [...buffer];
+  // Spawn a new segment in the world cell under the cursor
+  const p = viewport.cellAt(Math.floor(cursor.x), Math.floor(cursor.y));
+  if (cursor.pressed && viewport.contains(p.x, p.y) && get(p.x, p.y) == " ") {
+    next[p.x + p.y * width] = choose(roads);
+  }
+
+  world = next;
+  const cells = viewport.buffer;
+  for (let i = 0; i < world.length; i++) cells[i]!.char = world[i]!;
+  viewport.blit(buffer, context.cols, context.rows);
 }
 
 function choose(list: string) {
   return list.charAt(Math.floor(Math.random() * list.length));
 }
 
-export function main(
-  coord: Coord,
-  context: Context,
-  cursor: Cursor,
-  buffer: Buffer
-) {
-  const { x, y } = coord;
-  if (
-    cursor.pressed &&
-    Math.floor(cursor.x) == x &&
-    Math.floor(cursor.y) == y &&
-    get(x, y) == " "
-  ) {
-    return {
-      char: choose(roads),
-      color: "white",
-    };
-  }
-
+function grow(x: number, y: number) {
   const last = get(x, y);
 
   // '┃ ━ ┏ ┓ ┗ ┛ ┣ ┫ ┳ ┻ ╋';
 
-  if (last == " ") {
-    let char = " ";
-
-    const top = get(x, y - 1) || " ";
-    const bottom = get(x, y + 1) || " ";
-    const left = get(x - 1, y) || " ";
-    const right = get(x + 1, y) || " ";
-
-    if ("┃┫┣╋┏┓┳".includes(top)) {
-      char = choose("┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┗┫┣┻╋");
-    } else if ("┃┗┛┣┫┻╋".includes(bottom)) {
-      char = choose("┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┏┓┣┫┳╋");
-    } else if ("━┏┗┣┳┻╋".includes(left)) {
-      char = choose("━━━━━━━━━━━━━━━━━━━━┓┛┫┳┻╋");
-    } else if ("━┓┛┫┳┻╋".includes(right)) {
-      char = choose("━━━━━━━━━━━━━━━━━━━━┏┗┣┳┻╋");
-    }
-
-    return {
-      char,
-      color: "white",
-    };
+  if (last != " ") return last;
+
+  const top = get(x, y - 1) || " ";
+  const bottom = get(x, y + 1) || " ";
+  const left = get(x - 1, y) || " ";
+  const right = get(x + 1, y) || " ";
+
+  if ("┃┫┣╋┏┓┳".includes(top)) {
+    return choose("┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┗┫┣┻╋");
+  } else if ("┃┗┛┣┫┻╋".includes(bottom)) {
+    return choose("┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┃┏┓┣┫┳╋");
+  } else if ("━┏┗┣┳┻╋".includes(left)) {
+    return choose("━━━━━━━━━━━━━━━━━━━━┓┛┫┳┻╋");
+  } else if ("━┓┛┫┳┻╋".includes(right)) {
+    return choose("━━━━━━━━━━━━━━━━━━━━┏┗┣┳┻╋");
   }
-
-  return {
-    char: last,
-    color: "white",
-  };
+  return " ";
 }
 
 function get(x: number, y: number) {
-  if (x < 0 || x >= width) return 0;
-  if (y < 0 || y >= height) return 0;
-  const index = y * width + x;
-  return prevFrame[index]!.char;
+  if (x < 0 || x >= width) return "";
+  if (y < 0 || y >= height) return "";
+  return world[y * width + x]!;
 }
@@ -2,7 +2,7 @@
 [header]
 @author Alex Miller
 @title  Sand game
-@desc   Click to drop sand
+@desc   Click to drop sand, press R to reset
 */
 
 import type { Buffer, Cell, Context, Coord, Cursor } from "glyph-engine";
@@ -30,6 +30,16 @@ export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   prevFrame = [...buffer];
 }
 
+// Reset: the sand is scattered again in the next pre()
+export function keyDown(
+  context: Context,
+  cursor: Cursor,
+  buffer: Buffer,
+  key: string
+) {
+  if (key == "r" || key == "R") width = 0;
+}
+
 export function main(
   coord: Coord,
   context: Context,
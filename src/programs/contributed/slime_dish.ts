@@ -43,6 +43,8 @@ export const settings = {
   backgroundColor: "black",
   color: "white",
   fontSize: "12px",
+  // The dish is larger than the screen, its cells are square
+  viewport: { cols: WIDTH, rows: HEIGHT, square: true },
 };
 
 export function boot(context: Context, buffer: Buffer, data: any) {
@@ -63,8 +65,7 @@ export function boot(context: Context, buffer: Buffer, data: any) {
     );
   }
 
-  data.viewScale = { y: 100 / context.metrics.aspect, x: 100 };
-  data.viewFocus = { y: 0.5, x: 0.5 };
+  context.viewport!.zoom = 0.01;
 }
 
 export function pre(
@@ -110,32 +111,15 @@ export function main(
   buffer: Buffer,
   data: any
 ) {
-  const { viewFocus, viewScale } = data;
-
-  // A down and upscaling algorithm based on nearest-neighbor image scaling.
-
-  const offset = {
-    y: Math.floor(viewFocus.y * (HEIGHT - viewScale.y * context.rows)),
-    x: Math.floor(viewFocus.x * (WIDTH - viewScale.x * context.cols)),
-  };
-
-  // The "nearest neighbor"
-  const sampleFrom = {
-    y: offset.y + Math.floor(coord.y * viewScale.y),
-    x: offset.x + Math.floor(coord.x * viewScale.x),
-  };
-
-  // The next nearest-neighbor cell, which we look up to the border of
-  const sampleTo = {
-    y: offset.y + Math.floor((coord.y + 1) * viewScale.y),
-    x: offset.x + Math.floor((coord.x + 1) * viewScale.x),
-  };
+  // The dish cells covered by the screen cell
+  const rect = context.viewport!.cellRect(coord.x, coord.y);
+  const sampleFrom = { y: rect.y, x: rect.x };
+  const sampleTo = { y: rect.y + rect.h, x: rect.x + rect.w };
 
   if (!bounded(sampleFrom) || !bounded(sampleTo)) return OOB;
 
-  // When upscaling, sample W/H may be 0
-  const sampleH = Math.max(1, sampleTo.y - sampleFrom.y);
-  const sampleW = Math.max(1, sampleTo.x - sampleFrom.x);
+  const sampleH = rect.h;
+  const sampleW = rect.w;
 
   // Combine all cells in [sampleFrom, sampleTo) into a single value.
   // For this case, the value half way between the average and max works well.
@@ -169,45 +153,32 @@ export function main(
 // }
 
 function updateView(cursor: Cursor, context: Context, data: any) {
-  let targetScale;
-  if (cursor.pressed) {
-    // 1 display char = 1 grid cell
-    targetScale = {
-      y: 1 / context.metrics.aspect,
-      x: 1,
-    };
-  } else if (context.rows / context.metrics.aspect < context.cols) {
-    // Fit whole grid on wide window
-    targetScale = {
-      y: (1.1 * WIDTH) / context.rows,
-      x: ((1.1 * WIDTH) / context.rows) * context.metrics.aspect,
-    };
-  } else {
-    // Fit whole grid on tall window
-    targetScale = {
-      y: (1.1 * WIDTH) / context.cols / context.metrics.aspect,
-      x: (1.1 * WIDTH) / context.cols,
-    };
-  }
-
-  if (
-    data.viewScale.y !== targetScale.y ||
-    data.viewScale.x !== targetScale.x
-  ) {
-    data.viewScale.y += 0.1 * (targetScale.y - data.viewScale.y);
-    data.viewScale.x += 0.1 * (targetScale.x - data.viewScale.x);
-  }
+  const viewport = context.viewport!;
+
+  // Magnify on long press (or any press if gestures are not available)
+  const magnify = cursor.gesture ? cursor.gesture.longPress : cursor.pressed;
+
+  // 1 display char = 1 grid cell, or the whole grid fits the window
+  const targetZoom = magnify
+    ? 1
+    : Math.min(context.cols, context.rows / context.metrics.aspect) /
+      (1.1 * WIDTH);
+
+  // The focus follows the cursor, relative to the window
+  const viewW = context.cols * viewport.scaleX;
+  const viewH = context.rows * viewport.scaleY;
+  const targetFocus = magnify
+    ? {
+        y: (cursor.y / context.rows) * (HEIGHT - viewH) + viewH / 2,
+        x: (cursor.x / context.cols) * (WIDTH - viewW) + viewW / 2,
+      }
+    : { y: HEIGHT / 2, x: WIDTH / 2 };
 
-  let targetFocus = !cursor.pressed
-    ? { y: 0.5, x: 0.5 }
-    : { y: cursor.y / context.rows, x: cursor.x / context.cols };
-  if (
-    data.viewFocus.y !== targetFocus.y ||
-    data.viewFocus.x !== targetFocus.x
-  ) {
-    data.viewFocus.y += 0.1 * (targetFocus.y - data.viewFocus.y);
-    data.viewFocus.x += 0.1 * (targetFocus.x - data.viewFocus.x);
-  }
+  viewport.zoom += 0.1 * (targetZoom - viewport.zoom);
+  viewport.moveTo(
+    viewport.x + 0.1 * (targetFocus.x - viewport.x),
+    viewport.y + 0.1 * (targetFocus.y - viewport.y)
+  );
 }
 
 // 0@0@0@0@0@0^v^v^v^v^v^„`„`„`„`„`„`.`.`.`.`.`.`. . . . . .
@@ -7,8 +7,9 @@
 Based on Alex Miller’s version of Game of Life:
 https://play.ertdfgcvb.xyz/#/src/contributed/game_of_life
 
-By using three box chars (plus space) each char can host
-two vertical cells of the automata allowing a double resolution.
+Each char hosts two vertical cells of the automata allowing a double
+resolution: the automata is drawn into a pixel grid in 'half' mode
+(see pixelgrid) which picks one of the three box chars (plus space):
 '█' both cells are occupied
 ' ' both cells are empty
 '▀' upper cell is occupied
@@ -18,9 +19,9 @@ All the automata state is stored in the custom 'data' buffer.
 Each frame of the animation depends on the previous frame,
 so in this case the 'data' buffer is two arrays (see initialization in pre).
 */
-import { drawbox } from "glyph-engine";
+import { drawbox, pixelgrid } from "glyph-engine";
 const { drawBox } = drawbox;
-import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
+import type { Buffer, Context, Cursor } from "glyph-engine";
 // Safe set function
 function set(
   val: number,
@@ -47,7 +48,11 @@ let cols: number, rows: number;
 
 const data: number[][] = [];
 
-// The automata is computed in a single step and stored in the 'data' buffer
+// Two pixels per char
+const grid = new pixelgrid.default("half");
+
+// The automata is computed in a single step and stored in the 'data' buffer,
+// then drawn into the buffer
 export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
   // The window has been resized (or “init”), reset the buffer:
   if (cols != context.cols || rows != context.rows) {
@@ -107,27 +112,13 @@ export function pre(context: Context, cursor: Cursor, buffer: Buffer) {
       }
     }
   }
-}
 
-// Just a renderer
-export function main(
-  coord: Coord,
-  context: Context,
-  cursor: Cursor,
-  buffer: Buffer
-) {
-  // Current buffer
-  const curr = data[(context.frame + 1) % 2]!;
-
-  // Upper and lower half
-  const idx = coord.x + coord.y * 2 * context.cols;
-  const upper = curr[idx];
-  const lower = curr[idx + context.cols];
-
-  if (upper && lower) return "█"; // both cells are occupied
-  if (upper) return "▀"; // upper cell
-  if (lower) return "▄"; // lower cell
-  return " "; // both cells are empty
+  // The grid has the same size and layout of the automata
+  grid.resize(cols, rows).clear();
+  for (let i = 0; i < curr.length; i++) {
+    if (curr[i]) grid.pixels[i] = pixelgrid.ON;
+  }
+  grid.blit(0, 0, buffer, cols, rows);
 }
 
 export function post(context: Context, cursor: Cursor, buffer: Buffer) {
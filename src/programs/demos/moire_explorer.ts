@@ -3,10 +3,11 @@
 @author ertdfgcvb
 @title  Moiré explorer
 @desc   Click or tap to toggle mode
+        or use the panel (see ui)
 */
 
 
-import { drawbox,num,vec2 as v2 } from "glyph-engine";
+import { drawbox,num,ui,vec2 as v2 } from "glyph-engine";
 import type { Buffer, Context, Coord, Cursor } from "glyph-engine";
 const { drawInfo } = drawbox;
 const { map } = num;
@@ -16,19 +17,39 @@ export const settings = { fps: 60 };
 // Shorthands
 const { sin, cos, atan2, floor, min } = Math;
 
+// Parameters, set by the panel
+const panel = new ui.default({ shadowStyle: "gray" });
+const MODES = ["Angles", "Distances", "Angles × distances"];
+let mode = 0;
+let speed = 1;
+let info = true;
+
+// The time is scaled by the speed
+let time = 0;
+let prevTime = 0;
+
 // Change the mouse pointer to 'pointer'
-export const boot = (context: Context) =>
-  context.settings.element &&
-  (context.settings.element.style.cursor = "pointer");
+export function boot(context: Context) {
+  prevTime = context.time;
+  if (context.settings.element) {
+    context.settings.element.style.cursor = "pointer";
+  }
+}
 
-// Cycle modes with click or tap
-export const pointerDown = () => (mode = ++mode % 3);
-let mode = 0;
+// Cycle modes with click or tap (outside of the panel)
+export function pointerDown() {
+  if (!panel.hasCursor) mode = ++mode % 3;
+}
+
+export function pre(context: Context) {
+  time += (context.time - prevTime) * speed;
+  prevTime = context.time;
+}
 
 const density = " ..._-:=+abcXW@#ÑÑÑ";
 
 export function main(coord: Coord, context: Context, cursor: Cursor) {
-  const t = context.time * 0.0001;
+  const t = time * 0.0001;
   const m = min(context.cols, context.rows);
   const st = {
     x: (2.0 * (coord.x - context.cols / 2)) / m,
@@ -62,9 +83,19 @@ export function main(coord: Coord, context: Context, cursor: Cursor) {
 }
 
 export function post(context: Context, cursor: Cursor, buffer: Buffer) {
-  drawInfo(context, cursor, buffer, {
-    color: "white",
-    backgroundColor: "royalblue",
-    shadowStyle: "gray",
-  });
+  const options = { x: 2, y: 1, width: 26, title: "Moiré" };
+  panel.begin(context, cursor, buffer, options);
+  mode = panel.dropdown("Mode", MODES, mode).value;
+  speed = panel.slider("Speed", speed, 0, 4, { step: 0.1 }).value;
+  info = panel.toggle("Info", info).value;
+  panel.end();
+
+  if (info) {
+    drawInfo(context, cursor, buffer, {
+      x: 34,
+      color: "white",
+      backgroundColor: "royalblue",
+      shadowStyle: "gray",
+    });
+  }
 }
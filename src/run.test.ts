@@ -0,0 +1,389 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { registerRenderer, unregisterRenderer } from "./core/renderers";
+import { get, merge } from "./modules/buffer";
+import { run, runHeadless } from "./run";
+import type {
+  AnyBuffer,
+  Buffer,
+  Context,
+  Program,
+  Settings,
+} from "./modules/types";
+
+// The chars of a frame, one string per row
+function rows(frame: Buffer, cols: number) {
+  const out: string[] = [];
+  for (let i = 0; i < frame.length; i += cols) {
+    out.push(
+      frame
+        .slice(i, i + cols)
+        .map((cell) => cell.char)
+        .join("")
+    );
+  }
+  return out;
+}
+
+describe("runHeadless", () => {
+  test("renders main() for each cell of each frame", () => {
+    const program: Program = {
+      main: (coord, context) => "abc"[(coord.x + context.frame) % 3],
+    };
+    const frames = runHeadless(program, { cols: 4, rows: 2, frames: 2 });
+    expect(frames.length).toBe(2);
+    expect(rows(frames[0]!, 4)).toEqual(["abca", "abca"]);
+    expect(rows(frames[1]!, 4)).toEqual(["bcab", "bcab"]);
+  });
+
+  test("calls boot, pre and post with the same buffer", () => {
+    const calls: string[] = [];
+    const program: Program = {
+      boot: () => calls.push("boot"),
+      pre: (context, cursor, buffer) => {
+        calls.push("pre");
+        merge({ char: "<" }, 0, 0, buffer, 3, 1);
+      },
+      // The cell written by pre() is kept
+      main: (coord, context, cursor, buffer) =>
+        coord.index == 0 ? get(0, 0, buffer, 3, 1) : ".",
+      post: (context, cursor, buffer) => {
+        calls.push("post");
+        merge({ char: ">" }, 2, 0, buffer, 3, 1);
+      },
+    };
+    const [frame] = runHeadless(program, { cols: 3, rows: 1 });
+    expect(calls).toEqual(["boot", "pre", "post"]);
+    expect(rows(frame!, 3)).toEqual(["<.>"]);
+  });
+
+  test("returns copies of the buffer", () => {
+    const program: Program = { main: (coord, context) => "" + context.frame };
+    const frames = runHeadless(program, { cols: 1, rows: 1, frames: 2 });
+    expect(frames[0]![0]!.char).toBe("0");
+    expect(frames[1]![0]!.char).toBe("1");
+  });
+
+  test("derives the time from the frame and the fps", () => {
+    const times: number[] = [];
+    const program: Program = {
+      pre: (context) => times.push(context.time),
+      settings: { fps: 10 } as Settings,
+    };
+    runHeadless(program, { cols: 1, rows: 1, frames: 3 });
+    expect(times).toEqual([0, 100, 200]);
+  });
+
+  test("the settings of the program override the options", () => {
+    let settings: Settings | undefined;
+    const program: Program = {
+      pre: (context) => (settings = context.settings),
+      settings: { fps: 10 } as Settings,
+    };
+    const options = { settings: { fps: 60, seed: 3 } };
+    runHeadless(program, { cols: 1, rows: 1, ...options });
+    expect(settings!.fps).toBe(10);
+    expect(settings!.seed).toBe(3);
+  });
+
+  test("renders typed buffers", () => {
+    const program: Program = {
+      main: (coord) => ({ char: "x", color: "red" }),
+      settings: { typedBuffer: true } as Settings,
+    };
+    const [frame] = runHeadless(program, { cols: 2, rows: 1 });
+    expect(rows(frame!, 2)).toEqual(["xx"]);
+    expect(frame![0]!.color).toBe("red");
+  });
+});
+
+describe("context.random", () => {
+  // Writes a digit drawn with context.random() in each cell
+  const noise = (seed: number): Program => ({
+    main: (coord, context: Context) => "" + Math.floor(context.random() * 10),
+    settings: { seed } as Settings,
+  });
+
+  const render = (seed: number) =>
+    runHeadless(noise(seed), { cols: 16, rows: 4, frames: 2 }).map((f) =>
+      rows(f, 16).join("\n")
+    );
+
+  test("is the same for the same seed and frame", () => {
+    expect(render(42)).toEqual(render(42));
+  });
+
+  test("changes with the seed and the frame", () => {
+    const [a0, a1] = render(42);
+    const [b0] = render(43);
+    expect(a0).not.toBe(a1);
+    expect(a0).not.toBe(b0);
+  });
+
+  test("is uniformly distributed", () => {
+    const counts = new Array(10).fill(0);
+    const [frame] = runHeadless(noise(7), { cols: 100, rows: 100 });
+    for (const cell of frame!) counts[Number(cell.char)]++;
+    for (const n of counts) expect(Math.abs(n - 1000)).toBeLessThan(150);
+  });
+});
+
+// -- run() on a minimal DOM ------------------------------------------------
+
+// Elements are event targets with a style, they have no size
+class FakeElement extends EventTarget {
+  style: Record<string, string> = {};
+  dataset: Record<string, string> = {};
+  children: FakeElement[] = [];
+  parent?: FakeElement;
+  innerHTML = "";
+  private attributes: Map<string, string> = new Map();
+  constructor(public nodeName: string) {
+    super();
+  }
+  get tabIndex() {
+    return Number(this.attributes.get("tabindex") ?? -1);
+  }
+  set tabIndex(value: number) {
+    this.attributes.set("tabindex", String(value));
+  }
+  hasAttribute(name: string) {
+    return this.attributes.has(name);
+  }
+  removeAttribute(name: string) {
+    this.attributes.delete(name);
+  }
+  appendChild(child: FakeElement) {
+    child.parent = this;
+    this.children.push(child);
+    return child;
+  }
+  removeChild(child: FakeElement) {
+    this.children.splice(this.children.indexOf(child), 1);
+  }
+  remove() {
+    this.parent?.removeChild(this);
+  }
+  getBoundingClientRect() {
+    return { left: 0, top: 0, width: 0, height: 0 };
+  }
+  setPointerCapture() {}
+}
+
+// Animation frames are called by tick(), one second apart
+const frameRequests: Map<number, (t: number) => void> = new Map();
+let frameId = 0;
+let clock = 0;
+
+async function tick(n = 1) {
+  // document.fonts.ready
+  await Promise.resolve();
+  for (let i = 0; i < n; i++) {
+    clock += 1000;
+    const callbacks = [...frameRequests.values()];
+    frameRequests.clear();
+    for (const callback of callbacks) callback(clock);
+  }
+}
+
+const body = new FakeElement("BODY");
+const DOM = {
+  document: {
+    body,
+    fonts: { ready: Promise.resolve() },
+    createElement: (name: string) => new FakeElement(name.toUpperCase()),
+  },
+  window: new EventTarget(),
+  getComputedStyle: () => ({
+    getPropertyValue: (name: string) =>
+      name == "font-family" ? "monospace" : "20px",
+  }),
+  requestAnimationFrame: (callback: (t: number) => void) => {
+    frameRequests.set(++frameId, callback);
+    return frameId;
+  },
+  cancelAnimationFrame: (id: number) => frameRequests.delete(id),
+};
+
+// Frames rendered by the "test" renderer: the chars of the buffer
+let rendered: string[] = [];
+let disposed = 0;
+
+// Starts a program on 3 × 1 cells and waits for the first frame:
+// returns the controls and the context of the first frame
+async function start(program: Program, settings: Partial<Settings> = {}) {
+  const controls = run(program, {
+    cols: 3,
+    rows: 1,
+    renderer: "test",
+    ...settings,
+  });
+  // Boot at the second animation frame, then the first frame
+  await tick(3);
+  return { controls, context: await controls };
+}
+
+describe("run", () => {
+  beforeAll(() => {
+    Object.assign(globalThis, DOM);
+    registerRenderer("test", {
+      preferredElementNodeName: "PRE",
+      render: (context: Context, buffer: AnyBuffer) => {
+        const cells = buffer as Buffer;
+        rendered.push(cells.map((cell) => cell.char).join(""));
+      },
+      dispose: () => disposed++,
+    });
+  });
+
+  afterAll(() => {
+    for (const name in DOM) delete (globalThis as any)[name];
+    unregisterRenderer("test");
+  });
+
+  // Each frame writes its number
+  const counter: Program = {
+    main: (coord, context) => String(context.frame % 10),
+  };
+
+  test("resolves with the context of the first frame", async () => {
+    rendered = [];
+    const { controls, context } = await start(counter);
+    expect(context.cols).toBe(3);
+    expect(rendered).toEqual(["000"]);
+    controls.dispose();
+  });
+
+  test("can be paused, resumed and stepped", async () => {
+    rendered = [];
+    const { controls } = await start(counter);
+    controls.pause();
+    await tick(2);
+    expect(rendered).toEqual(["000"]);
+    controls.step(2);
+    expect(rendered).toEqual(["000", "111", "222"]);
+    await tick();
+    expect(rendered.length).toBe(3);
+    controls.resume();
+    await tick(2);
+    expect(rendered).toEqual(["000", "111", "222", "333", "444"]);
+    controls.dispose();
+  });
+
+  test("stops for good", async () => {
+    rendered = [];
+    const { controls } = await start(counter);
+    controls.stop();
+    controls.resume();
+    controls.step();
+    await tick(2);
+    expect(rendered).toEqual(["000"]);
+    controls.dispose();
+  });
+
+  test("changes the fps", async () => {
+    let fps = 0;
+    const { controls } = await start({
+      pre: (context) => (fps = context.settings.fps),
+    });
+    controls.setFps(5);
+    await tick();
+    expect(fps).toBe(5);
+    controls.dispose();
+  });
+
+  test("disposes the renderer, the listeners and the element", async () => {
+    const moves: number[] = [];
+    disposed = 0;
+    const { controls } = await start({ pointerMove: () => moves.push(1) });
+    const element = body.children.at(-1)!;
+    const move = () =>
+      element.dispatchEvent(
+        Object.assign(new Event("pointermove"), { isPrimary: true })
+      );
+    move();
+    await tick();
+    expect(moves.length).toBe(1);
+    controls.dispose();
+    expect(disposed).toBe(1);
+    expect(body.children).not.toContain(element);
+    move();
+    await tick();
+    expect(moves.length).toBe(1);
+    // Disposed once only
+    controls.dispose();
+    expect(disposed).toBe(1);
+  });
+
+  describe("keyboard", () => {
+    // A key event on an element, returns true if the default is prevented
+    const key = (element: EventTarget, type: string, key: string) => {
+      const event = Object.assign(new Event(type, { cancelable: true }), {
+        key,
+      });
+      element.dispatchEvent(event);
+      return event.defaultPrevented;
+    };
+
+    test("reads the keys of its own element", async () => {
+      const keys: string[] = [];
+      const program = (name: string): Program => ({
+        keyDown: (context: any, cursor: any, buffer: any, key: string) =>
+          keys.push(name + key),
+        keyUp: (context: any, cursor: any, buffer: any, key: string) =>
+          keys.push(name + "/" + key),
+      });
+      const a = await start(program("a"));
+      const b = await start(program("b"));
+      const [elementA, elementB] = body.children.slice(-2);
+      // The elements can get the focus
+      expect(elementA!.tabIndex).toBe(0);
+      key(elementA!, "keydown", "x");
+      key(elementB!, "keydown", "y");
+      key(elementB!, "keyup", "y");
+      await tick();
+      expect(keys).toEqual(["ax", "by", "b/y"]);
+      // Keys are not read from the window
+      key(DOM.window, "keydown", "z");
+      await tick();
+      expect(keys.length).toBe(3);
+      a.controls.dispose();
+      b.controls.dispose();
+    });
+
+    test("releases the keys when the element loses the focus", async () => {
+      let down: ReadonlySet<string> = new Set();
+      const { controls } = await start({
+        pre: (context) => (down = context.keyboard.down),
+      });
+      const element = body.children.at(-1)!;
+      key(element, "keydown", "x");
+      await tick();
+      expect(down.has("x")).toBe(true);
+      element.dispatchEvent(new Event("blur"));
+      await tick();
+      expect(down.has("x")).toBe(false);
+      controls.dispose();
+    });
+
+    test("prevents the default of the keys of the program", async () => {
+      const { controls } = await start({
+        pre: (context) => context.keyboard.preventDefault("Tab"),
+      });
+      const element = body.children.at(-1)!;
+      expect(key(element, "keydown", "Tab")).toBe(true);
+      expect(key(element, "keydown", "a")).toBe(false);
+      controls.dispose();
+    });
+
+    test("leaves the tabindex of an element as it was", async () => {
+      const element = new FakeElement("PRE");
+      const { controls } = await start(
+        {},
+        { element: element as unknown as HTMLElement }
+      );
+      expect(element.tabIndex).toBe(0);
+      controls.dispose();
+      expect(element.hasAttribute("tabindex")).toBe(false);
+    });
+  });
+});
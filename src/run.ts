@@ -2,33 +2,46 @@
 Runner
 */
 
-// Both available renderers are imported
-import textRenderer from "./core/textrenderer";
-import canvasRenderer from "./core/canvasrenderer";
+import { getRenderer } from "./core/renderers";
+import {
+  DEFAULT_METRICS,
+  buildContext,
+  createBuffer,
+  createViewport,
+  dispatchEvents,
+  fixedTimeOrigin,
+  getDefaultCellStyle,
+  getFixedTime,
+  processFrame,
+  resetBuffer,
+} from "./core/frame";
 import FPS from "./core/fps";
+import KeyboardInput from "./core/keyboard";
+import PointerTracker from "./core/pointers";
+import CellBuffer from "./modules/cellbuffer";
+import { getUpdatedRowNum } from "./modules/dirty";
+import { composite } from "./modules/layers";
+import type Viewport from "./modules/viewport";
 import storage from "./core/storage";
 import RUNNER_VERSION from "./core/version";
 import type {
+  AnyBuffer,
   Buffer,
   Context,
+  HeadlessOptions,
+  InputEvent,
+  Keyboard,
   Metrics,
   Pointer,
   Program,
+  RunnerControls,
   Settings,
   State,
 } from "./modules";
-import type{ RenderModes } from "./core";
+import type { Render } from "./core";
 
 export { RUNNER_VERSION };
 
-const renderers: Record<
-  RenderModes,
-  typeof textRenderer | typeof canvasRenderer
-> = {
-  canvas: canvasRenderer,
-  text: textRenderer,
-};
-
 // Default settings for the program runner.
 // They can be overwritten by the parameters of the runner
 // or as a settings object exported by the program (in this order).
@@ -38,10 +51,14 @@ const defaultSettings = {
   rows: 0, // number of columns, 0 is equivalent to 'auto'
   once: false, // if set to true the renderer will run only once
   fps: 30, // fps capping
-  renderer: "text", // can be 'canvas', anything else falls back to 'text'
+  renderer: "text", // name of a registered renderer: 'text', 'canvas', etc.
   allowSelect: false, // allows selection of the rendered element
   restoreState: false, // will store the "state" object in local storage
   // this is handy for live-coding situations
+  timeMode: "realtime", // 'realtime' or 'fixed' (exactly 1000/fps per frame)
+  seed: 0, // seed of context.random()
+  typedBuffer: false, // typed array buffer, for large grids (see cellbuffer)
+  dirtyTracking: false, // repaint only the rows marked as dirty (see dirty)
 } as unknown as Settings;
 
 // CSS styles which can be passed to the container element via settings
@@ -62,15 +79,20 @@ const CSSStyles = [
 // Finally, an optional userData object can be passed which will be available
 // as last parameter in all the module functions.
 // The program object should export at least a main(), pre() or post() function.
+// The returned promise also exposes some methods to control the program:
+// pause(), resume(), step(n), setFps(fps), stop() and dispose().
 export function run(
   program: Program,
   runSettings: Partial<Settings> = {},
   userData: any = {}
-) {
+): Promise<Context> & RunnerControls {
+  // Controls are assigned inside the promise (see below)
+  let controls: RunnerControls = NOOP_CONTROLS;
+
   // Everything is wrapped inside a promise;
   // in case of errors in ‘program’ it will reject without reaching the bottom.
   // If the program reaches the bottom of the first frame the promise is resolved.
-  return new Promise(function (resolve) {
+  const promise = new Promise<Context>(function (resolve) {
     // Merge of user- and default settings
     const settings: Settings = {
       ...defaultSettings,
@@ -97,34 +119,29 @@ export function run(
       state.cycle++; // Keep track of the cycle count for debugging purposes
     }
 
+    // Choose the renderer from the registry:
+    // an unknown renderer name rejects the promise.
+    const renderer: Render = getRenderer(settings.renderer);
+
     // If element is not provided create a default element based
     // on the renderer settings.
-    // Then choose the renderer:
-    // If the parent element is a canvas the canvas renderer is selected,
-    // for any other type a text node (PRE or any othe text node)
-    // is expected and the text renderer is used.
-    // TODO: better / more generic renderer init
-    let renderer: typeof textRenderer | typeof canvasRenderer;
+    // A canvas renderer expects a canvas target element,
+    // for any other renderer a text node (PRE or any othe text node)
+    // is expected.
+    // The element is removed by dispose() only if created here.
+    const createdElement = !settings.element;
     if (!settings.element) {
-      renderer = renderers[settings.renderer] || renderers["text"]!;
       settings.element = document.createElement(
         renderer.preferredElementNodeName
       );
       document.body.appendChild(settings.element);
-    } else {
-      if (settings.renderer == "canvas") {
-        if (settings.element.nodeName == "CANVAS") {
-          renderer = renderers[settings.renderer]!;
-        } else {
-          console.warn("This renderer expects a canvas target element.");
-        }
-      } else {
-        if (settings.element.nodeName != "CANVAS") {
-          renderer = renderers[settings.renderer]!;
-        } else {
-          console.warn("This renderer expects a text target element.");
-        }
-      }
+    } else if (
+      (settings.element.nodeName == "CANVAS") !=
+      (renderer.preferredElementNodeName == "CANVAS")
+    ) {
+      console.warn(
+        `The "${settings.renderer}" renderer expects a ${renderer.preferredElementNodeName} target element.`
+      );
     }
 
     // Apply CSS settings to element
@@ -135,7 +152,7 @@ export function run(
     // Eventqueue
     // Stores events and pops them at the end of the renderloop
     // TODO: needed?
-    const eventQueue: ("pointerMove" | "pointerDown" | "pointerUp")[] = [];
+    const eventQueue: InputEvent[] = [];
 
     // Input pointer updated by DOM events
     const pointer: Pointer = {
@@ -147,35 +164,89 @@ export function run(
       ppressed: false,
     };
 
-    settings.element.addEventListener("pointermove", ((e: PointerEvent) => {
+    // Listeners are stored to be removed by dispose()
+    const listeners: {
+      target: EventTarget;
+      type: string;
+      handler: EventListenerOrEventListenerObject;
+    }[] = [];
+    function listen(
+      type: string,
+      handler: EventListenerOrEventListenerObject,
+      target: EventTarget = settings.element as HTMLElement
+    ) {
+      target.addEventListener(type, handler);
+      listeners.push({ target, type, handler });
+    }
+
+    // All the pointers in contact (multi-touch) and their gestures
+    const pointers = new PointerTracker();
+
+    // Touches are handled as pointer events:
+    // the browser must not scroll or zoom the element.
+    settings.element.style.touchAction = "none";
+
+    // The cursor follows the primary pointer (mouse or first touch),
+    // the hooks are called only for the primary pointer.
+    listen("pointermove", ((e: PointerEvent) => {
       const rect = settings.element?.getBoundingClientRect();
       if (!rect) return;
-      pointer.x = e.clientX - rect.left;
-      pointer.y = e.clientY - rect.top;
-      eventQueue.push("pointerMove");
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      pointers.move(e.pointerId, x, y, e.pressure);
+      if (!e.isPrimary) return;
+      pointer.x = x;
+      pointer.y = y;
+      eventQueue.push({ type: "pointerMove" });
     }) as EventListenerOrEventListenerObject);
 
-    settings.element.addEventListener("pointerdown", ((e: PointerEvent) => {
+    listen("pointerdown", ((e: PointerEvent) => {
+      const rect = settings.element?.getBoundingClientRect();
+      if (!rect) return;
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      // Keep receiving the events of the pointer outside of the element
+      settings.element?.setPointerCapture(e.pointerId);
+      pointers.down(e.pointerId, e.pointerType, x, y, e.pressure, e.button);
+      if (!e.isPrimary) return;
+      // A touch has no position before it’s down
+      pointer.x = x;
+      pointer.y = y;
       pointer.pressed = true;
-      eventQueue.push("pointerDown");
+      eventQueue.push({ type: "pointerDown" });
     }) as EventListenerOrEventListenerObject);
 
-    settings.element.addEventListener("pointerup", ((e: PointerEvent) => {
+    const pointerUpHandler = ((e: PointerEvent) => {
+      pointers.up(e.pointerId);
+      if (!e.isPrimary) return;
       pointer.pressed = false;
-      eventQueue.push("pointerUp");
+      eventQueue.push({ type: "pointerUp" });
+    }) as EventListenerOrEventListenerObject;
+
+    listen("pointerup", pointerUpHandler);
+    listen("pointercancel", pointerUpHandler);
+
+    // Keyboard input: the keys are read from the element, so that each
+    // program on a page gets only its own keys. The element is made
+    // focusable (a click or Tab gives it the focus), unless it is already.
+    const keyboard = new KeyboardInput();
+    const addedTabIndex = !settings.element.hasAttribute("tabindex");
+    if (addedTabIndex) settings.element.tabIndex = 0;
+
+    listen("keydown", ((e: KeyboardEvent) => {
+      // Keys consumed by the program (see Keyboard.preventDefault)
+      if (keyboard.prevented.has(e.key)) e.preventDefault();
+      keyboard.keyDown(e.key);
+      eventQueue.push({ type: "keyDown", key: e.key });
     }) as EventListenerOrEventListenerObject);
 
-    const touchHandler = ((e: TouchEvent) => {
-      const rect = settings.element?.getBoundingClientRect();
-      if (!rect) return;
-      pointer.x = e.touches[0]!.clientX - rect.left;
-      pointer.y = e.touches[0]!.clientY - rect.top;
-      eventQueue.push("pointerMove");
-    }) as EventListenerOrEventListenerObject;
+    listen("keyup", ((e: KeyboardEvent) => {
+      keyboard.keyUp(e.key);
+      eventQueue.push({ type: "keyUp", key: e.key });
+    }) as EventListenerOrEventListenerObject);
 
-    settings.element.addEventListener("touchmove", touchHandler);
-    settings.element.addEventListener("touchstart", touchHandler);
-    settings.element.addEventListener("touchend", touchHandler);
+    // Keys released after the element has lost the focus would stay down
+    listen("blur", () => keyboard.reset());
 
     // CSS fix
     settings.element.style.fontStretch = "normal";
@@ -209,8 +280,8 @@ export function run(
           // settings.element.style.lineHeight = Math.ceil(metrics.lineHeightf) + 'px'
           // console.log(`Using font faimily: ${ci.fontFamily} @ ${ci.fontSize}/${ci.lineHeight}`)
           // console.log(`Metrics: cellWidth: ${metrics.cellWidth}, lineHeightf: ${metrics.lineHeightf}`)
-          // Finally Boot!
-          boot();
+          // Finally Boot! (unless stopped in the meantime)
+          if (!stopped) boot();
         }
       })();
       // Ideal mode:
@@ -222,62 +293,104 @@ export function run(
     // FPS object (keeps some state for precise FPS measure)
     const fps = new FPS();
 
-    // A cell with no value at all is just a space
-    const EMPTY_CELL = " ";
-
     // Default cell style inserted in case of undefined / null
-    const DEFAULT_CELL_STYLE = Object.freeze({
-      color: settings.color,
-      backgroundColor: settings.backgroundColor,
-      fontWeight: settings.fontWeight,
-    });
+    const DEFAULT_CELL_STYLE = getDefaultCellStyle(settings);
 
     // Buffer needed for the final DOM rendering,
-    // each array entry represents a cell.
-    const buffer: Buffer = [];
+    // each array entry represents a cell (or a typed buffer, see settings).
+    const buffer: AnyBuffer = createBuffer(settings);
+    const viewport = createViewport(settings);
 
     // Metrics object, calc once (below)
     let metrics: Metrics;
 
     function boot() {
       metrics = calcMetrics(settings.element as HTMLElement);
-      const context = getContext(state, settings, metrics, fps);
+      const context = getContext(
+        state,
+        settings,
+        metrics,
+        fps,
+        undefined,
+        viewport
+      );
+      if (typeof renderer.init == "function") {
+        renderer.init(context);
+      }
       if (typeof program.boot == "function") {
         program.boot(context, buffer, userData);
       }
-      requestAnimationFrame(loop);
+      if (!paused) rafId = requestAnimationFrame(loop);
     }
 
     // Time sample to calculate precise offset
     let timeSample = 0;
     // Previous time step to increment state.time (with state.time initial offset)
     let ptime = 0;
-    const interval = 1000 / settings.fps;
+    let interval = 1000 / settings.fps;
     const timeOffset = state.time;
 
+    // Fixed time mode: time and frame at the last fps change
+    let fixedOrigin = fixedTimeOrigin(state);
+
+    // Runner controls state
+    let rafId = 0;
+    let paused = false;
+    let stopped = false;
+    let disposed = false;
+    let pauseStart = 0; // clock time at pause (advanced by step())
+    let pausedTime = 0; // total time spent in pause, excluded from state.time
+
     // Used to track window resize
     let cols: number, rows: number;
 
     // Main program loop
     function loop(t: number) {
+      if (paused || stopped) return;
+
       // Timing
       const delta = t - timeSample;
       if (delta < interval) {
         // Skip the frame
-        if (!settings.once) requestAnimationFrame(loop);
+        if (!settings.once) rafId = requestAnimationFrame(loop);
         return;
       }
+      timeSample = t - (delta % interval); // adjust timeSample
+
+      const context = frame(t);
+
+      // 7. --------------------------------------------------------------
+      // Loop (eventually)
+      if (!settings.once) rafId = requestAnimationFrame(loop);
 
+      // The end of the first frame is reached without errors
+      // the promise can be resolved.
+      resolve(context);
+    }
+
+    // Renders a single frame at clock time t
+    function frame(t: number) {
       // Snapshot of context data
-      const context = getContext(state, settings, metrics, fps);
+      const context = getContext(
+        state,
+        settings,
+        metrics,
+        fps,
+        keyboard.update(),
+        viewport
+      );
 
       // FPS update
       fps.update(t);
 
       // Timing update
-      timeSample = t - (delta % interval); // adjust timeSample
-      state.time = t + timeOffset; // increment time + initial offs
       state.frame++; // increment frame counter
+      if (settings.timeMode == "fixed") {
+        state.time = getFixedTime(state, fixedOrigin);
+      } else {
+        // increment time + initial offs (time spent in pause is excluded)
+        state.time = t + timeOffset - pausedTime;
+      }
       storage.store(LOCAL_STORAGE_KEY_STATE, state); // store state
 
       // Cursor update
@@ -293,6 +406,13 @@ export function run(
           y: pointer.py / metrics.lineHeight,
           pressed: pointer.ppressed,
         },
+        // Multi-touch: pointers and gestures
+        ...pointers.update(
+          context.cols,
+          context.rows,
+          metrics.cellWidth,
+          metrics.lineHeight
+        ),
       };
 
       // Pointer: store previous state
@@ -305,78 +425,211 @@ export function run(
       if (cols != context.cols || rows != context.rows) {
         cols = context.cols;
         rows = context.rows;
-        buffer.length = context.cols * context.rows;
-        for (let i = 0; i < buffer.length; i++) {
-          buffer[i] = { ...DEFAULT_CELL_STYLE, char: EMPTY_CELL };
-        }
-      }
-
-      // 2. --------------------------------------------------------------
-      // Call pre(), if defined
-      if (typeof program.pre == "function") {
-        program.pre(context, cursor, buffer, userData);
-      }
-
-      // 3. --------------------------------------------------------------
-      // Call main(), if defined
-      if (typeof program.main == "function") {
-        for (let j = 0; j < context.rows; j++) {
-          const offs = j * context.cols;
-          for (let i = 0; i < context.cols; i++) {
-            const idx = i + offs;
-            // Override content:
-            // buffer[idx] = program.main({x:i, y:j, index:idx}, context, cursor, buffer, userData)
-            const out = program.main(
-              { x: i, y: j, index: idx },
-              context,
-              cursor,
-              buffer,
-              userData
-            );
-            if (typeof out == "object" && out !== null) {
-              buffer[idx] = { ...buffer[idx], ...out };
-            } else {
-              buffer[idx] = { ...buffer[idx], char: out };
-            }
-            // Fix undefined / null / etc.
-            if (buffer[idx]!.char === undefined || buffer[idx]!.char === null) {
-              buffer[idx]!.char = EMPTY_CELL;
-            }
-          }
+        resetBuffer(buffer, cols, rows, DEFAULT_CELL_STYLE);
+        if (typeof renderer.resize == "function") {
+          renderer.resize(context);
         }
       }
 
-      // 4. --------------------------------------------------------------
-      // Call post(), if defined
-      if (typeof program.post == "function") {
-        program.post(context, cursor, buffer, userData);
-      }
+      // 2. - 4. ---------------------------------------------------------
+      // Call pre(), main() and post(), if defined
+      processFrame(program, context, cursor, buffer, userData);
 
       // 5. --------------------------------------------------------------
-      renderer.render(context, buffer);
+      // The layers are drawn over the buffer (see layers)
+      const output = composite(buffer, DEFAULT_CELL_STYLE);
+      renderer.render(context, output);
+      state.updatedRowNum = getUpdatedRowNum(output);
 
       // 6. --------------------------------------------------------------
       // Queued events
-      while (eventQueue.length > 0) {
-        const type = eventQueue.shift();
-        if (type && typeof program[type] == "function") {
-          program[type](context, cursor, buffer);
-        }
+      dispatchEvents(program, eventQueue, context, cursor, buffer);
+
+      return context;
+    }
+
+    // Stops the loop, the current frame stays visible
+    function pause() {
+      if (paused || stopped) return;
+      paused = true;
+      pauseStart = performance.now();
+      cancelAnimationFrame(rafId);
+    }
+
+    function resume() {
+      if (!paused || stopped) return;
+      paused = false;
+      pausedTime += performance.now() - pauseStart;
+      if (metrics) rafId = requestAnimationFrame(loop);
+    }
+
+    // Pauses the program and renders n frames, each one interval apart
+    function step(n = 1) {
+      if (stopped) return;
+      pause();
+      // Not booted yet
+      if (!metrics) return;
+      for (let i = 0; i < n; i++) {
+        pauseStart += interval;
+        resolve(frame(pauseStart));
       }
+    }
 
-      // 7. --------------------------------------------------------------
-      // Loop (eventually)
-      if (!settings.once) requestAnimationFrame(loop);
+    function setFps(value: number) {
+      settings.fps = state.fps = value;
+      interval = 1000 / value;
+      // The fixed time continues from the current frame
+      fixedOrigin = fixedTimeOrigin(state);
+    }
 
-      // The end of the first frame is reached without errors
-      // the promise can be resolved.
-      resolve(context);
+    // Stops the program for good: it can’t be resumed
+    function stop() {
+      stopped = true;
+      cancelAnimationFrame(rafId);
+    }
+
+    // Stops the program and removes listeners and created elements
+    function dispose() {
+      if (disposed) return;
+      stop();
+      disposed = true;
+      const el = settings.element as HTMLElement;
+      if (metrics && typeof renderer.dispose == "function") {
+        renderer.dispose(getContext(state, settings, metrics, fps));
+      }
+      for (const { target, type, handler } of listeners) {
+        target.removeEventListener(type, handler);
+      }
+      listeners.length = 0;
+      if (createdElement) {
+        el.remove();
+      } else {
+        if (!settings.allowSelect) enableSelect(el);
+        if (addedTabIndex) el.removeAttribute("tabindex");
+      }
     }
+
+    controls = { pause, resume, step, setFps, stop, dispose };
   });
+
+  return Object.assign(promise, controls);
+}
+
+// Headless program runner.
+// Runs a program without a DOM: no element, no requestAnimationFrame
+// and no font metrics measurement. Frames are driven manually with a fixed
+// number of cols and rows; the time of each frame is read from a clock
+// function (by default derived from the frame number and settings.fps,
+// as in the 'fixed' time mode).
+// As in run(), the settings of the program override options.settings.
+// Returns a copy of the buffer for each rendered frame.
+// Useful for testing or batch rendering (in Node or Bun).
+export function runHeadless(
+  program: Program,
+  options: Partial<HeadlessOptions> = {},
+  userData: any = {}
+): Buffer[] {
+  const settings: Settings = {
+    ...defaultSettings,
+    ...options.settings,
+    ...program.settings,
+    element: null,
+    cols: options.cols || DEFAULT_HEADLESS_COLS,
+    rows: options.rows || DEFAULT_HEADLESS_ROWS,
+  };
+
+  const frames = options.frames ?? 1;
+  const clock =
+    options.time || ((frame: number) => (frame * 1000) / settings.fps);
+
+  const state: State = {
+    time: 0,
+    frame: 0,
+    cycle: 0,
+    fps: settings.fps,
+  };
+
+  const metrics: Metrics = { ...DEFAULT_METRICS, ...options.metrics };
+  metrics.aspect = metrics.cellWidth / metrics.lineHeight;
+
+  // There is no real pointer: a static cursor can be passed instead
+  const cursor = options.cursor || {
+    x: 0,
+    y: 0,
+    pressed: false,
+    p: { x: 0, y: 0, pressed: false },
+  };
+
+  const width = settings.cols * metrics.cellWidth;
+  const height = settings.rows * metrics.lineHeight;
+
+  // The FPS counter is kept for completeness: it reports the frame rate
+  // of the supplied clock.
+  const fps = new FPS();
+
+  const style = getDefaultCellStyle(settings);
+  const buffer: AnyBuffer = createBuffer(settings);
+  const viewport = createViewport(settings);
+  resetBuffer(buffer, settings.cols, settings.rows, style);
+
+  if (typeof program.boot == "function") {
+    const context = buildContext(
+      state,
+      settings,
+      metrics,
+      fps,
+      width,
+      height,
+      undefined,
+      viewport
+    );
+    program.boot(context, buffer, userData);
+  }
+
+  const out: Buffer[] = [];
+  for (let f = 0; f < frames; f++) {
+    state.time = clock(f);
+    const context = buildContext(
+      state,
+      settings,
+      metrics,
+      fps,
+      width,
+      height,
+      undefined,
+      viewport
+    );
+    fps.update(state.time);
+    processFrame(program, context, cursor, buffer, userData);
+    // The frames include the layers (see layers)
+    const output = composite(buffer, style);
+    out.push(
+      output instanceof CellBuffer
+        ? output.toArray()
+        : output.map((cell) => ({ ...cell }))
+    );
+    state.frame++;
+  }
+
+  return out;
 }
 
 // -- Helpers ------------------------------------------------------------------
 
+// Returned by run() in case of errors before the program is started
+const NOOP_CONTROLS: RunnerControls = {
+  pause() {},
+  resume() {},
+  step() {},
+  setFps() {},
+  stop() {},
+  dispose() {},
+};
+
+// Default grid size used by the headless runner
+const DEFAULT_HEADLESS_COLS = 80;
+const DEFAULT_HEADLESS_ROWS = 25;
+
 // Build / update the 'context' object (immutable)
 // A bit of spaghetti... but the context object needs to be ready for
 // the boot function and also to be updated at each frame.
@@ -384,27 +637,21 @@ function getContext(
   state: State,
   settings: Settings,
   metrics: Metrics,
-  fps: FPS
+  fps: FPS,
+  keyboard?: Keyboard,
+  viewport?: Viewport
 ): Context {
   const rect = settings.element?.getBoundingClientRect() as DOMRect;
-  const cols = settings.cols || Math.floor(rect.width / metrics.cellWidth);
-  const rows = settings.rows || Math.floor(rect.height / metrics.lineHeight);
-  return Object.freeze({
-    frame: state.frame,
-    time: state.time,
-    cols,
-    rows,
-    metrics,
-    width: rect.width,
-    height: rect.height,
+  return buildContext(
+    state,
     settings,
-    // Runtime & debug data
-    runtime: Object.freeze({
-      cycle: state.cycle,
-      fps: fps.fps,
-      // updatedRowNum
-    }),
-  }) as Context;
+    metrics,
+    fps,
+    rect.width,
+    rect.height,
+    keyboard,
+    viewport
+  );
 }
 
 // Disables selection for an HTML element
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { PassThrough } from "node:stream";
+import { runHeadless } from "./run";
+import { runTerminal } from "./terminal";
+import type { Program, Settings } from "./modules/types";
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Runs a program on a fake terminal of 4 × 2 cells
+function start(program: Program, settings: Partial<Settings> = {}) {
+  const input = new PassThrough();
+  let output = "";
+  const stream = {
+    write: (str: string) => {
+      output += str;
+      return true;
+    },
+  };
+  const done = runTerminal(program, {
+    cols: 4,
+    rows: 2,
+    fps: 1000,
+    input,
+    stream,
+    ...settings,
+  });
+  // Sends some input and waits for a few frames
+  const send = async (data: string) => {
+    input.write(data);
+    await wait(30);
+  };
+  return { done, send, output: () => output };
+}
+
+describe("runTerminal", () => {
+  test("maps the input to key names", async () => {
+    const keys: string[] = [];
+    const program: Program = {
+      keyDown: (context: any, cursor: any, buffer: any, key: string) =>
+        keys.push(key),
+    };
+    const term = start(program);
+    await term.done;
+    // An unknown sequence (F5) is skipped, control chars are ignored
+    await term.send("a\x1b[A\x1bOD\r\t\x7f\x1b[15~\x01é🌮");
+    await term.send("\x1b");
+    await term.send("\x03");
+    expect(keys).toEqual([
+      "a",
+      "ArrowUp",
+      "ArrowLeft",
+      "Enter",
+      "Tab",
+      "Backspace",
+      "é",
+      "🌮",
+      "Escape",
+    ]);
+  });
+
+  test("releases each key at once", async () => {
+    const events: string[] = [];
+    const program: Program = {
+      pre: (context) => {
+        if (context.keyboard.pressed.has("x")) events.push("pressed");
+      },
+      keyDown: () => events.push("down"),
+      keyUp: () => events.push("up"),
+    };
+    const term = start(program);
+    await term.done;
+    await term.send("x");
+    await term.send("\x03");
+    // Pressed in a single frame, the events follow that frame
+    expect(events).toEqual(["pressed", "down", "up"]);
+  });
+
+  test("maps the SGR mouse sequences to the cursor", async () => {
+    const events: string[] = [];
+    const log = (type: string) => (context: any, cursor: any) =>
+      events.push(`${type} ${cursor.x},${cursor.y} ${cursor.pressed}`);
+    const program: Program = {
+      pointerDown: log("down"),
+      pointerMove: log("move"),
+      pointerUp: log("up"),
+    };
+    const term = start(program);
+    await term.done;
+    // Coordinates are 1-based
+    await term.send("\x1b[<0;3;2M");
+    await term.send("\x1b[<32;4;2M");
+    // The wheel is ignored
+    await term.send("\x1b[<64;1;1M");
+    await term.send("\x1b[<0;4;1m");
+    await term.send("\x03");
+    expect(events).toEqual([
+      "down 2,1 true",
+      "move 3,1 true",
+      "up 3,0 false",
+    ]);
+  });
+
+  test("doesn’t read the mouse sequences as keys", async () => {
+    const keys: string[] = [];
+    const program: Program = {
+      keyDown: (context: any, cursor: any, buffer: any, key: string) =>
+        keys.push(key),
+    };
+    const term = start(program);
+    await term.done;
+    await term.send("x\x1b[<0;1;1My");
+    await term.send("\x03");
+    expect(keys).toEqual(["x", "y"]);
+  });
+
+  test("stops on Ctrl-C and restores the terminal", async () => {
+    let frames = 0;
+    const term = start({ pre: () => frames++ });
+    await term.done;
+    await term.send("\x03");
+    const count = frames;
+    await wait(30);
+    expect(frames).toBe(count);
+    // Mouse tracking off, cursor shown, main screen
+    expect(term.output()).toContain("\x1b[?1003l\x1b[?1006l");
+    expect(term.output()).toEndWith("\x1b[?25h\x1b[?1049l");
+  });
+
+  test("has the same fixed time as the other runners", async () => {
+    const times: number[] = [];
+    const program: Program = {
+      pre: (context) => {
+        if (times.length < 3) times.push(context.time);
+      },
+    };
+    const settings = { timeMode: "fixed", fps: 100 } as const;
+    const term = start(program, settings);
+    await term.done;
+    await wait(50);
+    await term.send("\x03");
+    const headless: number[] = [];
+    runHeadless(
+      { pre: (context) => headless.push(context.time) },
+      { frames: 3, settings }
+    );
+    expect(times).toEqual([0, 10, 20]);
+    expect(times).toEqual(headless);
+  });
+
+  test("restores the terminal after a single frame", async () => {
+    let frames = 0;
+    const term = start({ pre: () => frames++ }, { once: true });
+    const context = await term.done;
+    await wait(30);
+    expect(frames).toBe(1);
+    expect(context.cols).toBe(4);
+    expect(term.output()).toEndWith("\x1b[?25h\x1b[?1049l");
+  });
+});
@@ -0,0 +1,375 @@
+/**
+Terminal runner
+Node or Bun only (process.stdout, process.stdin): not part of the browser
+entry, it is imported from "glyph-engine/terminal".
+*/
+
+import { getRenderer } from "./core/renderers";
+import {
+  DEFAULT_METRICS,
+  buildContext,
+  createBuffer,
+  createViewport,
+  dispatchEvents,
+  fixedTimeOrigin,
+  getDefaultCellStyle,
+  getFixedTime,
+  processFrame,
+  resetBuffer,
+} from "./core/frame";
+import type { Buffer as NodeBuffer } from "node:buffer";
+import FPS from "./core/fps";
+import KeyboardInput from "./core/keyboard";
+import PointerTracker from "./core/pointers";
+import { getUpdatedRowNum } from "./modules/dirty";
+import { composite } from "./modules/layers";
+import type { Render } from "./core";
+import type {
+  AnyBuffer,
+  Buffer,
+  Context,
+  InputEvent,
+  Keyboard,
+  Metrics,
+  Pointer,
+  Program,
+  Settings,
+  State,
+} from "./modules";
+
+// Default settings for the terminal runner.
+// They can be overwritten by the parameters of the runner
+// or as a settings object exported by the program (in this order).
+// The output and input streams default to process.stdout and process.stdin.
+const defaultSettings = {
+  element: null, // unused: there is no DOM
+  cols: 0, // number of columns, 0 is equivalent to 'auto' (terminal size)
+  rows: 0, // number of rows, 0 is equivalent to 'auto' (terminal size)
+  once: false, // if set to true the renderer will run only once
+  fps: 30, // fps capping
+  renderer: "ansi", // any renderer writing to settings.stream
+  allowSelect: false,
+  restoreState: false,
+  mouse: true, // enables mouse tracking (if supported by the terminal)
+  timeMode: "realtime", // 'realtime' or 'fixed' (exactly 1000/fps per frame)
+  seed: 0, // seed of context.random()
+  typedBuffer: false, // typed array buffer, for large grids (see cellbuffer)
+  dirtyTracking: false, // repaint only the rows marked as dirty (see dirty)
+} as unknown as Settings;
+
+// A terminal cell is the unit: the aspect ratio of most terminal fonts
+// is about 1:2.
+const TERMINAL_METRICS: Metrics = {
+  ...DEFAULT_METRICS,
+  aspect: 0.5,
+  cellWidth: 1,
+  lineHeight: 2,
+};
+
+// Escape sequences to enable / disable mouse tracking:
+// any-event tracking (1003) with SGR extended coordinates (1006).
+const MOUSE_ON = "\x1b[?1003h\x1b[?1006h";
+const MOUSE_OFF = "\x1b[?1003l\x1b[?1006l";
+
+// SGR mouse: ESC [ < button ; x ; y (M = press / move, m = release)
+const MOUSE_SEQUENCE = /\x1b\[<(\d+);(\d+);(\d+)([Mm])/g;
+
+// Input sequences of special keys, mapped to KeyboardEvent.key names
+const KEY_SEQUENCES: Record<string, string> = {
+  "\x1b[A": "ArrowUp",
+  "\x1b[B": "ArrowDown",
+  "\x1b[C": "ArrowRight",
+  "\x1b[D": "ArrowLeft",
+  "\x1bOA": "ArrowUp",
+  "\x1bOB": "ArrowDown",
+  "\x1bOC": "ArrowRight",
+  "\x1bOD": "ArrowLeft",
+  "\x1b[H": "Home",
+  "\x1b[F": "End",
+  "\x1b[2~": "Insert",
+  "\x1b[3~": "Delete",
+  "\x1b[5~": "PageUp",
+  "\x1b[6~": "PageDown",
+  "\r": "Enter",
+  "\n": "Enter",
+  "\t": "Tab",
+  "\x7f": "Backspace",
+  "\b": "Backspace",
+};
+
+// Program runner for terminals (Node or Bun).
+// Same arguments as run(): the program is rendered with ANSI escape
+// sequences, the size of the terminal is detected at each frame
+// and the mouse is mapped to the cursor.
+// Ctrl-C stops the program and restores the terminal, then ends the
+// process as it does outside of raw mode (see interrupt).
+export function runTerminal(
+  program: Program,
+  runSettings: Partial<Settings> = {},
+  userData: any = {}
+) {
+  return new Promise<Context>(function (resolve, reject) {
+    const settings: Settings = {
+      ...defaultSettings,
+      ...runSettings,
+      ...program.settings,
+    };
+
+    const stream = (settings.stream = settings.stream || process.stdout);
+    const input = settings.input || process.stdin;
+
+    const renderer: Render = getRenderer(settings.renderer);
+
+    const state: State = {
+      time: 0,
+      frame: 0,
+      cycle: 0,
+      fps: settings.fps,
+    };
+
+    // Eventqueue
+    // Stores events and pops them at the end of the renderloop
+    const eventQueue: InputEvent[] = [];
+
+    // Terminals don’t report key releases:
+    // each key is pressed and released at once.
+    const keyboard = new KeyboardInput();
+
+    // The mouse is the only pointer (for long presses)
+    const pointers = new PointerTracker();
+
+    // Input pointer updated by the mouse sequences (in cells)
+    const pointer: Pointer = {
+      x: 0,
+      y: 0,
+      pressed: false,
+      px: 0,
+      py: 0,
+      ppressed: false,
+    };
+
+    // Parses the input: mouse sequences, keys and Ctrl-C
+    const onData = (data: NodeBuffer | string) => {
+      const str = data.toString();
+      if (str.includes("\x03")) {
+        interrupt();
+        return;
+      }
+      for (const m of str.matchAll(MOUSE_SEQUENCE)) {
+        const b = parseInt(m[1]!);
+        // Wheel events are ignored
+        if (b & 64) continue;
+        pointer.x = parseInt(m[2]!) - 1;
+        pointer.y = parseInt(m[3]!) - 1;
+        if (m[4] == "m") {
+          pointer.pressed = false;
+          pointers.up(0);
+          eventQueue.push({ type: "pointerUp" });
+        } else if (b & 32) {
+          pointers.move(0, pointer.x, pointer.y);
+          eventQueue.push({ type: "pointerMove" });
+        } else {
+          pointer.pressed = true;
+          pointers.down(0, "mouse", pointer.x, pointer.y, 0.5, b & 3);
+          eventQueue.push({ type: "pointerDown" });
+        }
+      }
+      for (const key of parseKeys(str.replace(MOUSE_SEQUENCE, ""))) {
+        keyboard.tap(key);
+        eventQueue.push({ type: "keyDown", key });
+        eventQueue.push({ type: "keyUp", key });
+      }
+    };
+
+    if (input.isTTY && typeof input.setRawMode == "function") {
+      input.setRawMode(true);
+    }
+    input.on("data", onData);
+    input.resume();
+    if (settings.mouse) stream.write(MOUSE_ON);
+
+    // FPS object (keeps some state for precise FPS measure)
+    const fps = new FPS();
+
+    // Default cell style inserted in case of undefined / null
+    const DEFAULT_CELL_STYLE = getDefaultCellStyle(settings);
+
+    const buffer: AnyBuffer = createBuffer(settings);
+    const viewport = createViewport(settings);
+
+    const metrics = TERMINAL_METRICS;
+
+    // Build the context for the current size of the terminal
+    function getContext(keys?: Keyboard) {
+      const cols = settings.cols || stream.columns || 80;
+      const rows = settings.rows || stream.rows || 24;
+      return buildContext(
+        state,
+        settings,
+        metrics,
+        fps,
+        cols * metrics.cellWidth,
+        rows * metrics.lineHeight,
+        keys,
+        viewport
+      );
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let running = true;
+
+    // Restores the terminal
+    function stop() {
+      if (!running) return;
+      running = false;
+      clearTimeout(timeout);
+      input.off("data", onData);
+      if (input.isTTY && typeof input.setRawMode == "function") {
+        input.setRawMode(false);
+      }
+      input.pause();
+      if (settings.mouse) stream.write(MOUSE_OFF);
+      if (typeof renderer.dispose == "function") {
+        renderer.dispose(getContext());
+      }
+    }
+
+    // Ctrl-C: the promise is rejected if the first frame hasn’t resolved
+    // it yet. With process.stdin the process then receives SIGINT, which
+    // exits unless a SIGINT listener is installed; with another input
+    // stream the program is only stopped.
+    function interrupt() {
+      stop();
+      reject(new Error("terminal.js: Stopped before the first frame."));
+      if (input === process.stdin) process.kill(process.pid, "SIGINT");
+    }
+
+    const interval = 1000 / settings.fps;
+    const startTime = performance.now();
+    // The fps doesn’t change: the fixed time starts at frame 0
+    const fixedOrigin = fixedTimeOrigin(state);
+
+    // Used to track terminal resize
+    let cols: number, rows: number;
+
+    function loop() {
+      if (!running) return;
+      const frameStart = performance.now();
+
+      // Snapshot of context data
+      const context = getContext(keyboard.update());
+
+      // Timing update
+      fps.update(frameStart);
+      state.frame++;
+      state.time =
+        settings.timeMode == "fixed"
+          ? getFixedTime(state, fixedOrigin)
+          : frameStart - startTime;
+
+      // Cursor update
+      const cursor = {
+        x: Math.min(context.cols - 1, pointer.x),
+        y: Math.min(context.rows - 1, pointer.y),
+        pressed: pointer.pressed,
+        p: {
+          // state of previous frame
+          x: pointer.px,
+          y: pointer.py,
+          pressed: pointer.ppressed,
+        },
+        ...pointers.update(context.cols, context.rows),
+      };
+
+      // Pointer: store previous state
+      pointer.px = pointer.x;
+      pointer.py = pointer.y;
+      pointer.ppressed = pointer.pressed;
+
+      // In case of resize / init normalize the buffer
+      if (cols != context.cols || rows != context.rows) {
+        cols = context.cols;
+        rows = context.rows;
+        resetBuffer(buffer, cols, rows, DEFAULT_CELL_STYLE);
+        if (typeof renderer.resize == "function") {
+          renderer.resize(context);
+        }
+      }
+
+      processFrame(program, context, cursor, buffer, userData);
+
+      // The layers are drawn over the buffer (see layers)
+      const output = composite(buffer, DEFAULT_CELL_STYLE);
+      renderer.render(context, output);
+      state.updatedRowNum = getUpdatedRowNum(output);
+
+      // Queued events
+      dispatchEvents(program, eventQueue, context, cursor, buffer);
+
+      // Loop (eventually), the time spent in the frame is subtracted.
+      // A single frame restores the terminal at once.
+      if (settings.once) {
+        stop();
+      } else {
+        const elapsed = performance.now() - frameStart;
+        timeout = setTimeout(run, Math.max(0, interval - elapsed));
+      }
+
+      resolve(context);
+    }
+
+    // Errors stop the program and reject the promise
+    function run() {
+      try {
+        loop();
+      } catch (e) {
+        stop();
+        reject(e);
+      }
+    }
+
+    try {
+      if (typeof renderer.init == "function") {
+        renderer.init(getContext());
+      }
+      if (typeof program.boot == "function") {
+        program.boot(getContext(), buffer, userData);
+      }
+    } catch (e) {
+      stop();
+      reject(e);
+      return;
+    }
+
+    run();
+  });
+}
+
+// Splits the terminal input into key names:
+// special keys are mapped, unknown escape sequences are ignored.
+function parseKeys(str: string) {
+  const keys: string[] = [];
+  let i = 0;
+  outer: while (i < str.length) {
+    for (const seq in KEY_SEQUENCES) {
+      if (str.startsWith(seq, i)) {
+        keys.push(KEY_SEQUENCES[seq]!);
+        i += seq.length;
+        continue outer;
+      }
+    }
+    // Unknown CSI sequence: skip up to the final byte
+    if (str.startsWith("\x1b[", i)) {
+      i += 2;
+      while (i < str.length && !/[@-~]/.test(str[i]!)) i++;
+      i++;
+      continue;
+    }
+    const char = String.fromCodePoint(str.codePointAt(i)!);
+    if (char == "\x1b") keys.push("Escape");
+    // Other control characters are ignored
+    else if (char >= " ") keys.push(char);
+    i += char.length;
+  }
+  return keys;
+}